@@ -1,11 +1,17 @@
-import { execSync } from 'child_process';
+import { execSync, spawn } from 'child_process';
 import * as fs from 'fs-extra';
 import * as path from 'path';
+import * as readline from 'readline';
 import axios from 'axios';
 import { EKSClient, DescribeClusterCommand, ListClustersCommand, CreateClusterCommand } from '@aws-sdk/client-eks';
 import { ACMClient, RequestCertificateCommand, DescribeCertificateCommand, ListCertificatesCommand } from '@aws-sdk/client-acm';
 import chalk from 'chalk';
-import { DeployConfig } from './types';
+import { DeployConfig, BuiltImage, HookConfig } from './types';
+import { resolveImageTag } from './utils';
+import { splitSecrets, resolveSecretReferences, getReferencedSecretName, checkExternalSecretsOperator } from './secret-refs';
+import { generateReferencedSecretManifest, generateSecretsManifest, serializeManifest, DEFAULT_HOOK_TIMEOUT_SECONDS } from './templates/kubernetes';
+import { orderComponents, getComponentConfig, getPreDeployHookConfig } from './components';
+import { getKustomizeOverlayDir } from './kustomize';
 
 export async function checkClusterExists(config: DeployConfig): Promise<boolean> {
   try {
@@ -28,6 +34,20 @@ export async function checkClusterExists(config: DeployConfig): Promise<boolean>
   }
 }
 
+// Kubernetes minor version of the cluster, e.g. "1.29"
+export async function getClusterVersion(config: DeployConfig): Promise<string | undefined> {
+  const eksClient = new EKSClient({
+    region: config.region,
+    credentials: {
+      accessKeyId: config.accessKeyId,
+      secretAccessKey: config.secretAccessKey,
+    },
+  });
+
+  const response = await eksClient.send(new DescribeClusterCommand({ name: config.clusterName }));
+  return response.cluster?.version;
+}
+
 export async function listClusters(config: DeployConfig): Promise<string[]> {
   try {
     const eksClient = new EKSClient({
@@ -820,7 +840,7 @@ data:
   }
 }
 
-export async function validateImageExists(config: DeployConfig, imageUri: string): Promise<boolean> {
+export async function validateImageExists(config: DeployConfig, imageUri: string, imageTag: string): Promise<boolean> {
   if (!config.imageRegistry) {
     return true; // Local image, assume exists
   }
@@ -834,7 +854,7 @@ export async function validateImageExists(config: DeployConfig, imageUri: string
 
       // Try to describe the image
       execSync(
-        `aws ecr describe-images --repository-name ${repoName} --image-ids imageTag=latest --region ${config.region} 2>/dev/null`,
+        `aws ecr describe-images --repository-name ${repoName} --image-ids imageTag=${imageTag} --region ${config.region} 2>/dev/null`,
         { encoding: 'utf-8', stdio: 'pipe', env: { ...process.env } }
       );
       return true;
@@ -904,17 +924,77 @@ export async function checkAndFixImagePullError(config: DeployConfig): Promise<v
   }
 }
 
-export async function buildAndPushImage(config: DeployConfig): Promise<string | null> {
+export function getPushedImageDigest(imageUri: string, repository: string): string | undefined {
+  try {
+    const repoDigests = execSync(
+      `docker inspect --format='{{json .RepoDigests}}' ${imageUri}`,
+      { encoding: 'utf-8', stdio: 'pipe' }
+    ).trim();
+    const digests: string[] = JSON.parse(repoDigests) || [];
+    const match = digests.find(d => d.startsWith(`${repository}@`));
+    return match ? match.substring(match.indexOf('@') + 1) : undefined;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+async function recordBuiltImage(config: DeployConfig, image: BuiltImage, aliases: string[]): Promise<void> {
+  if (!config.artifactDir) {
+    return;
+  }
+  await fs.writeJson(
+    path.join(config.artifactDir, 'image.json'),
+    {
+      repository: image.repository,
+      tag: image.tag,
+      digest: image.digest || null,
+      uri: image.uri,
+      aliases,
+      builtAt: new Date().toISOString(),
+    },
+    { spaces: 2 }
+  );
+}
+
+/**
+ * Run a shell command without blocking, so the images of several components
+ * can build at once. With a label, each output line is prefixed with it.
+ */
+function runCommand(command: string, label?: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, { shell: true, stdio: label ? ['ignore', 'pipe', 'pipe'] : 'inherit' });
+    if (label) {
+      for (const stream of [child.stdout!, child.stderr!]) {
+        readline.createInterface({ input: stream }).on('line', line => console.log(`${chalk.gray(`[${label}]`)} ${line}`));
+      }
+    }
+    child.on('error', reject);
+    child.on('close', code => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`Command failed with exit code ${code}: ${command}`));
+      }
+    });
+  });
+}
+
+export async function buildAndPushImage(config: DeployConfig): Promise<BuiltImage | null> {
   const imageName = config.appName.toLowerCase();
+  const imageTag = config.imageTag || resolveImageTag(config);
+  const pushLatest = !!config.imageTagging?.pushLatest;
+  let repository: string;
   let imageUri: string;
   const artifactDir = config.artifactDir || process.cwd();
-  const dockerfilePath = path.join(artifactDir, 'Dockerfile');
-  const buildContext = process.cwd();
+  const dockerfilePath = config.dockerfile || path.join(artifactDir, 'Dockerfile');
+  const buildContext = config.buildContext || process.cwd();
+  // Components build in parallel, so their output is labelled
+  const outputLabel = config.partOf ? config.appName : undefined;
 
   if (config.imageRegistry) {
+    repository = `${config.imageRegistry}/${imageName}`;
+    imageUri = `${repository}:${imageTag}`;
     if (config.imageRegistry.includes('amazonaws.com')) {
-      imageUri = `${config.imageRegistry}/${imageName}:latest`;
-
       try {
         const loginCommand = execSync(
           `aws ecr get-login-password --region ${config.region}`,
@@ -929,21 +1009,22 @@ export async function buildAndPushImage(config: DeployConfig): Promise<string |
         return null;
       }
     } else {
-      imageUri = `${config.imageRegistry}/${imageName}:latest`;
       console.log(chalk.yellow('   ⚠️  Please ensure Docker Hub credentials are configured'));
     }
   } else {
-    imageUri = `${imageName}:latest`;
     console.log(chalk.yellow('   ⚠️  No registry specified, using local image'));
     console.log(chalk.yellow('   ⚠️  You may need to push the image manually or use a local registry'));
     return null;
   }
 
+  const latestUri = `${repository}:latest`;
+  const tagArgs = pushLatest ? `-t ${imageUri} -t ${latestUri}` : `-t ${imageUri}`;
+
   console.log(chalk.blue(`   Building image: ${imageUri}`));
   
   // Detect if we're on ARM (Apple Silicon) and EKS nodes are likely amd64
   // Build for linux/amd64 platform to ensure compatibility with EKS nodes
-  let buildCommand = `docker build -f "${dockerfilePath}" -t ${imageUri} ${buildContext}`;
+  let buildCommand = `docker build -f "${dockerfilePath}" ${tagArgs} ${buildContext}`;
   
   try {
     // Check if docker buildx is available (for multi-platform builds)
@@ -951,23 +1032,23 @@ export async function buildAndPushImage(config: DeployConfig): Promise<string |
     
     // Use buildx to build for linux/amd64 platform (EKS standard)
     console.log(chalk.cyan('   Building for linux/amd64 platform (EKS compatible)...'));
-    buildCommand = `docker buildx build --platform linux/amd64 -f "${dockerfilePath}" -t ${imageUri} --load ${buildContext}`;
+    buildCommand = `docker buildx build --platform linux/amd64 -f "${dockerfilePath}" ${tagArgs} --load ${buildContext}`;
   } catch (buildxError) {
     // buildx not available, try with --platform flag (requires Docker 20.10+)
     try {
       execSync(`docker build --help | grep -q platform || echo "no-platform"`, { stdio: 'pipe' });
       console.log(chalk.cyan('   Building for linux/amd64 platform (EKS compatible)...'));
-      buildCommand = `docker build --platform linux/amd64 -f "${dockerfilePath}" -t ${imageUri} ${buildContext}`;
+      buildCommand = `docker build --platform linux/amd64 -f "${dockerfilePath}" ${tagArgs} ${buildContext}`;
     } catch (platformError) {
       // Fallback to regular build (may fail on ARM Macs with amd64 EKS)
       console.log(chalk.yellow('   ⚠️  Building without platform specification'));
       console.log(chalk.yellow('   ⚠️  If you\'re on ARM Mac and EKS nodes are amd64, this may fail'));
-      buildCommand = `docker build -f "${dockerfilePath}" -t ${imageUri} ${buildContext}`;
+      buildCommand = `docker build -f "${dockerfilePath}" ${tagArgs} ${buildContext}`;
     }
   }
   
   try {
-    execSync(buildCommand, { stdio: 'inherit' });
+    await runCommand(buildCommand, outputLabel);
   } catch (error: any) {
     // If build fails and we're on ARM, suggest using buildx
     if (error.message.includes('platform') || error.message.includes('exec format')) {
@@ -979,25 +1060,40 @@ export async function buildAndPushImage(config: DeployConfig): Promise<string |
     throw new Error(`Failed to build Docker image: ${error.message}`);
   }
 
-  if (config.imageRegistry) {
-    console.log(chalk.blue(`   Pushing image: ${imageUri}`));
-    try {
-      execSync(`docker push ${imageUri}`, { stdio: 'inherit' });
-      console.log(chalk.green(`   ✓ Image pushed successfully`));
+  console.log(chalk.blue(`   Pushing image: ${imageUri}`));
+  try {
+    await runCommand(`docker push ${imageUri}`, outputLabel);
+    if (pushLatest) {
+      await runCommand(`docker push ${latestUri}`, outputLabel);
+    }
+    console.log(chalk.green(`   ✓ Image pushed successfully`));
 
-      // Validate image exists after push
-      const exists = await validateImageExists(config, imageUri);
-      if (!exists) {
-        console.log(chalk.yellow('   ⚠️  Image validation failed, but continuing...'));
-      }
-    } catch (error: any) {
-      console.log(chalk.yellow(`   ⚠️  Failed to push image: ${error.message}`));
-      console.log(chalk.yellow('   Continuing with local image...'));
-      return null;
+    // Validate image exists after push
+    const exists = await validateImageExists(config, imageUri, imageTag);
+    if (!exists) {
+      console.log(chalk.yellow('   ⚠️  Image validation failed, but continuing...'));
     }
+  } catch (error: any) {
+    console.log(chalk.yellow(`   ⚠️  Failed to push image: ${error.message}`));
+    console.log(chalk.yellow('   Continuing with local image...'));
+    return null;
+  }
+
+  // Pin the Deployment to the pushed content so re-deploys never depend on pull policy
+  const digest = getPushedImageDigest(imageUri, repository);
+  if (!digest) {
+    console.log(chalk.yellow('   ⚠️  Could not determine image digest, deploying by tag'));
   }
 
-  return imageUri;
+  const builtImage: BuiltImage = {
+    repository,
+    tag: imageTag,
+    digest,
+    uri: digest ? `${repository}@${digest}` : imageUri,
+  };
+  await recordBuiltImage(config, builtImage, pushLatest ? ['latest'] : []);
+
+  return builtImage;
 }
 
 export async function setupDomain(config: DeployConfig): Promise<string | null> {
@@ -1319,6 +1415,128 @@ async function applyWithRetry(command: string, maxRetries: number = 10, maxWaitP
   }
 }
 
+/**
+ * Resolve secretsmanager:/ssm: references and apply them as a Secret through
+ * kubectl's stdin, so the values never touch the artifacts directory or the
+ * release history.
+ */
+async function resolveReferencedSecrets(config: DeployConfig): Promise<Record<string, string>> {
+  const { references } = splitSecrets(config);
+  const count = Object.keys(references).length;
+  if (count === 0) {
+    return {};
+  }
+
+  console.log(chalk.blue(`   Resolving ${count} secret reference(s) from AWS...`));
+  return resolveSecretReferences(config);
+}
+
+// Secret values are never written to k8s/: the Secrets are piped to kubectl from memory
+function applySecretsFromMemory(config: DeployConfig, referencedValues: Record<string, string>): void {
+  const secrets = generateSecretsManifest(config);
+  if (secrets) {
+    execSync('kubectl apply -f -', { input: serializeManifest(secrets), stdio: ['pipe', 'inherit', 'inherit'] });
+  }
+  if (Object.keys(referencedValues).length > 0) {
+    execSync('kubectl apply -f -', {
+      input: serializeManifest(generateReferencedSecretManifest(config, referencedValues)),
+      stdio: ['pipe', 'inherit', 'inherit'],
+    });
+    console.log(chalk.green(`   ✓ Secret ${getReferencedSecretName(config)} updated`));
+  }
+}
+
+function getJobState(jobName: string, namespace: string): 'running' | 'complete' | 'failed' {
+  const output = execSync(`kubectl get job ${jobName} -n ${namespace} -o json`, { encoding: 'utf-8', stdio: 'pipe' });
+  const conditions: any[] = JSON.parse(output).status?.conditions || [];
+  const isTrue = (type: string) => conditions.some(condition => condition.type === type && condition.status === 'True');
+  return isTrue('Complete') ? 'complete' : isTrue('Failed') ? 'failed' : 'running';
+}
+
+/**
+ * Run the pre-deploy hook as a Job and stream its logs. Throws when the Job
+ * fails or times out; no Deployment, Secret or ConfigMap of the app has been
+ * updated yet, so the running version keeps serving unchanged.
+ */
+async function runPreDeployHook(config: DeployConfig, hook: HookConfig, jobFile: string, referencedValues: Record<string, string>): Promise<void> {
+  const namespace = config.namespace || 'default';
+  const hookConfig = getPreDeployHookConfig(config, hook);
+  const jobName = hookConfig.appName;
+  const timeoutSeconds = hook.timeoutSeconds ?? DEFAULT_HOOK_TIMEOUT_SECONDS;
+
+  console.log(chalk.blue(`   Running pre-deploy hook: ${hook.command.join(' ')}`));
+  // The hook's own copies of the Secrets; those of its ConfigMaps and ExternalSecret are in jobFile
+  applySecretsFromMemory(hookConfig, referencedValues);
+  // A Job's pod template cannot be changed, so the previous run is replaced
+  execSync(`kubectl delete job ${jobName} -n ${namespace} --ignore-not-found`, { stdio: 'pipe' });
+  execSync(`kubectl apply -f ${jobFile}`, { stdio: 'inherit' });
+
+  // Leave time for scheduling and the image pull on top of the Job's own deadline
+  const deadline = Date.now() + (timeoutSeconds + 60) * 1000;
+  let logsStreamed = false;
+  while (Date.now() < deadline) {
+    if (!logsStreamed) {
+      try {
+        // Follows the pod until the command exits; fails while the container is still starting
+        execSync(`kubectl logs -f job/${jobName} -n ${namespace}`, { stdio: ['ignore', 'inherit', 'pipe'] });
+        logsStreamed = true;
+      } catch (error) {
+      }
+    }
+
+    const state = getJobState(jobName, namespace);
+    if (state === 'complete') {
+      console.log(chalk.green('   ✓ Pre-deploy hook completed'));
+      return;
+    }
+    if (state === 'failed') {
+      throw new Error(
+        `Pre-deploy hook failed; the deploy was aborted and the current version keeps running. ` +
+        `Inspect it with: kubectl describe job/${jobName} -n ${namespace}`
+      );
+    }
+    await new Promise(resolve => setTimeout(resolve, 3000));
+  }
+
+  throw new Error(`Pre-deploy hook did not finish within ${timeoutSeconds}s; the deploy was aborted`);
+}
+
+async function applyServiceManifests(config: DeployConfig, manifestsDir: string): Promise<void> {
+  execSync(
+    `kubectl apply -f ${path.join(manifestsDir, 'deployment.yaml')}`,
+    { stdio: 'inherit' }
+  );
+
+  if (config.enableIngress) {
+    await applyWithRetry(
+      `kubectl apply -f ${path.join(manifestsDir, 'service.yaml')}`,
+      15,
+      10000
+    );
+  } else {
+    execSync(
+      `kubectl apply -f ${path.join(manifestsDir, 'service.yaml')}`,
+      { stdio: 'inherit' }
+    );
+  }
+
+  if (config.autoscaling && config.autoscaling.enabled) {
+    const hpaFile = path.join(manifestsDir, 'hpa.yaml');
+    if (fs.existsSync(hpaFile)) {
+      execSync(`kubectl apply -f ${hpaFile}`, { stdio: 'inherit' });
+    }
+  }
+
+  applyDisruptionBudget(manifestsDir);
+}
+
+function applyDisruptionBudget(manifestsDir: string): void {
+  const pdbFile = path.join(manifestsDir, 'pdb.yaml');
+  if (fs.existsSync(pdbFile)) {
+    execSync(`kubectl apply -f ${pdbFile}`, { stdio: 'inherit' });
+  }
+}
+
 export async function applyManifests(config: DeployConfig, manifestsDir: string): Promise<void> {
   try {
     if (config.namespace && config.namespace !== 'default') {
@@ -1328,36 +1546,65 @@ export async function applyManifests(config: DeployConfig, manifestsDir: string)
       }
     }
 
-    if (config.secrets && Object.keys(config.secrets).length > 0) {
-      const secretsFile = path.join(manifestsDir, 'secrets.yaml');
-      if (fs.existsSync(secretsFile)) {
-        execSync(`kubectl apply -f ${secretsFile}`, { stdio: 'inherit' });
+    const externalSecretFile = path.join(manifestsDir, 'externalsecret.yaml');
+    const useExternalSecrets = fs.existsSync(externalSecretFile);
+    if (useExternalSecrets) {
+      checkExternalSecretsOperator();
+    }
+    // Resolved once for the hook and the app
+    const referencedValues = useExternalSecrets ? {} : await resolveReferencedSecrets(config);
+
+    // Runs with the new image and its own copy of the new Secrets and ConfigMaps; the app's
+    // shared ones change only once it has succeeded, so the running version never sees them early
+    if (config.hooks?.preDeploy) {
+      await runPreDeployHook(config, config.hooks.preDeploy, path.join(manifestsDir, 'pre-deploy-job.yaml'), referencedValues);
+    }
+
+    applySecretsFromMemory(config, referencedValues);
+    if (useExternalSecrets) {
+      execSync(`kubectl apply -f ${externalSecretFile}`, { stdio: 'inherit' });
+    }
+
+    if (config.configMaps && Object.keys(config.configMaps).length > 0) {
+      const configMapFile = path.join(manifestsDir, 'configmap.yaml');
+      if (fs.existsSync(configMapFile)) {
+        execSync(`kubectl apply -f ${configMapFile}`, { stdio: 'inherit' });
       }
     }
 
-    execSync(
-      `kubectl apply -f ${path.join(manifestsDir, 'deployment.yaml')}`,
-      { stdio: 'inherit' }
-    );
+    if (config.manifestFormat === 'kustomize') {
+      // One apply for the services, workloads and ingress; dependsOn is rejected with kustomize
+      const overlayDir = getKustomizeOverlayDir();
+      console.log(chalk.blue(`   Applying ${path.relative(process.cwd(), overlayDir)} with kubectl apply -k...`));
+      await applyWithRetry(`kubectl apply -k ${overlayDir}`, 15, 10000);
+      return;
+    }
 
-    if (config.enableIngress) {
-      await applyWithRetry(
-        `kubectl apply -f ${path.join(manifestsDir, 'service.yaml')}`,
-        15,
-        10000
-      );
+    if (config.components?.length) {
+      const components = orderComponents(config.components);
+      for (const component of components) {
+        const componentConfig = getComponentConfig(config, component);
+        console.log(chalk.blue(`   Applying ${component.name}...`));
+        await applyServiceManifests(componentConfig, path.join(manifestsDir, component.name));
+
+        // Dependents are only applied once this component is serving
+        if (components.some(other => other.dependsOn?.includes(component.name))) {
+          console.log(chalk.blue(`   Waiting for ${component.name} before applying the components that depend on it...`));
+          execSync(
+            `kubectl rollout status deployment/${componentConfig.appName} -n ${config.namespace || 'default'} --timeout=300s`,
+            { stdio: 'inherit' }
+          );
+        }
+      }
     } else {
-      execSync(
-        `kubectl apply -f ${path.join(manifestsDir, 'service.yaml')}`,
-        { stdio: 'inherit' }
-      );
+      await applyServiceManifests(config, manifestsDir);
     }
 
-    if (config.autoscaling && config.autoscaling.enabled) {
-      const hpaFile = path.join(manifestsDir, 'hpa.yaml');
-      if (fs.existsSync(hpaFile)) {
-        execSync(`kubectl apply -f ${hpaFile}`, { stdio: 'inherit' });
-      }
+    for (const workload of config.workloads || []) {
+      const file = workload.kind === 'cron' ? 'cronjob.yaml' : 'deployment.yaml';
+      console.log(chalk.blue(`   Applying ${workload.kind} ${workload.name}...`));
+      execSync(`kubectl apply -f ${path.join(manifestsDir, workload.name, file)}`, { stdio: 'inherit' });
+      applyDisruptionBudget(path.join(manifestsDir, workload.name));
     }
 
     if (config.enableIngress) {
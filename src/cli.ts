@@ -9,9 +9,18 @@ import * as path from 'path';
 import axios from 'axios';
 import { deployToEKS } from './deploy';
 import { runDiagnostics } from './diagnose';
-import { promptAWSConfig, loadSavedConfig } from './prompts';
+import { planDeployment } from './plan';
+import { exportHelmChart, lintHelmChart } from './helm-export';
+import { registerConfigOptions, isNonInteractive } from './config-overrides';
+import { promptAWSConfig, loadPlanConfig, loadResolvedConfig, CONFIG_FILE_NAME } from './prompts';
+import { loadProjectConfig, checkProjectConfig } from './project-config';
+import { activateProfile, activateAppDir, getAppDir, getActiveProfile, useProfileCluster, listWorkspaces } from './profiles';
+import { migrateConfigFileSecrets, resolveConfigSecrets } from './secret-store';
 import { checkPrerequisites } from './utils';
+import { detectFramework, printFrameworkDetection, MIN_DETECTION_CONFIDENCE } from './framework-detector';
 import { deleteCloudflareRecord } from './aws-utils';
+import { loadReleaseHistory, printReleaseHistory, rollbackToRelease, findPreviousRelease } from './releases';
+import { DeployConfig } from './types';
 
 const program = new Command();
 
@@ -19,83 +28,154 @@ program
   .name('ekspressjs')
   .description('Deploy applications to EKS quickly and easily')
   .version('1.0.0')
+  // Subcommands declare their own --env and --app-dir, which the root command also has
+  .enablePositionalOptions()
   .addHelpText('before', `
 ${chalk.blue.bold('🚀 EKSPressJS - EKS Deployment Tool')}
 
 ${chalk.cyan('Quick Start:')}
   npx ekspressjs --framework next
   npx ekspressjs --framework java --port 8080
-  npx ekspressjs  # (requires Dockerfile in project root)
+  npx ekspressjs  # (framework detected, or ./Dockerfile built as-is)
 
 ${chalk.cyan('Examples:')}
   # Deploy Next.js app
   npx ekspressjs --framework next --name my-app --port 3000
 
-  # Deploy Java app with custom Dockerfile
+  # Deploy a FastAPI app (uvicorn on port 8000)
+  npx ekspressjs --framework fastapi --name my-api
+
+  # Deploy Java app
   npx ekspressjs --framework java --port 8080 --name my-java-app
 
-  # Deploy without specifying framework (auto-detect from Dockerfile)
-  npx ekspressjs --port 8080 --name my-app
+  # Deploy with your own Dockerfile, built as-is
+  npx ekspressjs --dockerfile ./docker/Dockerfile.prod --port 8080 --name my-app
+
+  # Show which framework would be detected
+  npx ekspressjs detect
+
+  # Preview changes without deploying
+  npx ekspressjs --framework next --plan
+
+  # Check ekspressjs.yaml without deploying
+  npx ekspressjs validate
+
+  # Deploy the staging profile from ekspressjs.yaml
+  npx ekspressjs --env staging
+
+  # Deploy one package of a monorepo, built from the repository root
+  npx ekspressjs --app-dir apps/web
+
+  # Deploy from a CI pipeline (never prompts)
+  EKSPRESSJS_SECRET_ACCESS_KEY=... npx ekspressjs --ci -f next --region us-east-1 --cluster prod --name web
 
 `)
-  .option('-f, --framework <type>', 'Framework type: next, nuxt, nest, react, vue, java (optional if Dockerfile exists)')
+  .option('-f, --framework <type>', 'Framework type: next, nuxt, nest, react, vue, java, fastapi, django, flask, go, rust (detected when omitted)')
   .option('-a, --app <type>', 'Framework type (deprecated, use --framework)')
-  .option('-n, --name <name>', 'Application name')
-  .option('-p, --port <port>', 'Application port', '3000')
-  .option('-r, --replicas <count>', 'Number of replicas', '2')
+  .option('--dockerfile [path]', 'Build your own Dockerfile as-is instead of generating one (default: ./Dockerfile) [env: EKSPRESSJS_DOCKERFILE]')
+  .option('--auto-rollback', 'Roll back to the previous release if the rollout or health check fails')
+  .option('--plan', 'Render artifacts and show what would change, without touching AWS or the cluster');
+
+registerConfigOptions(program);
+
+program
   .addHelpText('after', `
 ${chalk.yellow('Note:')}
-  - If --framework is not specified, the tool will check for a Dockerfile in the project root
-  - If Dockerfile exists, it will use framework type 'java'
-  - If no Dockerfile and no framework specified, deployment will fail
+  - If neither --framework nor --dockerfile is given, app.framework or app.dockerfile from ekspressjs.yaml is used
+  - Otherwise a Dockerfile in the project root is built as-is (custom Dockerfile mode)
+  - Without one, the framework is detected from package.json, pom.xml, build.gradle, go.mod, Cargo.toml or Python requirements
+  - If detection is not confident enough, deployment fails and lists the evidence found
 
 ${chalk.cyan('For more information, visit:')} https://github.com/dothinh115/ekspressjs
 `)
   .action(async (options) => {
     try {
       console.log(chalk.blue.bold('\n🚀 EKSPressJS - EKS Deployment Tool\n'));
+      activateAppDir(options);
+      activateProfile(options);
 
-      let frameworkType = options.framework || options.app;
-      const validAppTypes = ['next', 'nuxt', 'nest', 'react', 'vue', 'java'];
+      const projectConfig = loadProjectConfig(options);
+      const explicitFramework = options.framework || options.app || process.env.EKSPRESSJS_FRAMEWORK;
+      const explicitDockerfile = options.dockerfile || process.env.EKSPRESSJS_DOCKERFILE;
+      const nonInteractive = isNonInteractive(options);
+      const validAppTypes = ['next', 'nuxt', 'nest', 'react', 'vue', 'java', 'fastapi', 'django', 'flask', 'go', 'rust'];
 
       if (options.app && !options.framework) {
         console.log(chalk.yellow('⚠️  --app is deprecated, use --framework instead'));
       }
+      if (explicitFramework && explicitDockerfile) {
+        throw new Error('--framework and --dockerfile cannot be combined: a custom Dockerfile is built as-is');
+      }
+      const components = projectConfig?.config.components || [];
+      if (components.length > 0 && (explicitFramework || explicitDockerfile)) {
+        throw new Error('--framework and --dockerfile do not apply to multi-service apps: each component in ekspressjs.yaml sets its own');
+      }
+
+      // Flags and EKSPRESSJS_* variables win over ekspressjs.yaml, whichever mode they pick
+      let frameworkType = explicitFramework || (explicitDockerfile ? undefined : projectConfig?.framework);
+      let dockerfile: string | undefined = explicitDockerfile
+        ? path.resolve(explicitDockerfile === true ? 'Dockerfile' : explicitDockerfile)
+        : (explicitFramework ? undefined : projectConfig?.dockerfile);
 
-      // If no framework specified, check for Dockerfile
-      if (!frameworkType) {
-        const dockerfilePath = path.join(process.cwd(), 'Dockerfile');
-        if (await fs.pathExists(dockerfilePath)) {
-          console.log(chalk.cyan('   Found Dockerfile. Using framework type: java'));
-          frameworkType = 'java';
+      const workloads = projectConfig?.config.workloads || [];
+      if (workloads.length > 0) {
+        console.log(chalk.cyan(`⚙️  Workloads: ${workloads.map(workload => `${workload.name} (${workload.kind})`).join(', ')}`));
+      }
+
+      if (components.length > 0) {
+        console.log(chalk.cyan(`🧩 Multi-service app: ${components.map(component => `${component.name} (${component.appType || 'Dockerfile'})`).join(', ')}\n`));
+      } else if (!frameworkType && !dockerfile) {
+        const detection = detectFramework(getAppDir());
+        const rootDockerfile = path.join(getAppDir(), 'Dockerfile');
+
+        if (await fs.pathExists(rootDockerfile)) {
+          // The user's own Dockerfile knows more than any detection
+          dockerfile = rootDockerfile;
+          console.log(chalk.cyan('   Found Dockerfile. Building it as-is (custom Dockerfile mode)'));
+          if (detection.best && detection.best.confidence >= MIN_DETECTION_CONFIDENCE) {
+            console.log(chalk.gray(`   Detected ${detection.best.appType}; use --framework ${detection.best.appType} to generate a Dockerfile instead`));
+          }
+        } else if (detection.best && detection.best.confidence >= MIN_DETECTION_CONFIDENCE) {
+          frameworkType = detection.best.appType;
+          console.log(chalk.cyan('🔎 Detected framework:'));
+          printFrameworkDetection(detection);
+          console.log();
         } else {
-          console.error(chalk.red(`❌ Framework type is required or Dockerfile must exist`));
+          console.error(chalk.red(`❌ Could not detect the framework and no Dockerfile found`));
+          printFrameworkDetection(detection);
           console.log(chalk.yellow(`Valid frameworks: ${validAppTypes.join(', ')}`));
           console.log(chalk.cyan(`Example: npx ekspressjs --framework next`));
-          console.log(chalk.cyan(`Or: npx ekspressjs (requires Dockerfile in project root)`));
+          console.log(chalk.cyan(`Or: npx ekspressjs --dockerfile ./path/to/Dockerfile`));
           process.exit(1);
         }
-      } else if (!validAppTypes.includes(frameworkType)) {
+      } else if (frameworkType && !validAppTypes.includes(frameworkType)) {
         console.error(chalk.red(`❌ Invalid framework type: ${frameworkType}`));
         console.log(chalk.yellow(`Valid frameworks: ${validAppTypes.join(', ')}`));
         console.log(chalk.cyan(`Example: npx ekspressjs --framework next`));
         process.exit(1);
       }
 
+      if (options.plan) {
+        const awsConfig = await loadPlanConfig(options, frameworkType);
+        await planDeployment({
+          appType: frameworkType,
+          dockerfile,
+          ...awsConfig,
+        });
+        return;
+      }
+
       console.log(chalk.cyan('\n🔍 Checking prerequisites...\n'));
-      await checkPrerequisites();
+      await checkPrerequisites(nonInteractive);
 
-      const awsConfig = await promptAWSConfig(options);
+      const awsConfig = await promptAWSConfig(options, frameworkType);
 
       await deployToEKS({
         appType: frameworkType,
+        dockerfile,
         ...awsConfig,
-        appName: options.name || awsConfig.appName,
-        port: parseInt(options.port),
-        replicas: parseInt(options.replicas),
+        autoRollback: !!options.autoRollback,
       });
-
-      console.log(chalk.green.bold('\n✅ Deployment completed successfully!\n'));
     } catch (error: any) {
       console.error(chalk.red.bold('\n❌ Deployment failed:'));
       console.error(chalk.red(error.message));
@@ -111,8 +191,12 @@ program
   .alias('doctor')
   .description('Check system health and debug stuck deployments')
   .option('-n, --name <name>', 'Application name')
+  .option('--env <profile>', 'Profile from ekspressjs.yaml [env: EKSPRESSJS_ENV]')
+  .option('--app-dir <path>', 'Monorepo package directory [env: EKSPRESSJS_APP_DIR]')
   .action(async (options) => {
     try {
+      activateAppDir(options);
+      activateProfile(options);
       await runDiagnostics(options);
     } catch (error: any) {
       console.error(chalk.red('\n❌ Diagnostics failed:'));
@@ -121,16 +205,242 @@ program
     }
   });
 
+program
+  .command('detect')
+  .description('Show the framework detected for this project, with confidence and evidence')
+  .option('--app-dir <path>', 'Monorepo package directory [env: EKSPRESSJS_APP_DIR]')
+  .action(async (options) => {
+    const appDir = activateAppDir(options);
+    const detection = detectFramework(appDir);
+    console.log(chalk.blue.bold('\n🔎 Framework detection\n'));
+    printFrameworkDetection(detection);
+    if (detection.best && detection.best.confidence < MIN_DETECTION_CONFIDENCE) {
+      console.log(chalk.yellow(`\n⚠️  Confidence is too low to use automatically; pass --framework`));
+    }
+    if (await fs.pathExists(path.join(appDir, 'Dockerfile'))) {
+      console.log(chalk.cyan('\n   A Dockerfile exists, so a deploy without --framework builds it as-is'));
+    }
+  });
+
+program
+  .command('validate')
+  .description('Validate ekspressjs.yaml and all of its profiles against the published schema')
+  .option('--config <path>', 'Project config file (default: ekspressjs.yaml)')
+  .option('--app-dir <path>', 'Monorepo package directory [env: EKSPRESSJS_APP_DIR]')
+  .action((options) => {
+    try {
+      activateAppDir(options);
+      const result = checkProjectConfig(options);
+      if (!result) {
+        console.log(chalk.yellow('⚠️  No ekspressjs.yaml found in the app directory'));
+        process.exit(1);
+      }
+      const profiles = result.profiles.length > 0 ? ` (profiles: ${result.profiles.join(', ')})` : '';
+      console.log(chalk.green(`✓ ${path.basename(result.path)} is valid${profiles}`));
+    } catch (error: any) {
+      console.error(chalk.red(`❌ ${error.message}`));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('migrate-secrets')
+  .description('Move plaintext secrets out of saved config files into the OS keychain or encrypted vault')
+  .option('--discard', 'Remove plaintext values without storing them (re-enter them on the next deploy)')
+  .option('--app-dir <path>', 'Monorepo package directory [env: EKSPRESSJS_APP_DIR]')
+  .action(async (options) => {
+    try {
+      console.log(chalk.blue.bold('\n🔐 EKSPressJS - Migrate Secrets\n'));
+      activateAppDir(options);
+
+      let total = 0;
+      for (const workspace of listWorkspaces()) {
+        const configPath = path.join(workspace.dir, CONFIG_FILE_NAME);
+        if (!(await fs.pathExists(configPath))) continue;
+
+        const label = path.relative(process.cwd(), configPath);
+        const count = await migrateConfigFileSecrets(configPath, workspace.profile, !!options.discard);
+        if (count > 0) {
+          console.log(chalk.green(`✓ ${label}: ${options.discard ? 'removed' : 'secured'} ${count} plaintext value(s)`));
+        } else {
+          console.log(chalk.gray(`  ${label}: no plaintext secrets`));
+        }
+        total += count;
+      }
+
+      if (total > 0) {
+        console.log(chalk.yellow('\n⚠️  Copies of the old files (git history, backups) still contain these values. Rotate them if they were shared.'));
+      } else {
+        console.log(chalk.green('\n✓ Nothing to migrate'));
+      }
+    } catch (error: any) {
+      console.error(chalk.red('\n❌ Migration failed:'));
+      console.error(chalk.red(error.message));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('history')
+  .description('Show the release history recorded by previous deployments')
+  .option('--env <profile>', 'Profile from ekspressjs.yaml [env: EKSPRESSJS_ENV]')
+  .option('--app-dir <path>', 'Monorepo package directory [env: EKSPRESSJS_APP_DIR]')
+  .action(async (options) => {
+    try {
+      activateAppDir(options);
+      activateProfile(options);
+      printReleaseHistory(loadReleaseHistory());
+    } catch (error: any) {
+      console.error(chalk.red('\n❌ Could not read release history:'));
+      console.error(chalk.red(error.message));
+      process.exit(1);
+    }
+  });
+
+program
+  .command('rollback')
+  .description('Re-apply the manifests of a previous release and wait for the rollout')
+  .option('--to <revision>', 'Revision to roll back to (defaults to the previous successful release)')
+  .option('-y, --yes', 'Skip the confirmation prompt')
+  .option('--env <profile>', 'Profile from ekspressjs.yaml [env: EKSPRESSJS_ENV]')
+  .option('--app-dir <path>', 'Monorepo package directory [env: EKSPRESSJS_APP_DIR]')
+  .action(async (options) => {
+    try {
+      console.log(chalk.blue.bold('\n⏪ EKSPressJS - Rollback\n'));
+      activateAppDir(options);
+      activateProfile(options);
+
+      const history = loadReleaseHistory();
+      if (history.length === 0) {
+        console.log(chalk.red('❌ No releases recorded yet. Nothing to roll back to.'));
+        process.exit(1);
+      }
+
+      let targetRevision: number | undefined;
+      if (options.to !== undefined) {
+        targetRevision = parseInt(options.to);
+        if (isNaN(targetRevision)) {
+          console.error(chalk.red(`❌ Invalid revision: ${options.to}`));
+          process.exit(1);
+        }
+      }
+
+      const target = targetRevision !== undefined
+        ? history.find(r => r.revision === targetRevision)
+        : findPreviousRelease(history);
+      if (!target) {
+        printReleaseHistory(history);
+        throw new Error(
+          targetRevision !== undefined
+            ? `Revision ${targetRevision} not found`
+            : 'No previous successful release to roll back to'
+        );
+      }
+
+      console.log(chalk.cyan('\n🔍 Checking prerequisites...\n'));
+      await checkPrerequisites();
+
+      if (!options.yes && process.stdin.isTTY) {
+        const answer = await inquirer.prompt([
+          {
+            type: 'confirm',
+            name: 'confirm',
+            message: `Roll back '${target.appName}' in namespace '${target.namespace}' to revision ${target.revision}${target.imageTag ? ` (${target.imageTag})` : ''}?`,
+            default: false,
+          },
+        ]);
+        if (!answer.confirm) {
+          console.log(chalk.yellow('Cancelled.'));
+          return;
+        }
+      }
+
+      // The Secret is rebuilt from the stored values
+      const savedConfig = await resolveConfigSecrets(await loadResolvedConfig(options) || {});
+      await useProfileCluster(savedConfig);
+      const record = await rollbackToRelease(
+        { ...savedConfig, appName: target.appName, namespace: target.namespace } as DeployConfig,
+        target.revision
+      );
+
+      console.log(chalk.green(`\n✅ Rolled back to revision ${target.revision} (recorded as revision ${record.revision})`));
+    } catch (error: any) {
+      console.error(chalk.red('\n❌ Rollback failed:'));
+      console.error(chalk.red(error.message));
+      if (error.stack) {
+        console.error(chalk.gray(error.stack));
+      }
+      process.exit(1);
+    }
+  });
+
+const exportCommand = program
+  .command('export')
+  .description('Export the generated app for use with other tooling');
+
+exportCommand
+  .command('helm')
+  .description('Write the app as a Helm chart (default: ekspressjs/helm/<app>/)')
+  .option('-f, --framework <type>', 'Framework type (defaults to app.framework from ekspressjs.yaml)')
+  .option('-o, --output <dir>', 'Chart directory')
+  .option('--config <path>', 'Project config file (default: ekspressjs.yaml)')
+  .option('--env <profile>', 'Profile from ekspressjs.yaml [env: EKSPRESSJS_ENV]')
+  .option('--app-dir <path>', 'Monorepo package directory [env: EKSPRESSJS_APP_DIR]')
+  .action(async (options) => {
+    try {
+      console.log(chalk.blue.bold('\n📦 EKSPressJS - Helm Export\n'));
+      activateAppDir(options);
+      activateProfile(options);
+
+      const projectConfig = loadProjectConfig(options);
+      const savedConfig = await loadResolvedConfig(options);
+      if (!savedConfig?.appName || !savedConfig.port) {
+        throw new Error('No app config found. Deploy once or add ekspressjs.yaml first');
+      }
+
+      const chartDir = await exportHelmChart(
+        {
+          appType: options.framework || process.env.EKSPRESSJS_FRAMEWORK || projectConfig?.framework,
+          dockerfile: projectConfig?.dockerfile,
+          ...savedConfig,
+          replicas: savedConfig.replicas ?? 2,
+        } as DeployConfig,
+        options.output
+      );
+      const relativeChartDir = path.relative(process.cwd(), chartDir) || '.';
+      console.log(chalk.green(`✅ Helm chart written to ${relativeChartDir}`));
+      if (lintHelmChart(chartDir)) {
+        console.log(chalk.green('✅ helm lint passed'));
+      } else {
+        console.log(chalk.cyan(`   helm is not installed; check the chart with: helm lint ${relativeChartDir}`));
+      }
+    } catch (error: any) {
+      console.error(chalk.red('\n❌ Helm export failed:'));
+      console.error(chalk.red(error.message));
+      process.exit(1);
+    }
+  });
+
 program
   .command('delete')
   .description('Delete an existing deployment (and related service/ingress/HPA)')
   .option('-n, --namespace <ns>', 'Kubernetes namespace (optional, will prompt if not provided)')
+  .option('--app <name>', 'App to delete (defaults to the configured app name with --ci)')
+  .option('--env <profile>', 'Profile from ekspressjs.yaml [env: EKSPRESSJS_ENV]')
+  .option('--app-dir <path>', 'Monorepo package directory [env: EKSPRESSJS_APP_DIR]')
+  .option('--ci', 'Never prompt: delete the app and namespace given by flags or config without confirmation [env: EKSPRESSJS_CI]')
+  .option('-y, --yes', 'Alias for --ci')
   .action(async (options) => {
     try {
       console.log(chalk.blue.bold('\n🧹 EKSPressJS - Delete Deployment\n'));
+      activateAppDir(options);
+      activateProfile(options);
+      const savedConfig = await loadResolvedConfig(options);
+      const nonInteractive = isNonInteractive(options);
 
       console.log(chalk.cyan('\n🔍 Checking prerequisites...\n'));
-      await checkPrerequisites();
+      await checkPrerequisites(nonInteractive);
+      await useProfileCluster(savedConfig);
 
       // Step 1: Fetch all namespaces
       let namespaces: string[] = [];
@@ -158,8 +468,11 @@ program
         return;
       }
 
-      // Step 2: Let user select namespace (or use provided one)
-      let namespace = options.namespace;
+      // Step 2: Let user select namespace (or use provided one / the profile's)
+      let namespace = options.namespace || (getActiveProfile() || nonInteractive ? savedConfig?.namespace : undefined);
+      if (!namespace && nonInteractive) {
+        throw new Error('No namespace to delete from: pass --namespace or set cluster.namespace in ekspressjs.yaml');
+      }
       if (!namespace) {
         const nsAnswer = await inquirer.prompt([
           {
@@ -193,7 +506,8 @@ program
       // Step 3: Fetch deployments in selected namespace
       console.log(chalk.cyan(`\n📋 Fetching deployments in namespace '${namespace}'...`));
 
-      let deployments: string[] = [];
+      // Deployments and CronJobs by app: its own Deployment, its components, workers and cron jobs
+      const appWorkloads = new Map<string, { kind: 'deployment' | 'cronjob'; name: string }[]>();
       try {
         // Quick auth check to fail fast with clearer message
         try {
@@ -218,12 +532,20 @@ program
         }
 
         const output = execSync(
-          `kubectl get deployments -n ${namespace} -o json`,
+          `kubectl get deployments,cronjobs -n ${namespace} -o json`,
           { encoding: 'utf-8', stdio: 'pipe' }
         );
         const parsed = JSON.parse(output);
-        deployments =
-          parsed.items?.map((d: any) => d.metadata?.name).filter(Boolean) || [];
+        for (const item of parsed.items || []) {
+          const name = item.metadata?.name;
+          const partOf = item.metadata?.labels?.['app.kubernetes.io/part-of'];
+          if (!name) continue;
+          // An unlabelled CronJob was not created by ekspressjs
+          if (item.kind === 'CronJob' && !partOf) continue;
+          const app = partOf || name;
+          const kind = item.kind === 'CronJob' ? 'cronjob' : 'deployment';
+          appWorkloads.set(app, [...(appWorkloads.get(app) || []), { kind, name }]);
+        }
       } catch (e: any) {
         console.log(chalk.red('❌ Could not list deployments.'));
         if (e?.message) {
@@ -235,26 +557,39 @@ program
         throw e;
       }
 
-      if (deployments.length === 0) {
+      if (appWorkloads.size === 0) {
         console.log(
           chalk.yellow(`⚠️  No deployments found in namespace '${namespace}'.`)
         );
         return;
       }
 
-      // Step 4: Let user select deployment to delete
-      const answers = await inquirer.prompt([
+      // Step 4: Let user select deployment to delete; an app is deleted with its components and workloads
+      const appChoices = Array.from(appWorkloads.entries()).map(([app, workloads]) => ({
+        name: workloads.length === 1 && workloads[0].name === app ? app : `${app} (${workloads.map(workload => workload.name).join(', ')})`,
+        value: app,
+      }));
+      if (nonInteractive) {
+        const app = options.app || savedConfig?.appName;
+        if (!app || !appWorkloads.has(app)) {
+          throw new Error(app
+            ? `No deployment '${app}' in namespace '${namespace}' (found: ${Array.from(appWorkloads.keys()).join(', ')})`
+            : 'No app to delete: pass --app or set app.name in ekspressjs.yaml');
+        }
+      }
+      const answers = nonInteractive ? { deploy: options.app || savedConfig!.appName, confirm: true } : await inquirer.prompt([
         {
           type: 'list',
           name: 'deploy',
           message: 'Select deployment to delete:',
-          choices: [...deployments, new inquirer.Separator(), 'Cancel'],
+          choices: [...appChoices, new inquirer.Separator(), 'Cancel'],
+          default: savedConfig?.appName,
         },
         {
           type: 'confirm',
           name: 'confirm',
           message: (ans: any) =>
-            `Delete deployment '${ans.deploy}' and related resources (service/ingress/HPA)?`,
+            `Delete deployment '${ans.deploy}' and related resources (service/ingress/HPA/cronjobs/configmaps/secrets)?`,
           default: false,
           when: (ans: any) => ans.deploy !== 'Cancel',
         },
@@ -273,11 +608,28 @@ program
       );
 
       // Resources to delete
+      const workloads = appWorkloads.get(appName) || [{ kind: 'deployment', name: appName }];
       const resources = [
-        { type: 'deployment', name: appName },
-        { type: 'service', name: `${appName}-service` },
+        ...workloads.flatMap(workload => workload.kind === 'cronjob'
+          ? [{ type: 'cronjob', name: workload.name }]
+          : [
+            { type: 'deployment', name: workload.name },
+            { type: 'service', name: `${workload.name}-service` },
+            { type: 'hpa', name: `${workload.name}-hpa` },
+            { type: 'pdb', name: `${workload.name}-pdb` },
+          ]),
+        { type: 'job', name: `${appName}-pre-deploy` },
         { type: 'ingress', name: `${appName}-ingress` },
-        { type: 'hpa', name: `${appName}-hpa` },
+        // The app's Secrets and ConfigMaps, and the pre-deploy hook's copies
+        ...[appName, `${appName}-pre-deploy`].flatMap(name => [
+          { type: 'configmap', name: `${name}-config` },
+          { type: 'configmap', name: `${name}-config-files` },
+          { type: 'secret', name: `${name}-secrets` },
+          { type: 'secret', name: `${name}-ref-secrets` },
+          { type: 'externalsecret', name: `${name}-ref-secrets` },
+          { type: 'secretstore', name: `${name}-secretsmanager` },
+          { type: 'secretstore', name: `${name}-parameterstore` },
+        ]),
       ];
 
       // Create a simple spinner
@@ -335,7 +687,8 @@ program
               });
 
               kubectl.on('close', (code) => {
-                if (code === 0 || stderr.includes('not found')) {
+                // External Secrets CRDs are missing on clusters without the operator
+                if (code === 0 || stderr.includes('not found') || stderr.includes("doesn't have a resource type")) {
                   resolve();
                 } else {
                   reject(new Error(stderr || `Exit code: ${code}`));
@@ -485,7 +838,6 @@ program
       }
 
       // Optional: delete Cloudflare DNS record if config available
-      const savedConfig = loadSavedConfig();
       const hasCF =
         savedConfig &&
         savedConfig.domain &&
@@ -539,20 +891,26 @@ program
   .command('fix-dns')
   .description('Fix or recreate DNS record for existing deployment')
   .option('-n, --namespace <ns>', 'Kubernetes namespace (optional, will prompt if not provided)')
+  .option('--env <profile>', 'Profile from ekspressjs.yaml [env: EKSPRESSJS_ENV]')
+  .option('--app-dir <path>', 'Monorepo package directory [env: EKSPRESSJS_APP_DIR]')
   .action(async (options) => {
     try {
       console.log(chalk.blue.bold('\n🔧 EKSPressJS - Fix DNS Configuration\n'));
+      activateAppDir(options);
+      activateProfile(options);
 
       console.log(chalk.cyan('\n🔍 Checking prerequisites...\n'));
       await checkPrerequisites();
 
-      // Load saved config
-      const savedConfig = loadSavedConfig();
+      // Load saved config (with ekspressjs.yaml and the active profile applied) and the Cloudflare token
+      const resolvedConfig = await loadResolvedConfig(options);
+      const savedConfig = resolvedConfig && await resolveConfigSecrets(resolvedConfig);
       if (!savedConfig || !savedConfig.domain) {
         console.log(chalk.red('❌ No domain configuration found.'));
         console.log(chalk.yellow('   Please deploy first or configure domain manually.'));
         process.exit(1);
       }
+      await useProfileCluster(savedConfig);
 
       // Step 1: Fetch all namespaces
       let namespaces: string[] = [];
@@ -0,0 +1,135 @@
+import * as path from 'path';
+import { ComponentConfig, DeployConfig, EnvVar, HookConfig, WorkloadConfig } from './types';
+
+export function getComponentResourceName(appName: string, member: Pick<ComponentConfig | WorkloadConfig, 'name'>): string {
+  return `${appName}-${member.name}`;
+}
+
+/**
+ * Components in apply order: each one after the components it depends on,
+ * otherwise in declaration order. Throws on unknown dependencies and cycles.
+ */
+export function orderComponents(components: ComponentConfig[]): ComponentConfig[] {
+  const byName = new Map(components.map(component => [component.name, component]));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const ordered: ComponentConfig[] = [];
+
+  const visit = (component: ComponentConfig, chain: string[]) => {
+    const current = state.get(component.name);
+    if (current === 'done') {
+      return;
+    }
+    if (current === 'visiting') {
+      throw new Error(`Component dependency cycle: ${[...chain, component.name].join(' -> ')}`);
+    }
+    state.set(component.name, 'visiting');
+    for (const dependency of component.dependsOn || []) {
+      const target = byName.get(dependency);
+      if (!target) {
+        throw new Error(`Component ${component.name} depends on unknown component ${dependency}`);
+      }
+      visit(target, [...chain, component.name]);
+    }
+    state.set(component.name, 'done');
+    ordered.push(component);
+  };
+
+  components.forEach(component => visit(component, []));
+  return ordered;
+}
+
+function mergeEnvVars(base: EnvVar[] = [], overrides: EnvVar[] = []): EnvVar[] {
+  return [...base.filter(envVar => !overrides.some(override => override.name === envVar.name)), ...overrides];
+}
+
+/**
+ * Config that deploys one component like a single app. Workload settings come
+ * from the component; namespace, secrets, ConfigMaps and domain stay with the
+ * app, and `partOf` points the generated manifests at the app's shared resources.
+ */
+export function getComponentConfig(config: DeployConfig, component: ComponentConfig): DeployConfig {
+  return {
+    ...config,
+    appName: getComponentResourceName(config.appName, component),
+    appType: component.appType,
+    dockerfile: component.dockerfile,
+    port: component.port,
+    replicas: component.replicas,
+    resources: component.resources || config.resources,
+    autoscaling: component.autoscaling,
+    availability: component.availability ? { ...config.availability, ...component.availability } : config.availability,
+    envVars: mergeEnvVars(config.envVars, component.envVars),
+    healthCheckPath: component.healthCheckPath,
+    probes: component.probes,
+    // Workspace directories like k8s/ and releases/ cannot clash with a component name
+    artifactDir: config.artifactDir ? path.join(config.artifactDir, 'components', component.name) : undefined,
+    buildContext: undefined,
+    components: undefined,
+    workloads: undefined,
+    hooks: undefined,
+    partOf: config.appName,
+  };
+}
+
+// Config of a process that runs the image of the app, or of the named component, under its own name;
+// label names the process in errors
+function getImageRunnerConfig(config: DeployConfig, name: string, label: string, componentName?: string): DeployConfig {
+  const component = componentName
+    ? config.components?.find(candidate => candidate.name === componentName)
+    : undefined;
+  if (componentName && !component) {
+    throw new Error(`${label} runs unknown component ${componentName}`);
+  }
+  const base = component ? getComponentConfig(config, component) : config;
+
+  return {
+    ...base,
+    appName: getComponentResourceName(config.appName, { name }),
+    imageName: base.imageName || base.appName,
+    autoscaling: undefined,
+    healthCheckPath: undefined,
+    probes: undefined,
+    components: undefined,
+    workloads: undefined,
+    hooks: undefined,
+    partOf: config.appName,
+  };
+}
+
+/**
+ * Config for a worker or cron job: that of the app, or of the component it
+ * names, running the same image under the workload's own name and settings.
+ */
+export function getWorkloadConfig(config: DeployConfig, workload: WorkloadConfig): DeployConfig {
+  const runner = getImageRunnerConfig(config, workload.name, `Workload ${workload.name}`, workload.component);
+  return {
+    ...runner,
+    replicas: workload.replicas ?? 1,
+    resources: workload.resources || runner.resources,
+    envVars: mergeEnvVars(runner.envVars, workload.envVars),
+    probes: workload.probes,
+  };
+}
+
+export const PRE_DEPLOY_HOOK_NAME = 'pre-deploy';
+
+// The pre-deploy Job runs as <app>-pre-deploy with the app's (or component's) image and a copy of its environment
+export function getPreDeployHookConfig(config: DeployConfig, hook: HookConfig): DeployConfig {
+  const runner = getImageRunnerConfig(config, PRE_DEPLOY_HOOK_NAME, 'The preDeploy hook', hook.component);
+  // The app's Secrets and ConfigMaps are only updated once the hook has succeeded
+  return { ...runner, envSourceName: runner.appName };
+}
+
+/**
+ * Names of the Deployments that make up the app, in apply order: the app or its
+ * components, then its workers.
+ */
+export function getDeploymentNames(config: Pick<DeployConfig, 'appName' | 'components' | 'workloads'>): string[] {
+  const services = config.components?.length
+    ? orderComponents(config.components).map(component => getComponentResourceName(config.appName, component))
+    : [config.appName];
+  const workers = (config.workloads || [])
+    .filter(workload => workload.kind === 'worker')
+    .map(workload => getComponentResourceName(config.appName, workload));
+  return [...services, ...workers];
+}
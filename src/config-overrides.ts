@@ -0,0 +1,379 @@
+import { Command } from 'commander';
+import * as fs from 'fs-extra';
+import { AWSConfig } from './prompts';
+import { Autoscaling, DomainConfig, EnvVar, ImageTagStrategy, Resources } from './types';
+import { detectAWSCredentials, parseEnvFile } from './utils';
+
+interface ConfigOption {
+  // Commander flag spec; omitted for values that must not appear in shell history
+  flag?: string;
+  description: string;
+  env: string;
+  // Commander attribute name the flag is stored under
+  attribute: string;
+  repeatable?: boolean;
+  defaultHint?: string;
+  apply: (config: Partial<AWSConfig>, value: string | string[]) => void;
+}
+
+function parseInteger(name: string, value: string): number {
+  const parsed = parseInt(value, 10);
+  if (isNaN(parsed) || String(parsed) !== value.trim()) {
+    throw new Error(`Invalid value for ${name}: "${value}" is not a number`);
+  }
+  return parsed;
+}
+
+function parseBoolean(name: string, value: string | boolean): boolean {
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  const normalized = value.trim().toLowerCase();
+  if (['true', '1', 'yes', 'on'].includes(normalized)) return true;
+  if (['false', '0', 'no', 'off'].includes(normalized)) return false;
+  throw new Error(`Invalid value for ${name}: "${value}" is not a boolean`);
+}
+
+// Env vars hold repeatable values one KEY=VALUE pair per line
+function toPairs(name: string, value: string | string[]): Record<string, string> {
+  const entries = Array.isArray(value) ? value : value.split('\n');
+  const result: Record<string, string> = {};
+  for (const entry of entries) {
+    if (!entry.trim()) continue;
+    const equalIndex = entry.indexOf('=');
+    if (equalIndex <= 0) {
+      throw new Error(`Invalid value for ${name}: "${entry}" must be KEY=VALUE`);
+    }
+    result[entry.substring(0, equalIndex).trim()] = entry.substring(equalIndex + 1);
+  }
+  return result;
+}
+
+function readEnvFile(name: string, filePath: string): Record<string, string> {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Invalid value for ${name}: file "${filePath}" not found`);
+  }
+  return parseEnvFile(fs.readFileSync(filePath, 'utf-8'));
+}
+
+function domainOf(config: Partial<AWSConfig>): DomainConfig {
+  if (!config.domain) {
+    config.domain = {} as DomainConfig;
+  }
+  return config.domain;
+}
+
+// Flags set single fields; buildNonInteractiveConfig fills in the rest
+function resourcesOf(config: Partial<AWSConfig>): Resources {
+  if (!config.resources) {
+    config.resources = { requests: {}, limits: {} } as Resources;
+  }
+  return config.resources;
+}
+
+function autoscalingOf(config: Partial<AWSConfig>): Autoscaling {
+  if (!config.autoscaling) {
+    config.autoscaling = {} as Autoscaling;
+  }
+  return config.autoscaling;
+}
+
+function addEnvVars(config: Partial<AWSConfig>, values: Record<string, string>): void {
+  const envVars: EnvVar[] = config.envVars || [];
+  for (const [name, value] of Object.entries(values)) {
+    const existing = envVars.find(envVar => envVar.name === name);
+    if (existing) {
+      existing.value = value;
+    } else {
+      envVars.push({ name, value });
+    }
+  }
+  config.envVars = envVars;
+}
+
+const CONFIG_OPTIONS: ConfigOption[] = [
+  // Basic
+  { flag: '--region <region>', attribute: 'region', env: 'EKSPRESSJS_REGION', description: 'AWS region',
+    apply: (c, v) => { c.region = String(v); } },
+  { flag: '--cluster <name>', attribute: 'cluster', env: 'EKSPRESSJS_CLUSTER', description: 'EKS cluster name',
+    apply: (c, v) => { c.clusterName = String(v); } },
+  { flag: '-n, --name <name>', attribute: 'name', env: 'EKSPRESSJS_APP_NAME', description: 'Application name',
+    apply: (c, v) => { c.appName = String(v); } },
+  { flag: '-p, --port <port>', attribute: 'port', env: 'EKSPRESSJS_PORT', description: 'Application port', defaultHint: '3000; 8000 for fastapi/django, 5000 for flask, 8080 for go/rust',
+    apply: (c, v) => { c.port = parseInteger('port', String(v)); } },
+  { flag: '-r, --replicas <count>', attribute: 'replicas', env: 'EKSPRESSJS_REPLICAS', description: 'Number of replicas', defaultHint: '2',
+    apply: (c, v) => { c.replicas = parseInteger('replicas', String(v)); } },
+  { flag: '--access-key-id <id>', attribute: 'accessKeyId', env: 'EKSPRESSJS_ACCESS_KEY_ID', description: 'AWS access key ID',
+    apply: (c, v) => { c.accessKeyId = String(v); } },
+  { attribute: 'secretAccessKey', env: 'EKSPRESSJS_SECRET_ACCESS_KEY', description: 'AWS secret access key',
+    apply: (c, v) => { c.secretAccessKey = String(v); } },
+  { flag: '--registry <uri>', attribute: 'registry', env: 'EKSPRESSJS_REGISTRY', description: 'Image registry (ECR URI or Docker Hub username)',
+    apply: (c, v) => { c.imageRegistry = String(v) || undefined; } },
+  { flag: '--namespace <ns>', attribute: 'namespace', env: 'EKSPRESSJS_NAMESPACE', description: 'Kubernetes namespace', defaultHint: 'default',
+    apply: (c, v) => { c.namespace = String(v); } },
+  { flag: '--ingress [enabled]', attribute: 'ingress', env: 'EKSPRESSJS_INGRESS', description: 'Enable ALB ingress (true/false)', defaultHint: 'true',
+    apply: (c, v) => { c.enableIngress = parseBoolean('ingress', v as string); } },
+  { flag: '--health-path <path>', attribute: 'healthPath', env: 'EKSPRESSJS_HEALTH_PATH', description: 'Health check path', defaultHint: '/; /health for fastapi/flask, /health/ for django',
+    apply: (c, v) => { c.healthCheckPath = String(v); } },
+  { flag: '--jvm-memory-flags [enabled]', attribute: 'jvmMemoryFlags', env: 'EKSPRESSJS_JVM_MEMORY_FLAGS', description: 'Java: size the heap from the memory limit (true/false)', defaultHint: 'false',
+    apply: (c, v) => { c.jvmMemoryFlags = parseBoolean('jvm-memory-flags', v as string); } },
+
+  // Domain
+  { flag: '--domain <domain>', attribute: 'domain', env: 'EKSPRESSJS_DOMAIN', description: 'Custom domain (e.g. example.com)',
+    apply: (c, v) => { domainOf(c).domain = String(v); } },
+  { flag: '--subdomain <subdomain>', attribute: 'subdomain', env: 'EKSPRESSJS_SUBDOMAIN', description: 'Subdomain',
+    apply: (c, v) => { domainOf(c).subdomain = String(v) || undefined; } },
+  { flag: '--ssl [enabled]', attribute: 'ssl', env: 'EKSPRESSJS_SSL', description: 'Enable SSL/TLS (true/false)', defaultHint: 'true',
+    apply: (c, v) => { domainOf(c).enableSSL = parseBoolean('ssl', v as string); } },
+  { flag: '--certificate-arn <arn>', attribute: 'certificateArn', env: 'EKSPRESSJS_CERTIFICATE_ARN', description: 'ACM certificate ARN',
+    apply: (c, v) => { domainOf(c).certificateARN = String(v) || undefined; } },
+  { attribute: 'cloudflareApiToken', env: 'EKSPRESSJS_CLOUDFLARE_API_TOKEN', description: 'Cloudflare API token',
+    apply: (c, v) => { domainOf(c).cloudflareApiToken = String(v); } },
+  { flag: '--cloudflare-zone-id <id>', attribute: 'cloudflareZoneId', env: 'EKSPRESSJS_CLOUDFLARE_ZONE_ID', description: 'Cloudflare zone ID',
+    apply: (c, v) => { domainOf(c).cloudflareZoneId = String(v); } },
+
+  // Resources
+  { flag: '--cpu-request <cpu>', attribute: 'cpuRequest', env: 'EKSPRESSJS_CPU_REQUEST', description: 'CPU request', defaultHint: '250m',
+    apply: (c, v) => { resourcesOf(c).requests.cpu = String(v); } },
+  { flag: '--memory-request <memory>', attribute: 'memoryRequest', env: 'EKSPRESSJS_MEMORY_REQUEST', description: 'Memory request', defaultHint: '256Mi',
+    apply: (c, v) => { resourcesOf(c).requests.memory = String(v); } },
+  { flag: '--cpu-limit <cpu>', attribute: 'cpuLimit', env: 'EKSPRESSJS_CPU_LIMIT', description: 'CPU limit', defaultHint: '500m',
+    apply: (c, v) => { resourcesOf(c).limits.cpu = String(v); } },
+  { flag: '--memory-limit <memory>', attribute: 'memoryLimit', env: 'EKSPRESSJS_MEMORY_LIMIT', description: 'Memory limit', defaultHint: '512Mi',
+    apply: (c, v) => { resourcesOf(c).limits.memory = String(v); } },
+
+  // Autoscaling
+  { flag: '--autoscale [enabled]', attribute: 'autoscale', env: 'EKSPRESSJS_AUTOSCALE', description: 'Enable Horizontal Pod Autoscaling (true/false)',
+    apply: (c, v) => { autoscalingOf(c).enabled = parseBoolean('autoscale', v as string); } },
+  { flag: '--min-replicas <count>', attribute: 'minReplicas', env: 'EKSPRESSJS_MIN_REPLICAS', description: 'HPA minimum replicas', defaultHint: '2',
+    apply: (c, v) => { autoscalingOf(c).minReplicas = parseInteger('min-replicas', String(v)); } },
+  { flag: '--max-replicas <count>', attribute: 'maxReplicas', env: 'EKSPRESSJS_MAX_REPLICAS', description: 'HPA maximum replicas', defaultHint: '10',
+    apply: (c, v) => { autoscalingOf(c).maxReplicas = parseInteger('max-replicas', String(v)); } },
+  { flag: '--target-cpu <percent>', attribute: 'targetCpu', env: 'EKSPRESSJS_TARGET_CPU', description: 'HPA target CPU utilization (%)',
+    apply: (c, v) => { autoscalingOf(c).targetCPU = parseInteger('target-cpu', String(v)); } },
+  { flag: '--target-memory <percent>', attribute: 'targetMemory', env: 'EKSPRESSJS_TARGET_MEMORY', description: 'HPA target memory utilization (%)',
+    apply: (c, v) => { autoscalingOf(c).targetMemory = parseInteger('target-memory', String(v)); } },
+
+  // Environment, secrets and config
+  { flag: '--env-var <KEY=VALUE>', attribute: 'envVar', env: 'EKSPRESSJS_ENV_VARS', description: 'Environment variable (repeatable)', repeatable: true,
+    apply: (c, v) => addEnvVars(c, toPairs('env-var', v)) },
+  { flag: '--env-file <path>', attribute: 'envFile', env: 'EKSPRESSJS_ENV_FILE', description: '.env file with plain environment variables',
+    apply: (c, v) => addEnvVars(c, readEnvFile('env-file', String(v))) },
+  { flag: '--secret <KEY=VALUE>', attribute: 'secret', env: 'EKSPRESSJS_SECRETS', description: 'Secret value (repeatable, prefer --secrets-file)', repeatable: true,
+    apply: (c, v) => { c.secrets = { ...(c.secrets || {}), ...toPairs('secret', v) }; } },
+  { flag: '--secrets-file <path>', attribute: 'secretsFile', env: 'EKSPRESSJS_SECRETS_FILE', description: '.env file whose values are stored as Kubernetes Secrets',
+    apply: (c, v) => { c.secrets = { ...(c.secrets || {}), ...readEnvFile('secrets-file', String(v)) }; } },
+  { flag: '--external-secrets [enabled]', attribute: 'externalSecrets', env: 'EKSPRESSJS_EXTERNAL_SECRETS', description: 'Sync secretsmanager:/ssm: references with External Secrets Operator instead of resolving them at deploy time (true/false)',
+    apply: (c, v) => { c.externalSecrets = { ...c.externalSecrets, enabled: parseBoolean('external-secrets', v as string) }; } },
+  { flag: '--config-map <KEY=VALUE>', attribute: 'configMap', env: 'EKSPRESSJS_CONFIG_MAPS', description: 'ConfigMap entry (repeatable)', repeatable: true,
+    apply: (c, v) => { c.configMaps = { ...(c.configMaps || {}), ...toPairs('config-map', v) }; } },
+
+  // Image tags
+  { flag: '--tag-strategy <strategy>', attribute: 'tagStrategy', env: 'EKSPRESSJS_TAG_STRATEGY', description: 'Image tag strategy: git-sha, timestamp, template',
+    apply: (c, v) => {
+      const strategy = String(v) as ImageTagStrategy;
+      if (!['git-sha', 'timestamp', 'template'].includes(strategy)) {
+        throw new Error(`Invalid value for tag-strategy: "${strategy}" (use git-sha, timestamp or template)`);
+      }
+      c.imageTagging = { ...(c.imageTagging || { strategy }), strategy };
+    } },
+  { flag: '--tag-template <template>', attribute: 'tagTemplate', env: 'EKSPRESSJS_TAG_TEMPLATE', description: 'Image tag template, e.g. {appName}-{gitSha}-{date}',
+    apply: (c, v) => { c.imageTagging = { ...(c.imageTagging || { strategy: 'template' }), template: String(v) }; } },
+  { flag: '--push-latest [enabled]', attribute: 'pushLatest', env: 'EKSPRESSJS_PUSH_LATEST', description: 'Also push a "latest" tag alias (true/false)',
+    apply: (c, v) => { c.imageTagging = { ...(c.imageTagging || { strategy: 'git-sha' }), pushLatest: parseBoolean('push-latest', v as string) }; } },
+
+  // Manifests
+  { flag: '--strict-validation [enabled]', attribute: 'strictValidation', env: 'EKSPRESSJS_STRICT_VALIDATION', description: 'Fail when the manifests cannot be validated because the Kubernetes version or its schema is unavailable (true/false)',
+    apply: (c, v) => { c.strictValidation = parseBoolean('strict-validation', v as string); } },
+
+  // GitOps
+  { flag: '--gitops <repo-path>', attribute: 'gitops', env: 'EKSPRESSJS_GITOPS', description: 'Commit the manifests to this git checkout for Argo CD/Flux instead of applying them',
+    apply: (c, v) => { c.gitops = { ...c.gitops, repoPath: String(v) }; } },
+];
+
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+export function registerConfigOptions(command: Command): Command {
+  for (const option of CONFIG_OPTIONS) {
+    if (!option.flag) continue;
+    const description = `${option.description} [env: ${option.env}]${option.defaultHint ? ` (default: ${option.defaultHint})` : ''}`;
+    if (option.repeatable) {
+      command.option(option.flag, description, collect, []);
+    } else {
+      command.option(option.flag, description);
+    }
+  }
+  command.option('--env <profile>', 'Profile from ekspressjs.yaml to deploy, e.g. staging [env: EKSPRESSJS_ENV]');
+  command.option('--app-dir <path>', 'Monorepo package to deploy, e.g. apps/web [env: EKSPRESSJS_APP_DIR]');
+  command.option('--config <path>', 'Project config file [env: EKSPRESSJS_CONFIG] (default: ekspressjs.yaml)');
+  command.option('--ci', 'Non-interactive mode: never prompt, fail with a list of missing values [env: EKSPRESSJS_CI]');
+  command.option('-y, --yes', 'Alias for --ci');
+  return command;
+}
+
+export function isNonInteractive(options: any): boolean {
+  if (options.ci || options.yes) {
+    return true;
+  }
+  const env = process.env.EKSPRESSJS_CI;
+  return !!env && parseBoolean('EKSPRESSJS_CI', env);
+}
+
+/**
+ * Collect config values from EKSPRESSJS_* environment variables and CLI flags.
+ * Flags take precedence over environment variables.
+ */
+export function resolveConfigOverrides(options: any): Partial<AWSConfig> {
+  const overrides: Partial<AWSConfig> = {};
+
+  for (const option of CONFIG_OPTIONS) {
+    const flagValue = options[option.attribute];
+    const hasFlag = option.repeatable ? Array.isArray(flagValue) && flagValue.length > 0 : flagValue !== undefined;
+    const envValue = process.env[option.env];
+
+    if (hasFlag) {
+      // Flags without an argument (e.g. --ingress) arrive as `true`
+      option.apply(overrides, flagValue === true ? 'true' : flagValue);
+    } else if (envValue !== undefined && envValue !== '') {
+      option.apply(overrides, envValue);
+    }
+  }
+
+  return overrides;
+}
+
+export function mergeConfig(base: Partial<AWSConfig>, overrides: Partial<AWSConfig>): Partial<AWSConfig> {
+  const merged: Partial<AWSConfig> = { ...base };
+
+  for (const key of Object.keys(overrides) as (keyof AWSConfig)[]) {
+    if (key === 'envVars' && overrides.envVars) {
+      const envVars: EnvVar[] = [...(merged.envVars || [])];
+      for (const envVar of overrides.envVars) {
+        const index = envVars.findIndex(existing => existing.name === envVar.name);
+        if (index >= 0) {
+          envVars[index] = envVar;
+        } else {
+          envVars.push(envVar);
+        }
+      }
+      merged.envVars = envVars;
+    } else if (key === 'resources' && overrides.resources && merged.resources) {
+      merged.resources = {
+        requests: { ...merged.resources.requests, ...overrides.resources.requests },
+        limits: { ...merged.resources.limits, ...overrides.resources.limits },
+      };
+    } else {
+      mergeSetting(merged, overrides, key);
+    }
+  }
+
+  return merged;
+}
+
+function isPlainObject(value: unknown): value is object {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Nested settings (domain, autoscaling, ...) are merged field by field, anything else replaced
+function mergeSetting<K extends keyof AWSConfig>(merged: Partial<AWSConfig>, overrides: Partial<AWSConfig>, key: K): void {
+  const value = overrides[key];
+  const current = merged[key];
+  if (value === undefined) {
+    return;
+  }
+  merged[key] = isPlainObject(value) && isPlainObject(current) ? Object.assign({}, current, value) : value;
+}
+
+function describeOption(attribute: string): string {
+  const option = CONFIG_OPTIONS.find(o => o.attribute === attribute);
+  if (!option) return attribute;
+  const flag = option.flag ? option.flag.split(' ').filter(part => part.startsWith('--'))[0].replace(/,$/, '') : null;
+  return flag ? `${flag} or ${option.env}` : option.env;
+}
+
+/**
+ * Build a complete config without prompting. Throws one error that lists every
+ * missing or invalid value so a pipeline can be fixed in a single pass.
+ */
+export function buildNonInteractiveConfig(
+  saved: Partial<AWSConfig> | null,
+  overrides: Partial<AWSConfig>,
+  defaults: { port: number; healthCheckPath: string } = { port: 3000, healthCheckPath: '/' },
+  // Plans render manifests only, so they need no AWS or Cloudflare credentials
+  requireCredentials = true
+): AWSConfig {
+  const merged = mergeConfig(saved || {}, overrides);
+  const problems: string[] = [];
+
+  if (!merged.accessKeyId || !merged.secretAccessKey) {
+    const detected = detectAWSCredentials();
+    merged.accessKeyId = merged.accessKeyId || detected?.accessKeyId;
+    merged.secretAccessKey = merged.secretAccessKey || detected?.secretAccessKey;
+    merged.region = merged.region || detected?.region;
+  }
+
+  if (!merged.region) problems.push(`region (${describeOption('region')})`);
+  if (!merged.clusterName) problems.push(`cluster name (${describeOption('cluster')})`);
+  if (!merged.appName) {
+    problems.push(`app name (${describeOption('name')})`);
+  } else if (!merged.appName.match(/^[a-z0-9-]+$/)) {
+    problems.push('app name must contain only lowercase letters, numbers, and hyphens');
+  }
+  if (requireCredentials && !merged.accessKeyId) problems.push(`AWS access key ID (${describeOption('accessKeyId')}, AWS_ACCESS_KEY_ID or AWS CLI config)`);
+  if (requireCredentials && !merged.secretAccessKey) problems.push(`AWS secret access key (${describeOption('secretAccessKey')}, AWS_SECRET_ACCESS_KEY or AWS CLI config)`);
+
+  const port = merged.port ?? defaults.port;
+  if (port <= 0 || port >= 65536) problems.push('port must be between 1 and 65535');
+  const replicas = merged.replicas ?? 2;
+  if (replicas <= 0) problems.push('replicas must be > 0');
+
+  if (merged.domain) {
+    const domain = merged.domain;
+    if (!domain.domain) problems.push(`domain (${describeOption('domain')})`);
+    if (requireCredentials && !domain.cloudflareApiToken) problems.push(`Cloudflare API token (${describeOption('cloudflareApiToken')})`);
+    if (!domain.cloudflareZoneId) problems.push(`Cloudflare zone ID (${describeOption('cloudflareZoneId')})`);
+    domain.enableSSL = domain.enableSSL !== undefined ? domain.enableSSL : true;
+  }
+
+  if (merged.resources) {
+    const { requests, limits } = merged.resources;
+    merged.resources = {
+      requests: { cpu: requests?.cpu || '250m', memory: requests?.memory || '256Mi' },
+      limits: { cpu: limits?.cpu || '500m', memory: limits?.memory || '512Mi' },
+    };
+  }
+
+  if (merged.autoscaling) {
+    const autoscaling = merged.autoscaling;
+    // Setting any HPA value without --autoscale=false turns autoscaling on
+    autoscaling.enabled = autoscaling.enabled !== undefined ? autoscaling.enabled : true;
+    autoscaling.minReplicas = autoscaling.minReplicas ?? 2;
+    autoscaling.maxReplicas = autoscaling.maxReplicas ?? 10;
+    if (autoscaling.enabled && autoscaling.maxReplicas < autoscaling.minReplicas) {
+      problems.push('autoscaling max replicas must be >= min replicas');
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(
+      `Missing or invalid configuration for non-interactive mode:\n` +
+      problems.map(problem => `  - ${problem}`).join('\n')
+    );
+  }
+
+  return {
+    ...merged,
+    region: merged.region!,
+    clusterName: merged.clusterName!,
+    appName: merged.appName!,
+    accessKeyId: merged.accessKeyId!,
+    secretAccessKey: merged.secretAccessKey!,
+    port,
+    replicas,
+    namespace: merged.namespace || 'default',
+    enableIngress: merged.enableIngress !== undefined ? merged.enableIngress : true,
+    healthCheckPath: merged.healthCheckPath || defaults.healthCheckPath,
+  };
+}
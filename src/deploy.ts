@@ -1,79 +1,392 @@
 import { execSync } from 'child_process';
 import * as fs from 'fs-extra';
+import * as os from 'os';
 import * as path from 'path';
 import chalk from 'chalk';
-import { DeployConfig } from './types';
 import { generateDockerfile } from './templates/dockerfile';
 import {
   generateDeploymentManifest,
+  generateCronJobManifest,
+  generatePreDeployJobManifest,
   generateServiceManifest,
   generateIngressManifest,
   generateAutoscalingManifest,
+  generateDisruptionBudgetManifest,
   generateSecretsManifest,
+  generateConfigMapManifest,
+  generateExternalSecretManifest,
+  serializeManifest,
 } from './templates/kubernetes';
+import { KubernetesObject } from './templates/kubernetes-types';
+import { validateManifests, ManifestFile } from './manifest-validation';
+import { writeKustomization } from './kustomize';
+import { checkGitOpsConfig, commitToGitOpsRepo, waitForGitOpsSync } from './gitops';
 import { configureAWS, buildAndPushImage, setupKubectl, applyManifests, setupDomain, waitForIngressAndSetupDNS, checkAndInstallALBController, checkAndEnsureNodes, setupECRImagePullSecret, checkAndFixImagePullError, checkAndFixALBIAMPermissions } from './aws-utils';
-import { checkPrerequisites, validateProjectStructure, createNextConfigIfNeeded } from './utils';
+import { checkPrerequisites, validateProjectStructure, createNextConfigIfNeeded, resolveImageTag, detectProjectBuildInfo, getFrameworkDefaults } from './utils';
 import { diagnoseDeploymentFailure } from './diagnose';
+import { recordRelease, updateReleaseStatus, loadReleaseHistory, findPreviousRelease, rollbackToRelease } from './releases';
+import { BuiltImage, ComponentConfig, DeployConfig, ReleaseRecord, WorkloadConfig } from './types';
+import { getWorkspaceDir, getAppDir } from './profiles';
+import { splitSecrets } from './secret-refs';
+import { orderComponents, getComponentConfig, getWorkloadConfig, getPreDeployHookConfig, getDeploymentNames } from './components';
 import axios from 'axios';
 
-export async function deployToEKS(config: DeployConfig): Promise<void> {
-  console.log(chalk.blue('\n📦 Starting deployment process...\n'));
+/**
+ * Write Dockerfile.dockerignore next to the generated Dockerfile. BuildKit reads it
+ * instead of the build context's .dockerignore, so that one is copied in, and the
+ * ekspressjs directory (saved config, vault, manifests and releases) is left out of
+ * the image that `COPY . .` builds.
+ */
+async function writeDockerIgnore(artifactsDir: string, buildContext: string): Promise<void> {
+  const contextIgnorePath = path.join(buildContext, '.dockerignore');
+  const contextIgnore = (await fs.pathExists(contextIgnorePath)) ? await fs.readFile(contextIgnorePath, 'utf-8') : '';
+  const workspaceRoot = path.relative(buildContext, path.join(getAppDir(), 'ekspressjs')).split(path.sep).join('/');
+  const lines = [contextIgnore.trimEnd()];
+  if (!workspaceRoot.startsWith('..')) {
+    lines.push('# Generated by ekspressjs: keep its config, vault and manifests out of the image', workspaceRoot);
+  }
+  await fs.writeFile(path.join(artifactsDir, 'Dockerfile.dockerignore'), lines.filter(Boolean).join('\n') + '\n');
+}
+
+export interface GeneratedArtifacts {
+  artifactsDir: string;
+  manifestsDir: string;
+  // Multi-service app: each component with the config it deploys with, in apply order
+  components: { component: ComponentConfig; config: DeployConfig }[];
+  // Workers and cron jobs with the config they deploy with
+  workloads: { workload: WorkloadConfig; config: DeployConfig }[];
+}
+
+export interface GenerateOptions {
+  // Render into a temporary directory and leave the project and the workspace untouched
+  dryRun?: boolean;
+}
 
-  // All generated artifacts will be placed under ./ekspressjs
-  const artifactsDir = path.join(process.cwd(), 'ekspressjs');
+/**
+ * Validate the project in sourceDir and write its generated Dockerfile into
+ * config.artifactDir, or check the custom Dockerfile that is built instead.
+ * A dry run does not add the standalone output to a Next.js config.
+ */
+async function prepareImageBuild(config: DeployConfig, sourceDir: string, label: string, dryRun = false): Promise<void> {
+  const artifactsDir = config.artifactDir!;
   await fs.ensureDir(artifactsDir);
-  const manifestsDir = path.join(artifactsDir, 'k8s');
-  config.artifactDir = artifactsDir;
-  console.log(chalk.cyan(`🗂  Using artifacts directory: ${artifactsDir}`));
 
-  validateProjectStructure(config.appType);
-  if (config.appType === 'next') {
-    await createNextConfigIfNeeded();
+  if (config.dockerfile) {
+    if (!(await fs.pathExists(config.dockerfile))) {
+      throw new Error(`Dockerfile not found: ${config.dockerfile}`);
+    }
+    console.log(chalk.yellow(`📝 ${label}: Using custom Dockerfile as-is: ${path.relative(process.cwd(), config.dockerfile)}`));
+    // A Dockerfile generated by an earlier run would only be misleading
+    await fs.remove(path.join(artifactsDir, 'Dockerfile'));
+    await fs.remove(path.join(artifactsDir, 'Dockerfile.dockerignore'));
+    const contextIgnorePath = path.join(config.buildContext || process.cwd(), '.dockerignore');
+    const contextIgnore = (await fs.pathExists(contextIgnorePath)) ? await fs.readFile(contextIgnorePath, 'utf-8') : '';
+    if (!contextIgnore.split('\n').some(line => /^\/?ekspressjs\/?(\*\*)?$/.test(line.trim()))) {
+      console.log(chalk.yellow('   ⚠️  Add ekspressjs to .dockerignore so the saved config and manifests are not copied into the image'));
+    }
+    return;
+  }
+  if (!config.appType) {
+    throw new Error('A framework type or a custom Dockerfile is required');
   }
 
-  console.log(chalk.yellow('📝 Step 1: Generating Dockerfile...'));
-  const dockerfile = generateDockerfile(config.appType, config.port);
+  validateProjectStructure(config.appType, sourceDir);
+  if (config.appType === 'next' && !dryRun) {
+    await createNextConfigIfNeeded(sourceDir);
+  }
+
+  console.log(chalk.yellow(`📝 ${label}: Generating Dockerfile...`));
+  const buildInfo = detectProjectBuildInfo({ appType: config.appType, appName: config.appName }, sourceDir);
+  config.buildContext = buildInfo.node?.workspace?.root || sourceDir;
+  const dockerfile = generateDockerfile(config.appType, config.port, buildInfo);
   await fs.writeFile(path.join(artifactsDir, 'Dockerfile'), dockerfile);
+  await writeDockerIgnore(artifactsDir, config.buildContext);
   console.log(chalk.green('✅ Dockerfile generated'));
+}
 
-  console.log(chalk.yellow('\n📝 Step 2: Generating Kubernetes manifests...'));
+// Component and workload manifests live in k8s/<name>/; drop those of removed ones
+async function removeStaleManifestDirs(manifestsDir: string, names: string[]): Promise<void> {
+  for (const entry of await fs.readdir(manifestsDir)) {
+    const entryPath = path.join(manifestsDir, entry);
+    if (!names.includes(entry) && (await fs.stat(entryPath)).isDirectory()) {
+      await fs.remove(entryPath);
+    }
+  }
+}
 
-  if (config.domain && config.domain.enableSSL) {
-    console.log(chalk.blue('   Setting up domain and SSL certificate...'));
-    const certificateARN = await setupDomain(config);
-    if (certificateARN && !config.domain.certificateARN) {
-      config.domain.certificateARN = certificateARN;
+// A file under k8s/ and its objects, or null for a file that this config does not produce
+interface PlannedManifest {
+  file: string;
+  objects: KubernetesObject[] | null;
+  // Validated with the rest but never written: the Secret is applied from memory
+  inMemory?: boolean;
+}
+
+function planServiceManifests(config: DeployConfig, dir: string): PlannedManifest[] {
+  const hasAutoscaling = !!config.autoscaling && config.autoscaling.enabled;
+  const disruptionBudget = generateDisruptionBudgetManifest(config);
+  return [
+    { file: path.join(dir, 'deployment.yaml'), objects: [generateDeploymentManifest(config, config.appType)] },
+    { file: path.join(dir, 'service.yaml'), objects: [generateServiceManifest(config, config.appType)] },
+    { file: path.join(dir, 'hpa.yaml'), objects: hasAutoscaling ? [generateAutoscalingManifest(config)!] : null },
+    { file: path.join(dir, 'pdb.yaml'), objects: disruptionBudget ? [disruptionBudget] : null },
+  ];
+}
+
+// A worker is a Deployment without a Service, a cron job a CronJob
+function planBackgroundManifests(config: DeployConfig, workload: WorkloadConfig): PlannedManifest[] {
+  const isCron = workload.kind === 'cron';
+  const disruptionBudget = isCron ? null : generateDisruptionBudgetManifest(config);
+  return [
+    { file: path.join(workload.name, 'deployment.yaml'), objects: isCron ? null : [generateDeploymentManifest(config, config.appType, workload)] },
+    { file: path.join(workload.name, 'cronjob.yaml'), objects: isCron ? [generateCronJobManifest(config, config.appType, workload)] : null },
+    { file: path.join(workload.name, 'pdb.yaml'), objects: disruptionBudget ? [disruptionBudget] : null },
+  ];
+}
+
+/**
+ * Every manifest file of the app, relative to k8s/. Referenced secrets are
+ * either synced in-cluster by External Secrets Operator or resolved at apply
+ * time; their values are never written here.
+ */
+function planManifests(
+  config: DeployConfig,
+  components: GeneratedArtifacts['components'],
+  workloads: GeneratedArtifacts['workloads']
+): PlannedManifest[] {
+  const manifests: PlannedManifest[] = [];
+
+  if (components.length > 0) {
+    for (const { component, config: componentConfig } of components) {
+      manifests.push(...planServiceManifests(componentConfig, component.name));
     }
+    // Left over from deploying the app as a single container
+    for (const file of ['deployment.yaml', 'service.yaml', 'hpa.yaml', 'pdb.yaml']) {
+      manifests.push({ file, objects: null });
+    }
+  } else {
+    manifests.push(...planServiceManifests(config, ''));
   }
 
-  const deploymentManifest = generateDeploymentManifest(config, config.appType);
-  const serviceManifest = generateServiceManifest(config, config.appType);
+  for (const { workload, config: workloadConfig } of workloads) {
+    manifests.push(...planBackgroundManifests(workloadConfig, workload));
+  }
 
-  await fs.ensureDir(manifestsDir);
+  // Not part of the release: a rollback must not run migrations again. The Job reads its own
+  // copies of the ConfigMaps and ExternalSecret, so it gets the new values before the app does
+  const preDeploy = config.hooks?.preDeploy;
+  const preDeployConfig = preDeploy ? getPreDeployHookConfig(config, preDeploy) : null;
+  const useExternalSecrets = !!config.externalSecrets?.enabled;
+  manifests.push({
+    file: 'pre-deploy-job.yaml',
+    objects: preDeploy && preDeployConfig
+      ? [
+        ...generateConfigMapManifest(preDeployConfig),
+        ...(useExternalSecrets ? generateExternalSecretManifest(preDeployConfig) : []),
+        generatePreDeployJobManifest(preDeployConfig, preDeployConfig.appType, preDeploy),
+      ]
+      : null,
+  });
+
+  const secrets = generateSecretsManifest(config);
+  const externalSecrets = useExternalSecrets ? generateExternalSecretManifest(config) : [];
+  const configMaps = generateConfigMapManifest(config);
+  manifests.push(
+    { file: 'secrets.yaml', objects: secrets ? [secrets] : null, inMemory: true },
+    { file: 'externalsecret.yaml', objects: externalSecrets.length > 0 ? externalSecrets : null },
+    { file: 'configmap.yaml', objects: configMaps.length > 0 ? configMaps : null },
+    { file: 'ingress.yaml', objects: config.enableIngress ? [generateIngressManifest(config)] : null },
+  );
+
+  return manifests;
+}
 
-  await fs.writeFile(path.join(manifestsDir, 'deployment.yaml'), deploymentManifest);
-  await fs.writeFile(path.join(manifestsDir, 'service.yaml'), serviceManifest);
+/**
+ * Validate all planned manifests, then write them. Nothing is written when
+ * one is invalid; files the config no longer produces, and in-memory ones
+ * written by earlier versions, are removed.
+ */
+async function writeManifests(config: DeployConfig, manifestsDir: string, manifests: PlannedManifest[]): Promise<void> {
+  await validateManifests(
+    config,
+    manifests.filter(manifest => manifest.objects).map(manifest => ({ file: manifest.file, objects: manifest.objects! }))
+  );
+
+  for (const { file, objects, inMemory } of manifests) {
+    const filePath = path.join(manifestsDir, file);
+    if (objects && !inMemory) {
+      await fs.ensureDir(path.dirname(filePath));
+      await fs.writeFile(filePath, serializeManifest(objects));
+    } else {
+      // Drop manifests left over from an earlier run with different settings
+      await fs.remove(filePath);
+    }
+  }
+}
 
-  if (config.secrets && Object.keys(config.secrets).length > 0) {
-    const secretsManifest = generateSecretsManifest(config);
-    await fs.writeFile(path.join(manifestsDir, 'secrets.yaml'), secretsManifest);
-    console.log(chalk.green('✅ Secrets manifest generated'));
+// Kustomize manages everything that is applied together; the pre-deploy Job runs before it and
+// the Secret is applied on its own, so its values are never written to the base or an overlay
+const KUSTOMIZE_EXCLUDED_FILES = ['pre-deploy-job.yaml', 'secrets.yaml'];
+
+function toKustomizeFiles(manifests: PlannedManifest[]): ManifestFile[] {
+  return manifests
+    .filter(manifest => manifest.objects && !KUSTOMIZE_EXCLUDED_FILES.includes(manifest.file))
+    .map(manifest => ({ file: manifest.file, objects: manifest.objects! }));
+}
+
+/**
+ * Write k8s/ and, with the kustomize format, the base (the top-level settings
+ * of ekspressjs.yaml with an unpinned image) and the overlay of the active profile. A dry run only
+ * writes k8s/, the kustomize directory is shared with real deploys.
+ */
+async function renderManifests(
+  config: DeployConfig,
+  manifestsDir: string,
+  components: GeneratedArtifacts['components'],
+  workloads: GeneratedArtifacts['workloads'],
+  dryRun = false
+): Promise<void> {
+  const manifests = planManifests(config, components, workloads);
+  await writeManifests(config, manifestsDir, manifests);
+  if (config.manifestFormat !== 'kustomize' || dryRun) {
+    return;
+  }
+
+  // Settings only profiles set stay unset, or at their defaults, so every profile shares this base.
+  // Only the app name is kept, since all the object names derive from it
+  const base = config.kustomizeBase || {};
+  const frameworkDefaults = getFrameworkDefaults(config.appType);
+  const baseConfig: DeployConfig = {
+    ...config,
+    ...base,
+    appName: base.appName ?? config.appName,
+    port: base.port ?? frameworkDefaults.port,
+    healthCheckPath: base.healthCheckPath ?? frameworkDefaults.healthCheckPath,
+    replicas: base.replicas ?? 2,
+    namespace: base.namespace ?? 'default',
+    enableIngress: base.enableIngress ?? true,
+    imageTag: 'latest',
+    images: undefined,
+  };
+  const baseComponents = baseConfig.components?.length
+    ? orderComponents(baseConfig.components).map(component => ({ component, config: getComponentConfig(baseConfig, component) }))
+    : [];
+  const baseWorkloads = (baseConfig.workloads || []).map(workload => ({ workload, config: getWorkloadConfig(baseConfig, workload) }));
+  const overlayDir = await writeKustomization(
+    toKustomizeFiles(planManifests(baseConfig, baseComponents, baseWorkloads)),
+    toKustomizeFiles(manifests)
+  );
+  console.log(chalk.green(`✅ Kustomize base and overlay written (${path.relative(process.cwd(), overlayDir)})`));
+}
+
+/**
+ * Render the Dockerfile and Kubernetes manifests into the workspace directory without
+ * touching AWS or the cluster. With dryRun they go to a temporary directory the caller
+ * removes, and nothing in the project is changed.
+ */
+export async function generateArtifacts(config: DeployConfig, options: GenerateOptions = {}): Promise<GeneratedArtifacts> {
+  // All generated artifacts will be placed under ./ekspressjs (or ./ekspressjs/envs/<profile>)
+  const appDir = getAppDir();
+  const artifactsDir = options.dryRun ? await fs.mkdtemp(path.join(os.tmpdir(), 'ekspressjs-plan-')) : getWorkspaceDir();
+  await fs.ensureDir(artifactsDir);
+  const manifestsDir = path.join(artifactsDir, 'k8s');
+  config.artifactDir = artifactsDir;
+  console.log(chalk.cyan(`🗂  Using artifacts directory: ${artifactsDir}`));
+
+  const components = config.components?.length ? orderComponents(config.components) : [];
+  const workloads = config.workloads || [];
+  if (config.manifestFormat === 'kustomize' && components.some(component => component.dependsOn?.length)) {
+    throw new Error('Component dependsOn cannot be used with the kustomize manifest format: kubectl apply -k applies every component at once');
+  }
+  if (config.enableIngress && components.length > 0 && !components.some(component => component.ingressPath)) {
+    throw new Error('Ingress is enabled but no component has an ingressPath');
+  }
+
+  config.imageTag = config.imageTag || resolveImageTag(config);
+  console.log(chalk.cyan(`🏷  Image tag: ${config.imageTag}`));
+
+  const componentConfigs = components.map(component => ({ component, config: getComponentConfig(config, component) }));
+  const workloadConfigs = workloads.map(workload => ({ workload, config: getWorkloadConfig(config, workload) }));
+  if (components.length > 0) {
+    console.log(chalk.yellow(`📝 Step 1: Preparing ${components.length} components (${components.map(c => c.name).join(', ')})...`));
+    for (const { component, config: componentConfig } of componentConfigs) {
+      await prepareImageBuild(componentConfig, component.path || appDir, component.name, options.dryRun);
+    }
+    await fs.remove(path.join(artifactsDir, 'Dockerfile'));
+    await fs.remove(path.join(artifactsDir, 'Dockerfile.dockerignore'));
+  } else {
+    await prepareImageBuild(config, appDir, 'Step 1', options.dryRun);
   }
 
-  if (config.autoscaling && config.autoscaling.enabled) {
-    const hpaManifest = generateAutoscalingManifest(config);
-    await fs.writeFile(path.join(manifestsDir, 'hpa.yaml'), hpaManifest);
-    console.log(chalk.green('✅ Autoscaling manifest generated'));
+  console.log(chalk.yellow('\n📝 Step 2: Generating Kubernetes manifests...'));
+
+  await fs.ensureDir(manifestsDir);
+  await removeStaleManifestDirs(manifestsDir, [...components, ...workloads].map(member => member.name));
+  await renderManifests(config, manifestsDir, componentConfigs, workloadConfigs, options.dryRun);
+
+  for (const { config: serviceConfig } of componentConfigs.length > 0 ? componentConfigs : [{ config }]) {
+    if (serviceConfig.autoscaling?.enabled) {
+      console.log(chalk.green(`✅ Autoscaling manifest generated${serviceConfig.partOf ? ` for ${serviceConfig.appName}` : ''}`));
+    }
+    if (generateDisruptionBudgetManifest(serviceConfig)) {
+      console.log(chalk.green(`✅ PodDisruptionBudget generated${serviceConfig.partOf ? ` for ${serviceConfig.appName}` : ''}, replicas spread over zones and nodes`));
+    }
+  }
+  for (const { workload, config: workloadConfig } of workloadConfigs) {
+    console.log(chalk.green(`✅ ${workload.kind === 'cron' ? 'CronJob' : 'Worker'} manifest generated for ${workloadConfig.appName}`));
+  }
+  if (config.hooks?.preDeploy) {
+    console.log(chalk.green(`✅ Pre-deploy Job generated: ${config.hooks.preDeploy.command.join(' ')}`));
   }
 
+  const { local: localSecrets, references } = splitSecrets(config);
+  if (Object.keys(localSecrets).length > 0) {
+    console.log(chalk.green('✅ Secrets manifest generated'));
+  }
+  const referenceCount = Object.keys(references).length;
+  if (referenceCount > 0 && config.externalSecrets?.enabled) {
+    console.log(chalk.green('✅ ExternalSecret manifest generated'));
+  } else if (referenceCount > 0) {
+    console.log(chalk.cyan(`   ${referenceCount} secret reference(s) will be resolved from AWS at apply time`));
+  }
+  if (config.configMaps && Object.keys(config.configMaps).length > 0) {
+    console.log(chalk.green('✅ ConfigMap manifest generated'));
+  }
   if (config.enableIngress) {
-    const ingressManifest = generateIngressManifest(config);
-    await fs.writeFile(path.join(manifestsDir, 'ingress.yaml'), ingressManifest);
     console.log(chalk.green('✅ Ingress manifest generated'));
   }
 
   console.log(chalk.green('✅ Kubernetes manifests generated'));
 
+  return { artifactsDir, manifestsDir, components: componentConfigs, workloads: workloadConfigs };
+}
+
+export async function deployToEKS(config: DeployConfig): Promise<void> {
+  console.log(chalk.blue('\n📦 Starting deployment process...\n'));
+
+  const gitops = !!config.gitops?.repoPath;
+  if (gitops) {
+    checkGitOpsConfig(config);
+    console.log(chalk.cyan(`📝 GitOps mode: manifests are committed to ${config.gitops!.repoPath} instead of applied\n`));
+  }
+
+  if (config.domain && config.domain.enableSSL) {
+    console.log(chalk.blue('🔒 Setting up domain and SSL certificate...'));
+    const certificateARN = await setupDomain(config);
+    if (certificateARN && !config.domain.certificateARN) {
+      config.domain.certificateARN = certificateARN;
+    }
+  }
+
+  const { manifestsDir, components, workloads } = await generateArtifacts(config);
+  // The Services to report: one per component, or the app itself
+  const services = components.length > 0 ? components.map(({ config: componentConfig }) => componentConfig) : [config];
+  // The Deployments to roll out: the services and the workers; cron jobs have nothing to roll out
+  const deployments = [
+    ...services,
+    ...workloads.filter(({ workload }) => workload.kind === 'worker').map(({ config: workerConfig }) => workerConfig),
+  ];
+
   console.log(chalk.yellow('\n🔐 Step 3: Configuring AWS credentials...'));
   await configureAWS(config);
   console.log(chalk.green('✅ AWS credentials configured'));
@@ -82,11 +395,14 @@ export async function deployToEKS(config: DeployConfig): Promise<void> {
   await setupKubectl(config);
   console.log(chalk.green('✅ kubectl configured'));
 
-  console.log(chalk.yellow('\n🔍 Step 4.1: Checking cluster nodes...'));
-  await checkAndEnsureNodes(config);
-  console.log(chalk.green('✅ Cluster nodes ready'));
+  // In GitOps mode the cluster's nodes and add-ons are not ours to change
+  if (!gitops) {
+    console.log(chalk.yellow('\n🔍 Step 4.1: Checking cluster nodes...'));
+    await checkAndEnsureNodes(config);
+    console.log(chalk.green('✅ Cluster nodes ready'));
+  }
 
-  if (config.enableIngress) {
+  if (config.enableIngress && !gitops) {
     console.log(chalk.yellow('\n🔧 Step 4.5: Checking ALB Controller...'));
     await checkAndInstallALBController(config);
     console.log(chalk.green('✅ ALB Controller ready'));
@@ -97,54 +413,111 @@ export async function deployToEKS(config: DeployConfig): Promise<void> {
     await checkAndFixALBIAMPermissions(config);
   }
 
-  console.log(chalk.yellow('\n🐳 Step 5: Building and pushing Docker image...'));
-  const imageUri = await buildAndPushImage(config);
-  console.log(chalk.green(`✅ Image built and pushed: ${imageUri}`));
+  let builtImage: BuiltImage | null = null;
+  // Pushed images by repository name; workloads and the hook run them too
+  const pushedImages: Record<string, string> = {};
+  if (components.length > 0) {
+    console.log(chalk.yellow(`\n🐳 Step 5: Building and pushing ${components.length} Docker images in parallel...`));
+    const builtImages = await Promise.all(components.map(({ config: componentConfig }) => buildAndPushImage(componentConfig)));
+    for (const [index, { component, config: componentConfig }] of components.entries()) {
+      const image = builtImages[index];
+      if (image) {
+        console.log(chalk.green(`✅ ${component.name}: ${image.repository}:${image.tag}`));
+        pushedImages[componentConfig.appName] = image.uri;
+      }
+    }
+  } else {
+    console.log(chalk.yellow('\n🐳 Step 5: Building and pushing Docker image...'));
+    builtImage = await buildAndPushImage(config);
 
-  if (imageUri) {
-    const updatedDeployment = deploymentManifest.replace(
-      /image: .*/,
-      `image: ${imageUri}`
-    );
-    await fs.writeFile(path.join(manifestsDir, 'deployment.yaml'), updatedDeployment);
+    if (builtImage) {
+      console.log(chalk.green(`✅ Image built and pushed: ${builtImage.repository}:${builtImage.tag}`));
+      if (builtImage.digest) {
+        console.log(chalk.gray(`   Digest: ${builtImage.digest}`));
+      }
+      pushedImages[config.appName] = builtImage.uri;
+    }
+  }
+  if (Object.keys(pushedImages).length > 0) {
+    // Render the manifests again with the exact images that were pushed
+    for (const target of [config, ...components.map(({ config: componentConfig }) => componentConfig), ...workloads.map(({ config: workloadConfig }) => workloadConfig)]) {
+      target.images = pushedImages;
+    }
+    await renderManifests(config, manifestsDir, components, workloads);
   }
 
   // Setup ECR ImagePullSecret if using ECR
-  if (config.imageRegistry && config.imageRegistry.includes('amazonaws.com')) {
+  if (config.imageRegistry && config.imageRegistry.includes('amazonaws.com') && !gitops) {
     console.log(chalk.yellow('\n🔐 Step 5.5: Setting up ECR ImagePullSecret...'));
     await setupECRImagePullSecret(config);
     console.log(chalk.green('✅ ECR ImagePullSecret configured'));
   }
 
-  console.log(chalk.yellow('\n☸️  Step 6: Deploying to EKS cluster...'));
-  await applyManifests(config, manifestsDir);
-  console.log(chalk.green('✅ Deployment applied to cluster'));
+  if (gitops) {
+    console.log(chalk.yellow('\n📝 Step 6: Committing manifests to the GitOps repository...'));
+    const commit = await commitToGitOpsRepo(config, manifestsDir, builtImage);
+    if (commit.changed) {
+      console.log(chalk.green(`✅ Committed ${commit.sha.substring(0, 7)} (${commit.sourcePath})`));
+    } else {
+      console.log(chalk.yellow(`⚠️  Manifests unchanged since ${commit.sha.substring(0, 7)}, nothing committed`));
+    }
+    console.log(chalk.yellow('\n🔄 Step 6.5: Waiting for the cluster to sync...'));
+    await waitForGitOpsSync(config, commit, deployments);
+    console.log(chalk.green('✅ Cluster synced'));
+  } else {
+    console.log(chalk.yellow('\n☸️  Step 6: Deploying to EKS cluster...'));
+    await applyManifests(config, manifestsDir);
+    console.log(chalk.green('✅ Deployment applied to cluster'));
+  }
+
+  // Components share the tag; their images are read back from the manifests
+  const release = await recordRelease(config, manifestsDir, components.length > 0 ? { tag: config.imageTag } : builtImage);
+  console.log(chalk.gray(`   Release revision: ${release.revision}`));
 
   console.log(chalk.yellow('\n⏳ Step 7: Waiting for deployment to be ready...'));
   try {
-    execSync(
-      `kubectl rollout status deployment/${config.appName} -n ${config.namespace || 'default'} --timeout=300s`,
-      { stdio: 'inherit' }
-    );
+    for (const deployment of deployments) {
+      execSync(
+        `kubectl rollout status deployment/${deployment.appName} -n ${config.namespace || 'default'} --timeout=300s`,
+        { stdio: 'inherit' }
+      );
+    }
     console.log(chalk.green('✅ Deployment is ready!'));
+    updateReleaseStatus(release.revision, 'deployed');
   } catch (error: any) {
-    console.log(chalk.yellow('\n⚠️  Deployment not ready yet. Checking for image pull errors...'));
-    
-    // Check and try to fix ImagePullBackOff errors
-    await checkAndFixImagePullError(config);
+    if (gitops) {
+      // The cluster only changes through the repository, so nothing is fixed in place
+      console.log(chalk.yellow('\n⚠️  Deployment not ready yet. Waiting a little longer...'));
+    } else {
+      console.log(chalk.yellow('\n⚠️  Deployment not ready yet. Checking for image pull errors...'));
+
+      // Check and try to fix ImagePullBackOff errors
+      for (const deployment of deployments) {
+        await checkAndFixImagePullError(deployment);
+      }
+    }
     
     // Wait a bit and check again
     await new Promise(resolve => setTimeout(resolve, 10000));
     
     try {
-      execSync(
-        `kubectl rollout status deployment/${config.appName} -n ${config.namespace || 'default'} --timeout=120s`,
-        { stdio: 'inherit' }
-      );
-      console.log(chalk.green('✅ Deployment is ready after fix!'));
+      for (const deployment of deployments) {
+        execSync(
+          `kubectl rollout status deployment/${deployment.appName} -n ${config.namespace || 'default'} --timeout=120s`,
+          { stdio: 'inherit' }
+        );
+      }
+      console.log(chalk.green(gitops ? '✅ Deployment is ready!' : '✅ Deployment is ready after fix!'));
+      updateReleaseStatus(release.revision, 'deployed');
     } catch (retryError: any) {
+      updateReleaseStatus(release.revision, 'failed');
       console.log(chalk.red('\n❌ Deployment failed or timed out. Running diagnostics...'));
-      await diagnoseDeploymentFailure(config);
+      for (const deployment of deployments) {
+        await diagnoseDeploymentFailure(deployment);
+      }
+      if (config.autoRollback) {
+        await autoRollback(config, release, 'rollout did not complete');
+      }
       throw retryError;
     }
   }
@@ -160,15 +533,17 @@ export async function deployToEKS(config: DeployConfig): Promise<void> {
 
   console.log(chalk.yellow('\n📊 Step 8: Getting service information...'));
   try {
-    const serviceInfo = execSync(
-      `kubectl get service ${config.appName}-service -n ${config.namespace || 'default'} -o json`,
-      { encoding: 'utf-8' }
-    );
-    const service = JSON.parse(serviceInfo);
     console.log(chalk.cyan('\n📋 Service Details:'));
-    console.log(chalk.white(`   Name: ${service.metadata.name}`));
-    console.log(chalk.white(`   Namespace: ${service.metadata.namespace}`));
-    console.log(chalk.white(`   Type: ${service.spec.type}`));
+    for (const serviceConfig of services) {
+      const serviceInfo = execSync(
+        `kubectl get service ${serviceConfig.appName}-service -n ${config.namespace || 'default'} -o json`,
+        { encoding: 'utf-8' }
+      );
+      const service = JSON.parse(serviceInfo);
+      console.log(chalk.white(`   Name: ${service.metadata.name}`));
+      console.log(chalk.white(`   Namespace: ${service.metadata.namespace}`));
+      console.log(chalk.white(`   Type: ${service.spec.type}`));
+    }
 
     if (config.enableIngress) {
       try {
@@ -213,10 +588,15 @@ export async function deployToEKS(config: DeployConfig): Promise<void> {
     console.log(chalk.yellow('⚠️  Could not retrieve service information'));
   }
 
-  console.log(chalk.green.bold('\n🎉 Deployment completed successfully!'));
-
+  // Only an app behind the ALB is health checked; otherwise the rollout is the last check
+  let healthy = true;
   if (config.enableIngress && albDNS) {
-    const healthPath = config.healthCheckPath || '/';
+    // A multi-service app is checked through the component at the shortest path, usually "/"
+    const publicComponent = components
+      .map(({ component }) => component)
+      .filter(component => component.ingressPath)
+      .sort((a, b) => a.ingressPath!.length - b.ingressPath!.length)[0];
+    const healthPath = (publicComponent ? publicComponent.healthCheckPath : config.healthCheckPath) || '/';
     
     // Check if HTTPS listener exists in ingress
     let protocol = 'http';
@@ -249,13 +629,19 @@ export async function deployToEKS(config: DeployConfig): Promise<void> {
       console.log(chalk.gray(`   DNS is configured and pointing to ALB: ${albDNS}`));
 
       console.log(chalk.blue('\n🔍 Checking application health...'));
-      await checkAppHealth(`${protocol}://${hostname}${healthPath}`, 20);
+      healthy = await checkAppHealth(`${protocol}://${hostname}${healthPath}`, 20);
     } else {
       console.log(chalk.cyan.bold(`\n🌍 Your application is accessible via ALB: ${protocol}://${albDNS}`));
       console.log(chalk.yellow('   ⚠️  No custom domain configured. Using ALB DNS directly.'));
 
       console.log(chalk.blue('\n🔍 Checking application health...'));
-      await checkAppHealth(`${protocol}://${albDNS}${healthPath}`, 20);
+      healthy = await checkAppHealth(`${protocol}://${albDNS}${healthPath}`, 20);
+    }
+
+    if (!healthy && config.autoRollback) {
+      updateReleaseStatus(release.revision, 'failed');
+      await autoRollback(config, release, 'health check never returned 2xx/3xx');
+      throw new Error(`Health check failed for revision ${release.revision}, deployment was rolled back`);
     }
   } else if (config.enableIngress && !albDNS) {
     if (config.domain) {
@@ -269,14 +655,77 @@ export async function deployToEKS(config: DeployConfig): Promise<void> {
     }
   } else {
     console.log(chalk.cyan('\n📋 Service Information:'));
-    console.log(chalk.white(`   Service: ${config.appName}-service`));
+    for (const service of services) {
+      console.log(chalk.white(`   Service: ${service.appName}-service`));
+    }
     console.log(chalk.white(`   Namespace: ${config.namespace || 'default'}`));
     console.log(chalk.yellow('   ⚠️  Ingress not enabled. Access via port-forward:'));
-    console.log(chalk.cyan(`   kubectl port-forward svc/${config.appName}-service ${config.port}:${config.port} -n ${config.namespace || 'default'}`));
+    for (const service of services) {
+      console.log(chalk.cyan(`   kubectl port-forward svc/${service.appName}-service ${service.port}:${service.port} -n ${config.namespace || 'default'}`));
+    }
+  }
+
+  if (healthy) {
+    console.log(chalk.green.bold('\n🎉 Deployment completed successfully!'));
+  } else {
+    console.log(chalk.yellow.bold(`\n⚠️  Revision ${release.revision} is rolled out, but the application did not pass the health check`));
+    console.log(chalk.cyan('   Use --auto-rollback to roll back automatically when this happens'));
+  }
+}
+
+async function autoRollback(config: DeployConfig, failedRelease: ReleaseRecord, reason: string): Promise<void> {
+  const namespace = config.namespace || 'default';
+  console.log(chalk.yellow(`\n⏪ Auto-rollback: ${reason}`));
+
+  if (config.gitops?.repoPath) {
+    // The GitOps tooling would undo anything applied here
+    console.log(chalk.yellow(`   GitOps mode: revert the deploy commit in ${config.gitops.repoPath} to roll back`));
+    return;
+  }
+
+  const previous = findPreviousRelease(loadReleaseHistory());
+  if (!previous) {
+    // Nothing recorded to restore, fall back to the Deployment's own revision history
+    console.log(chalk.yellow('   No previous release recorded, undoing the Deployment rollout only'));
+    for (const deployment of getDeploymentNames(config)) {
+      try {
+        execSync(`kubectl rollout undo deployment/${deployment} -n ${namespace}`, { stdio: 'inherit' });
+        execSync(
+          `kubectl rollout status deployment/${deployment} -n ${namespace} --timeout=300s`,
+          { stdio: 'inherit' }
+        );
+        console.log(chalk.green(`   ✓ Deployment ${deployment} reverted to its previous ReplicaSet`));
+      } catch (error: any) {
+        console.log(chalk.red(`   ✗ Could not undo rollout: ${error.message}`));
+        console.log(chalk.cyan(`   Try manually: kubectl rollout undo deployment/${deployment} -n ${namespace}`));
+      }
+    }
+    console.log(chalk.yellow('   ⚠️  Ingress, HPA and Secret were not restored (no earlier release to restore from)'));
+    return;
+  }
+
+  try {
+    const record = await rollbackToRelease(config, previous.revision);
+    const removed = failedRelease.manifests.filter(file => !previous.manifests.includes(file));
+
+    console.log(chalk.green(`\n✅ Rolled back revision ${failedRelease.revision} to revision ${previous.revision} (recorded as revision ${record.revision})`));
+    console.log(chalk.cyan('\n📋 Reverted:'));
+    if (failedRelease.image !== previous.image) {
+      console.log(chalk.white(`   Image: ${failedRelease.imageTag || failedRelease.image || '-'} → ${previous.imageTag || previous.image || '-'}`));
+    }
+    for (const file of previous.manifests) {
+      console.log(chalk.white(`   Restored: ${file}`));
+    }
+    for (const file of removed) {
+      console.log(chalk.white(`   Removed:  ${file}`));
+    }
+  } catch (error: any) {
+    console.log(chalk.red(`   ✗ Auto-rollback failed: ${error.message}`));
+    console.log(chalk.cyan(`   Try manually: npx ekspressjs rollback --to ${previous.revision}`));
   }
 }
 
-async function checkAppHealth(url: string, maxRetries: number = 10): Promise<void> {
+async function checkAppHealth(url: string, maxRetries: number = 10): Promise<boolean> {
   for (let i = 0; i < maxRetries; i++) {
     try {
       const response = await axios.get(url, {
@@ -287,9 +736,12 @@ async function checkAppHealth(url: string, maxRetries: number = 10): Promise<voi
       if (response.status >= 200 && response.status < 400) {
         console.log(chalk.green(`   ✓ Application is responding (HTTP ${response.status})`));
         console.log(chalk.gray(`   URL: ${url}`));
-        return;
+        return true;
       } else {
         console.log(chalk.yellow(`   ⚠️  Application returned HTTP ${response.status}`));
+        if (i < maxRetries - 1) {
+          await new Promise(resolve => setTimeout(resolve, 10000));
+        }
       }
     } catch (error: any) {
       if (i < maxRetries - 1) {
@@ -308,4 +760,6 @@ async function checkAppHealth(url: string, maxRetries: number = 10): Promise<voi
       }
     }
   }
+
+  return false;
 }
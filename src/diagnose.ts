@@ -1,7 +1,9 @@
 import { execSync } from 'child_process';
 import chalk from 'chalk';
 import { DeployConfig } from './types';
-import { loadSavedConfig } from './prompts';
+import { loadResolvedConfig } from './prompts';
+import { useProfileCluster } from './profiles';
+import { orderComponents, getComponentConfig, getWorkloadConfig } from './components';
 
 export async function checkSystemHealth(config: DeployConfig): Promise<void> {
     console.log(chalk.cyan('\n🏥 Checking System Health...'));
@@ -129,8 +131,8 @@ export async function diagnoseDeploymentFailure(config: DeployConfig): Promise<v
 export async function runDiagnostics(options: any): Promise<void> {
     let config: DeployConfig;
 
-    // Try to load saved config
-    const saved = loadSavedConfig();
+    // Try to load saved config (with ekspressjs.yaml and the active profile applied)
+    const saved = await loadResolvedConfig(options);
     if (saved && saved.appName) {
         config = saved as DeployConfig;
         console.log(chalk.green(`✓ Loaded config for app: ${config.appName}`));
@@ -145,9 +147,21 @@ export async function runDiagnostics(options: any): Promise<void> {
 
     console.log(chalk.blue.bold(`\n🕵️  Running Diagnostics for ${config.appName}...\n`));
 
+    await useProfileCluster(saved);
     await checkPermissions(config);
     await checkSystemHealth(config);
-    await diagnoseDeploymentFailure(config);
+    if (config.components?.length) {
+        for (const component of orderComponents(config.components)) {
+            console.log(chalk.cyan(`\n🧩 Component: ${component.name}`));
+            await diagnoseDeploymentFailure(getComponentConfig(config, component));
+        }
+    } else {
+        await diagnoseDeploymentFailure(config);
+    }
+    for (const workload of config.workloads || []) {
+        console.log(chalk.cyan(`\n⚙️  Workload: ${workload.name} (${workload.kind})`));
+        await diagnoseDeploymentFailure(getWorkloadConfig(config, workload));
+    }
 
     console.log(chalk.blue('\n💡 Recommendation:'));
     console.log(chalk.white('   If you see "Unauthorized" or networking errors, check your Node Group IAM Role.'));
@@ -0,0 +1,123 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import chalk from 'chalk';
+import { AppType } from './types';
+
+export interface FrameworkCandidate {
+  appType: AppType;
+  // 0-1, combined from every piece of evidence found for this framework
+  confidence: number;
+  evidence: string[];
+}
+
+export interface FrameworkDetection {
+  best: FrameworkCandidate | null;
+  // Every framework with some evidence, most likely first
+  candidates: FrameworkCandidate[];
+}
+
+// Below this the detection is reported but not used
+export const MIN_DETECTION_CONFIDENCE = 0.5;
+
+// Listed so frameworks that build on another one win ties (next over react, nuxt over vue)
+const PRIORITY: AppType[] = ['next', 'nuxt', 'nest', 'react', 'vue', 'java', 'go', 'rust', 'fastapi', 'django', 'flask'];
+
+function readPackageDependencies(projectDir: string): Record<string, string> | null {
+  const packageJsonPath = path.join(projectDir, 'package.json');
+  if (!fs.existsSync(packageJsonPath)) {
+    return null;
+  }
+  try {
+    const packageJson = fs.readJsonSync(packageJsonPath);
+    return { ...packageJson.devDependencies, ...packageJson.dependencies };
+  } catch (error) {
+    return null;
+  }
+}
+
+function readPythonDependencies(projectDir: string): { file: string; content: string }[] {
+  return ['requirements.txt', 'pyproject.toml', 'Pipfile']
+    .filter(file => fs.existsSync(path.join(projectDir, file)))
+    .map(file => ({ file, content: fs.readFileSync(path.join(projectDir, file), 'utf-8').toLowerCase() }));
+}
+
+/**
+ * Work out the framework from the project's manifests. Each piece of evidence
+ * carries a weight; weights for the same framework combine as independent
+ * signals, so more evidence means more confidence but never above 1.
+ */
+export function detectFramework(projectDir: string = process.cwd()): FrameworkDetection {
+  const found = new Map<AppType, { misses: number; evidence: string[] }>();
+  const exists = (file: string) => fs.existsSync(path.join(projectDir, file));
+  const addEvidence = (appType: AppType, weight: number, evidence: string) => {
+    const entry = found.get(appType) || { misses: 1, evidence: [] };
+    entry.misses *= 1 - weight;
+    entry.evidence.push(evidence);
+    found.set(appType, entry);
+  };
+
+  const dependencies = readPackageDependencies(projectDir);
+  if (dependencies) {
+    const has = (name: string) => dependencies[name] !== undefined;
+
+    if (has('next')) addEvidence('next', 0.9, 'package.json depends on next');
+    if (['next.config.js', 'next.config.mjs', 'next.config.ts'].some(exists)) addEvidence('next', 0.5, 'next.config found');
+
+    if (has('nuxt') || has('nuxt3')) addEvidence('nuxt', 0.9, 'package.json depends on nuxt');
+    if (['nuxt.config.ts', 'nuxt.config.js'].some(exists)) addEvidence('nuxt', 0.5, 'nuxt.config found');
+
+    if (has('@nestjs/core')) addEvidence('nest', 0.9, 'package.json depends on @nestjs/core');
+    if (exists('nest-cli.json')) addEvidence('nest', 0.5, 'nest-cli.json found');
+
+    if (has('react-scripts')) addEvidence('react', 0.85, 'package.json depends on react-scripts');
+    if (has('react') && has('vite')) addEvidence('react', 0.8, 'package.json depends on react and vite');
+    else if (has('react')) addEvidence('react', 0.4, 'package.json depends on react');
+
+    if (has('vue') && (has('vite') || has('@vue/cli-service'))) {
+      addEvidence('vue', 0.8, `package.json depends on vue and ${has('vite') ? 'vite' : '@vue/cli-service'}`);
+    } else if (has('vue')) {
+      addEvidence('vue', 0.4, 'package.json depends on vue');
+    }
+  }
+
+  if (exists('pom.xml')) addEvidence('java', 0.9, 'pom.xml found');
+  if (exists('build.gradle') || exists('build.gradle.kts')) addEvidence('java', 0.85, 'build.gradle found');
+
+  if (exists('go.mod')) addEvidence('go', 0.95, 'go.mod found');
+  if (exists('Cargo.toml')) addEvidence('rust', 0.95, 'Cargo.toml found');
+
+  for (const { file, content } of readPythonDependencies(projectDir)) {
+    for (const appType of ['fastapi', 'django', 'flask'] as const) {
+      if (new RegExp(`(^|[\\s"',\\[])${appType}($|[\\s<>=~!\\[;"',])`, 'm').test(content)) {
+        addEvidence(appType, 0.85, `${file} lists ${appType}`);
+      }
+    }
+  }
+  if (exists('manage.py')) addEvidence('django', 0.5, 'manage.py found');
+
+  const candidates = [...found.entries()]
+    .map(([appType, { misses, evidence }]) => ({ appType, confidence: 1 - misses, evidence }))
+    .sort((a, b) => b.confidence - a.confidence || PRIORITY.indexOf(a.appType) - PRIORITY.indexOf(b.appType));
+
+  // A meta-framework's own evidence also matches the library it builds on; drop the library
+  const builtOn: Partial<Record<AppType, AppType>> = { next: 'react', nuxt: 'vue' };
+  const filtered = candidates.filter(candidate =>
+    !candidates.some(other => builtOn[other.appType] === candidate.appType)
+  );
+
+  return { best: filtered[0] || null, candidates: filtered };
+}
+
+export function printFrameworkDetection(detection: FrameworkDetection): void {
+  if (detection.candidates.length === 0) {
+    console.log(chalk.yellow('   No framework detected'));
+    return;
+  }
+  for (const candidate of detection.candidates) {
+    const marker = candidate === detection.best ? '→' : ' ';
+    console.log(chalk.cyan(`   ${marker} ${candidate.appType} (${Math.round(candidate.confidence * 100)}% confidence)`));
+    for (const evidence of candidate.evidence) {
+      console.log(chalk.gray(`       - ${evidence}`));
+    }
+  }
+}
@@ -0,0 +1,325 @@
+import { execSync } from 'child_process';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import chalk from 'chalk';
+import { DeployConfig, BuiltImage } from './types';
+import { getImageName, serializeManifest } from './templates/kubernetes';
+import { KubernetesObject } from './templates/kubernetes-types';
+import { splitSecrets } from './secret-refs';
+import { getActiveProfile } from './profiles';
+import { getKustomizeDir, getKustomizeOverlayDir } from './kustomize';
+
+const PRE_DEPLOY_JOB_FILE = 'pre-deploy-job.yaml';
+const DEFAULT_SYNC_TIMEOUT_SECONDS = 600;
+
+interface ArgoCDApplication extends KubernetesObject {
+  spec: {
+    project: string;
+    source: {
+      repoURL: string;
+      targetRevision: string;
+      path: string;
+      directory?: { recurse: boolean };
+    };
+    destination: { server: string; namespace: string };
+    syncPolicy: {
+      automated: { prune: boolean; selfHeal: boolean };
+      syncOptions: string[];
+    };
+  };
+}
+
+export interface GitOpsCommit {
+  sha: string;
+  // Directory in the repository the cluster syncs from
+  sourcePath: string;
+  // False when the manifests were already committed
+  changed: boolean;
+}
+
+function git(repoPath: string, args: string, input?: string): string {
+  return execSync(`git -C "${repoPath}" ${args}`, { encoding: 'utf-8', stdio: 'pipe', input }).trim();
+}
+
+function getRepoPath(config: DeployConfig): string {
+  return path.resolve(config.gitops!.repoPath!);
+}
+
+function getTargetPath(config: DeployConfig): string {
+  if (config.gitops?.path) {
+    return config.gitops.path.replace(/^\/+|\/+$/g, '');
+  }
+  // A kustomize base is shared, so every profile writes below the same directory
+  const profile = getActiveProfile();
+  return profile && config.manifestFormat !== 'kustomize' ? `${config.appName}/${profile}` : config.appName;
+}
+
+function getArgoCDApplicationName(config: DeployConfig): string {
+  const profile = getActiveProfile();
+  return config.gitops?.argocd?.name || (profile ? `${config.appName}-${profile}` : config.appName);
+}
+
+function isArgoCDEnabled(config: DeployConfig): boolean {
+  return !!config.gitops?.argocd && config.gitops.argocd.enabled !== false;
+}
+
+/**
+ * Fail before anything is built when the deploy cannot be done through git:
+ * the checkout must exist, and nothing may need a kubectl apply of its own.
+ */
+export function checkGitOpsConfig(config: DeployConfig): void {
+  const repoPath = getRepoPath(config);
+  try {
+    git(repoPath, 'rev-parse --show-toplevel');
+  } catch (error) {
+    throw new Error(`GitOps repository ${repoPath} is not a git checkout`);
+  }
+
+  const problems: string[] = [];
+  const { local, references } = splitSecrets(config);
+  if (Object.keys(local).length > 0) {
+    problems.push(`secret values (${Object.keys(local).join(', ')}) would be committed in plaintext; store them in AWS and reference them with secretsmanager:/ssm: and externalSecrets`);
+  }
+  if (Object.keys(references).length > 0 && !config.externalSecrets?.enabled) {
+    problems.push('secret references are resolved with kubectl at deploy time; enable externalSecrets to sync them in the cluster');
+  }
+  if (config.hooks?.preDeploy && !isArgoCDEnabled(config)) {
+    problems.push('hooks.preDeploy needs gitops.argocd, where it runs as a PreSync hook');
+  }
+  if (problems.length > 0) {
+    throw new Error(`GitOps mode cannot deploy this config:\n` + problems.map(problem => `  - ${problem}`).join('\n'));
+  }
+}
+
+// Argo CD runs the Job before syncing the rest, and recreates it on each sync; its
+// ConfigMaps and ExternalSecret are hooks too, created in an earlier wave
+async function readPreDeployHook(manifestsDir: string): Promise<KubernetesObject[]> {
+  const objects = yaml.loadAll(await fs.readFile(path.join(manifestsDir, PRE_DEPLOY_JOB_FILE), 'utf-8')) as KubernetesObject[];
+  for (const object of objects) {
+    object.metadata.annotations = {
+      ...object.metadata.annotations,
+      'argocd.argoproj.io/hook': 'PreSync',
+      'argocd.argoproj.io/hook-delete-policy': 'BeforeHookCreation',
+      ...(object.kind !== 'Job' ? { 'argocd.argoproj.io/sync-wave': '-1' } : {}),
+    };
+  }
+  return objects;
+}
+
+/**
+ * Replace the target directory with the rendered manifests: the k8s/ files,
+ * or the kustomize base and the active profile's overlay. Returns the
+ * directory the cluster syncs from, relative to the repository.
+ */
+async function writeTargetDir(config: DeployConfig, manifestsDir: string, targetDir: string, targetPath: string): Promise<string> {
+  const hook = config.hooks?.preDeploy ? await readPreDeployHook(manifestsDir) : null;
+
+  if (config.manifestFormat === 'kustomize') {
+    const overlayName = path.basename(getKustomizeOverlayDir());
+    const overlayDir = path.join(targetDir, 'overlays', overlayName);
+    await fs.remove(path.join(targetDir, 'base'));
+    await fs.copy(path.join(getKustomizeDir(), 'base'), path.join(targetDir, 'base'));
+    await fs.remove(overlayDir);
+    // The overlay refers to the base as ../../base, which holds in the repository too
+    await fs.copy(getKustomizeOverlayDir(), overlayDir);
+    if (hook) {
+      await fs.writeFile(path.join(overlayDir, PRE_DEPLOY_JOB_FILE), serializeManifest(hook));
+      const kustomizationPath = path.join(overlayDir, 'kustomization.yaml');
+      const kustomization = yaml.load(await fs.readFile(kustomizationPath, 'utf-8')) as { resources: string[] };
+      kustomization.resources.push(PRE_DEPLOY_JOB_FILE);
+      await fs.writeFile(kustomizationPath, yaml.dump(kustomization, { lineWidth: -1, quotingType: '"' }));
+    }
+    return `${targetPath}/overlays/${overlayName}`;
+  }
+
+  await fs.remove(targetDir);
+  await fs.copy(manifestsDir, targetDir, { filter: source => path.basename(source) !== PRE_DEPLOY_JOB_FILE });
+  if (hook) {
+    await fs.writeFile(path.join(targetDir, PRE_DEPLOY_JOB_FILE), serializeManifest(hook));
+  }
+  return targetPath;
+}
+
+function buildArgoCDApplication(config: DeployConfig, repoPath: string, sourcePath: string): ArgoCDApplication {
+  const argocd = config.gitops!.argocd!;
+  let repoURL = argocd.repoURL;
+  if (!repoURL) {
+    try {
+      repoURL = git(repoPath, 'remote get-url origin');
+    } catch (error) {
+      throw new Error('gitops.argocd.repoURL is not set and the GitOps repository has no origin remote');
+    }
+  }
+
+  return {
+    apiVersion: 'argoproj.io/v1alpha1',
+    kind: 'Application',
+    metadata: {
+      name: getArgoCDApplicationName(config),
+      namespace: argocd.namespace || 'argocd',
+    },
+    spec: {
+      project: argocd.project || 'default',
+      source: {
+        repoURL,
+        targetRevision: argocd.targetRevision || git(repoPath, 'rev-parse --abbrev-ref HEAD'),
+        path: sourcePath,
+        // Components and workloads are written to subdirectories
+        directory: config.manifestFormat === 'kustomize' ? undefined : { recurse: true },
+      },
+      destination: {
+        server: 'https://kubernetes.default.svc',
+        namespace: config.namespace || 'default',
+      },
+      syncPolicy: {
+        automated: { prune: true, selfHeal: true },
+        syncOptions: ['CreateNamespace=true'],
+      },
+    },
+  };
+}
+
+function buildCommitMessage(config: DeployConfig, builtImage: BuiltImage | null): string {
+  const profile = getActiveProfile();
+  const images = builtImage
+    ? [builtImage.digest ? `${builtImage.repository}:${builtImage.tag}@${builtImage.digest}` : builtImage.uri]
+    : Object.values(config.images || {});
+
+  return [
+    `Deploy ${config.appName}${profile ? ` (${profile})` : ''} ${config.imageTag || builtImage?.tag || 'latest'}`,
+    '',
+    ...images.map(image => `Image: ${image}`),
+    `Cluster: ${config.clusterName} (${config.region})`,
+    `Namespace: ${config.namespace || 'default'}`,
+    '',
+    'Generated by ekspressjs',
+  ].join('\n');
+}
+
+/**
+ * Write the rendered manifests into the GitOps checkout and commit them, with
+ * the pushed images and their digests in the message. The commit is pushed
+ * to the upstream branch unless gitops.push is false.
+ */
+export async function commitToGitOpsRepo(config: DeployConfig, manifestsDir: string, builtImage: BuiltImage | null): Promise<GitOpsCommit> {
+  const repoPath = getRepoPath(config);
+  const push = config.gitops!.push !== false;
+  const targetPath = getTargetPath(config);
+
+  if (push) {
+    // Start from the upstream state so the push fast-forwards
+    git(repoPath, 'pull --ff-only --quiet');
+  }
+
+  const sourcePath = await writeTargetDir(config, manifestsDir, path.join(repoPath, targetPath), targetPath);
+  const paths = [targetPath];
+  if (isArgoCDEnabled(config)) {
+    const applicationPath = `argocd/${getArgoCDApplicationName(config)}.yaml`;
+    await fs.ensureDir(path.join(repoPath, 'argocd'));
+    await fs.writeFile(path.join(repoPath, applicationPath), serializeManifest([buildArgoCDApplication(config, repoPath, sourcePath)]));
+    paths.push(applicationPath);
+  }
+
+  const pathspec = paths.map(file => `"${file}"`).join(' ');
+  git(repoPath, `add -A -- ${pathspec}`);
+  let changed = true;
+  try {
+    git(repoPath, `diff --cached --quiet -- ${pathspec}`);
+    changed = false;
+  } catch (error) {
+    // Exits non-zero when there are staged changes
+  }
+
+  if (changed) {
+    git(repoPath, `commit --quiet -F - -- ${pathspec}`, buildCommitMessage(config, builtImage));
+  }
+  const sha = git(repoPath, 'rev-parse HEAD');
+  if (push && changed) {
+    try {
+      git(repoPath, 'push --quiet');
+    } catch (error: any) {
+      throw new Error(`Committed ${sha.substring(0, 7)} but could not push it: ${error.stderr?.toString().trim() || error.message}`);
+    }
+  }
+
+  return { sha, sourcePath, changed };
+}
+
+function getDeploymentImage(name: string, namespace: string): string | null {
+  try {
+    return execSync(
+      `kubectl get deployment ${name} -n ${namespace} -o jsonpath='{.spec.template.spec.containers[0].image}'`,
+      { encoding: 'utf-8', stdio: 'pipe' }
+    ).trim();
+  } catch (error) {
+    return null;
+  }
+}
+
+// The Application's sync status; null until Argo CD knows it
+function getArgoCDSync(config: DeployConfig): { status?: string; revision?: string; phase?: string; message?: string } | null {
+  const argocd = config.gitops!.argocd!;
+  try {
+    const application = JSON.parse(execSync(
+      `kubectl get applications.argoproj.io ${getArgoCDApplicationName(config)} -n ${argocd.namespace || 'argocd'} -o json`,
+      { encoding: 'utf-8', stdio: 'pipe' }
+    ));
+    return {
+      status: application.status?.sync?.status,
+      revision: application.status?.sync?.revision,
+      phase: application.status?.operationState?.phase,
+      message: application.status?.operationState?.message,
+    };
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Poll the cluster until it runs what was committed: the Argo CD Application
+ * synced at the commit, when there is one, and every Deployment on its new
+ * image. The rollout itself is waited for by the caller.
+ */
+export async function waitForGitOpsSync(config: DeployConfig, commit: GitOpsCommit, deployments: DeployConfig[]): Promise<void> {
+  const namespace = config.namespace || 'default';
+  const timeoutSeconds = config.gitops?.syncTimeoutSeconds ?? DEFAULT_SYNC_TIMEOUT_SECONDS;
+  const deadline = Date.now() + timeoutSeconds * 1000;
+  const shortSha = commit.sha.substring(0, 7);
+  let reportedMissingApplication = false;
+
+  const waitFor = async (description: string, check: () => boolean): Promise<void> => {
+    while (!check()) {
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out after ${timeoutSeconds}s waiting for ${description}. Check the status of ${shortSha} in Argo CD or Flux`);
+      }
+      await new Promise(resolve => setTimeout(resolve, 10000));
+    }
+  };
+
+  if (isArgoCDEnabled(config)) {
+    const name = getArgoCDApplicationName(config);
+    console.log(chalk.blue(`   Waiting for Argo CD Application ${name} to sync ${shortSha}...`));
+    await waitFor(`Application ${name} to sync`, () => {
+      const sync = getArgoCDSync(config);
+      if (!sync) {
+        if (!reportedMissingApplication) {
+          console.log(chalk.yellow(`   ⚠️  Application ${name} not found. Register it once with: kubectl apply -f ${path.join(getRepoPath(config), 'argocd', `${name}.yaml`)}`));
+          reportedMissingApplication = true;
+        }
+        return false;
+      }
+      if (sync.revision === commit.sha && (sync.phase === 'Failed' || sync.phase === 'Error')) {
+        throw new Error(`Argo CD could not sync ${shortSha}: ${sync.message || sync.phase}`);
+      }
+      return sync.revision === commit.sha && sync.status === 'Synced';
+    });
+    console.log(chalk.green(`   ✓ Application ${name} synced`));
+  }
+
+  for (const deployment of deployments) {
+    const image = getImageName(deployment);
+    console.log(chalk.blue(`   Waiting for deployment/${deployment.appName} to run ${image}...`));
+    await waitFor(`deployment/${deployment.appName} to be updated`, () => getDeploymentImage(deployment.appName, namespace) === image);
+  }
+}
@@ -0,0 +1,299 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import chalk from 'chalk';
+import { execSync } from 'child_process';
+import { DeployConfig } from './types';
+import {
+  generateDeploymentManifest,
+  generateServiceManifest,
+  generateIngressManifest,
+  generateAutoscalingManifest,
+  generateDisruptionBudgetManifest,
+  generateSecretsManifest,
+  generateConfigMapManifest,
+  generateExternalSecretManifest,
+  serializeManifest,
+} from './templates/kubernetes';
+import { KubernetesObject } from './templates/kubernetes-types';
+import { splitSecrets, isExternalSecretRef, getReferencedSecretName } from './secret-refs';
+import { loadReleaseHistory } from './releases';
+import { resolveImageTag } from './utils';
+import { getWorkspaceDir } from './profiles';
+
+declare const placeholderBrand: unique symbol;
+
+/**
+ * A placeholder string typed as the field of type T it stands in for. Only
+ * render() can turn it into valid output, so it never leaves buildTemplates.
+ */
+type Placeholder<T> = T & { readonly [placeholderBrand]: true };
+
+/**
+ * Placeholders put into the generated objects and swapped for Helm template
+ * syntax after serialization, which js-yaml would otherwise quote.
+ */
+interface ChartPlaceholders {
+  // An inline expression such as `{{ .Values.port }}`
+  value<T = string>(expression: string): Placeholder<T>;
+  // Lines replacing the whole line the placeholder ends up on, indented like it
+  block<T>(render: (indent: number) => string[]): Placeholder<T>;
+  render(objects: KubernetesObject[]): string;
+}
+
+function createPlaceholders(): ChartPlaceholders {
+  const expressions: string[] = [];
+  const blocks: ((indent: number) => string[])[] = [];
+
+  // The one place a placeholder string is passed off as its field's type
+  const placeholder = <T>(name: string): Placeholder<T> => name as unknown as Placeholder<T>;
+
+  return {
+    value: <T>(expression: string) => placeholder<T>(`__helm_value_${expressions.push(expression) - 1}__`),
+    block: <T>(render: (indent: number) => string[]) => placeholder<T>(`__helm_block_${blocks.push(render) - 1}__`),
+    render: objects => serializeManifest(objects)
+      .replace(/^( *)(?:- |[\w.\/-]+: )?__helm_block_(\d+)__$/gm, (_, indent: string, index: string) =>
+        blocks[Number(index)](indent.length).map(line => indent + line).join('\n')
+      )
+      .replace(/__helm_value_(\d+)__/g, (_, index: string) => expressions[Number(index)]),
+  };
+}
+
+// Wraps a template in `{{- if <condition> }}`
+function renderConditional(condition: string, template: string): string {
+  return `{{- if ${condition} }}\n${template}{{- end }}\n`;
+}
+
+function getHostname(config: DeployConfig): string {
+  return config.domain
+    ? (config.domain.subdomain ? `${config.domain.subdomain}.${config.domain.domain}` : config.domain.domain)
+    : `${config.appName}.example.com`;
+}
+
+// The tag of the last successful deploy, so the chart runs the image that is live
+function getExportedImageTag(config: DeployConfig): string {
+  const deployed = loadReleaseHistory().filter(record => record.status === 'deployed' && record.imageTag);
+  return deployed.length > 0 ? deployed[deployed.length - 1].imageTag! : config.imageTag || resolveImageTag(config);
+}
+
+/**
+ * Chart values: the DeployConfig fields another team is expected to change.
+ * Secret values are never exported, only their keys.
+ */
+function buildValues(config: DeployConfig, port: number): Record<string, unknown> {
+  const repository = config.imageName || config.appName;
+  const plainEnv = (config.envVars || []).filter(envVar => !envVar.fromSecret && !isExternalSecretRef(envVar.value));
+  const { local: localSecrets } = splitSecrets(config);
+
+  return {
+    replicas: config.replicas,
+    image: {
+      repository: config.imageRegistry ? `${config.imageRegistry}/${repository}` : repository,
+      tag: getExportedImageTag(config),
+    },
+    imagePullSecrets: config.imageRegistry?.includes('amazonaws.com') ? [{ name: 'ecr-registry-secret' }] : [],
+    port,
+    resources: config.resources || {
+      requests: { cpu: '250m', memory: '256Mi' },
+      limits: { cpu: '500m', memory: '512Mi' },
+    },
+    env: Object.fromEntries(plainEnv.map(envVar => [envVar.name, envVar.value])),
+    autoscaling: {
+      enabled: !!config.autoscaling?.enabled,
+      minReplicas: config.autoscaling?.minReplicas ?? config.replicas,
+      maxReplicas: config.autoscaling?.maxReplicas ?? config.replicas * 2,
+    },
+    ingress: { enabled: !!config.enableIngress },
+    domain: {
+      host: getHostname(config),
+      tls: !!(config.domain?.enableSSL && config.domain.certificateARN),
+      tlsSecretName: `${config.appName}-tls`,
+    },
+    ...(Object.keys(localSecrets).length > 0
+      ? { secrets: Object.fromEntries(Object.keys(localSecrets).map(key => [key, ''])) }
+      : {}),
+  };
+}
+
+/**
+ * Chart templates built from the generator output, with the values of
+ * buildValues substituted in. Everything else stays as ekspressjs renders it.
+ */
+function buildTemplates(config: DeployConfig): Record<string, string> {
+  const placeholders = createPlaceholders();
+  const { value, block } = placeholders;
+  const namespace = value('{{ .Release.Namespace }}');
+  const withReleaseNamespace = <T extends KubernetesObject>(object: T): T => {
+    object.metadata.namespace = namespace;
+    return object;
+  };
+  const templates: Record<string, string> = {};
+
+  const deployment = withReleaseNamespace(generateDeploymentManifest(config, config.appType));
+  deployment.spec.replicas = block(() => [
+    '{{- if not .Values.autoscaling.enabled }}',
+    'replicas: {{ .Values.replicas }}',
+    '{{- end }}',
+  ]);
+  const podSpec = deployment.spec.template.spec;
+  const container = podSpec.containers[0];
+  const plainEnvNames = new Set(
+    (config.envVars || []).filter(envVar => !envVar.fromSecret && !isExternalSecretRef(envVar.value)).map(envVar => envVar.name)
+  );
+  container.image = value('"{{ .Values.image.repository }}:{{ .Values.image.tag }}"');
+  container.ports![0].containerPort = value('{{ .Values.port }}');
+  container.env = [
+    ...container.env!
+      .filter(envVar => !plainEnvNames.has(envVar.name))
+      .map(envVar => (envVar.name === 'PORT' ? { ...envVar, value: value('{{ .Values.port | quote }}') } : envVar)),
+    block(() => [
+      '{{- range $name, $value := .Values.env }}',
+      '- name: {{ $name }}',
+      '  value: {{ $value | quote }}',
+      '{{- end }}',
+    ]),
+  ];
+  container.resources = block(indent => [
+    'resources:',
+    `  {{- toYaml .Values.resources | nindent ${indent + 2} }}`,
+  ]);
+  for (const probe of [container.livenessProbe, container.readinessProbe]) {
+    if (probe?.httpGet) {
+      probe.httpGet.port = value('{{ .Values.port }}');
+    }
+  }
+  podSpec.imagePullSecrets = block(indent => [
+    '{{- with .Values.imagePullSecrets }}',
+    'imagePullSecrets:',
+    `  {{- toYaml . | nindent ${indent + 2} }}`,
+    '{{- end }}',
+  ]);
+  templates['deployment.yaml'] = placeholders.render([deployment]);
+
+  const service = withReleaseNamespace(generateServiceManifest(config, config.appType));
+  service.spec.ports[0].targetPort = value('{{ .Values.port }}');
+  templates['service.yaml'] = placeholders.render([service]);
+
+  const ingress = withReleaseNamespace(generateIngressManifest(config));
+  ingress.spec.rules[0].host = value('{{ .Values.domain.host | quote }}');
+  ingress.spec.tls = block(() => [
+    '{{- if .Values.domain.tls }}',
+    'tls:',
+    '  - hosts:',
+    '      - {{ .Values.domain.host | quote }}',
+    '    secretName: {{ .Values.domain.tlsSecretName }}',
+    '{{- end }}',
+  ]);
+  templates['ingress.yaml'] = renderConditional('.Values.ingress.enabled', placeholders.render([ingress]));
+
+  // Rendered as if enabled so the chart can turn autoscaling on
+  const hpa = withReleaseNamespace(generateAutoscalingManifest({
+    ...config,
+    autoscaling: { minReplicas: config.replicas, maxReplicas: config.replicas * 2, ...config.autoscaling, enabled: true },
+  })!);
+  hpa.spec.minReplicas = value('{{ .Values.autoscaling.minReplicas }}');
+  hpa.spec.maxReplicas = value('{{ .Values.autoscaling.maxReplicas }}');
+  templates['hpa.yaml'] = renderConditional('.Values.autoscaling.enabled', placeholders.render([hpa]));
+
+  const disruptionBudget = generateDisruptionBudgetManifest(config);
+  if (disruptionBudget) {
+    templates['pdb.yaml'] = placeholders.render([withReleaseNamespace(disruptionBudget)]);
+  }
+
+  const secret = generateSecretsManifest(config);
+  if (secret) {
+    withReleaseNamespace(secret).data = block(() => [
+      'data:',
+      '  {{- range $key, $value := .Values.secrets }}',
+      '  {{ $key }}: {{ $value | b64enc | quote }}',
+      '  {{- end }}',
+    ]);
+    templates['secrets.yaml'] = placeholders.render([secret]);
+  }
+
+  // Referenced by the pods, so exported as rendered
+  const configMaps = generateConfigMapManifest(config).map(withReleaseNamespace);
+  if (configMaps.length > 0) {
+    templates['configmap.yaml'] = placeholders.render(configMaps);
+  }
+  const externalSecrets = config.externalSecrets?.enabled ? generateExternalSecretManifest(config).map(withReleaseNamespace) : [];
+  if (externalSecrets.length > 0) {
+    templates['externalsecret.yaml'] = placeholders.render(externalSecrets);
+  }
+
+  return templates;
+}
+
+/**
+ * Write the app's manifests as a Helm chart, by default to
+ * ekspressjs/helm/<app>/. Multi-service apps are not supported.
+ */
+export async function exportHelmChart(config: DeployConfig, outputDir?: string): Promise<string> {
+  if (config.components?.length) {
+    throw new Error('Helm export does not support multi-service apps (components)');
+  }
+
+  const chartDir = path.resolve(outputDir || path.join(getWorkspaceDir(), 'helm', config.appName));
+  const port = config.appType === 'react' || config.appType === 'vue' ? 80 : config.port;
+  const values = buildValues(config, port);
+  const templates = buildTemplates(config);
+
+  const chart = {
+    apiVersion: 'v2',
+    name: config.appName,
+    description: `${config.appName}, exported by ekspressjs`,
+    type: 'application',
+    version: '0.1.0',
+    appVersion: (values.image as { tag: string }).tag,
+  };
+
+  await fs.ensureDir(chartDir);
+  // Templates of an earlier export may no longer apply
+  await fs.remove(path.join(chartDir, 'templates'));
+  await fs.ensureDir(path.join(chartDir, 'templates'));
+  await fs.writeFile(path.join(chartDir, 'Chart.yaml'), yaml.dump(chart, { quotingType: '"' }));
+  await fs.writeFile(
+    path.join(chartDir, 'values.yaml'),
+    `# Values exported from the ekspressjs config of ${config.appName}\n` + yaml.dump(values, { lineWidth: -1, quotingType: '"' })
+  );
+  for (const [file, template] of Object.entries(templates)) {
+    await fs.writeFile(path.join(chartDir, 'templates', file), template);
+  }
+
+  const { references } = splitSecrets(config);
+  if (Object.keys(references).length > 0 && !config.externalSecrets?.enabled) {
+    console.log(chalk.yellow(`   ⚠️  Secret ${getReferencedSecretName(config)} is resolved from AWS at deploy time and is not part of the chart`));
+  }
+  if (values.secrets) {
+    console.log(chalk.yellow(`   ⚠️  Secret values are not exported; set them with --set secrets.<KEY>=<value>`));
+  }
+  const skipped = [
+    ...(config.workloads || []).map(workload => `${workload.kind} ${workload.name}`),
+    ...(config.hooks?.preDeploy ? ['pre-deploy hook'] : []),
+  ];
+  if (skipped.length > 0) {
+    console.log(chalk.yellow(`   ⚠️  Not exported: ${skipped.join(', ')}`));
+  }
+
+  return chartDir;
+}
+
+/**
+ * Run `helm lint` on an exported chart. Returns false when helm is not
+ * installed; throws when the chart does not pass.
+ */
+export function lintHelmChart(chartDir: string): boolean {
+  try {
+    execSync('helm version', { stdio: 'pipe' });
+  } catch (error) {
+    return false;
+  }
+
+  try {
+    execSync(`helm lint "${chartDir}"`, { stdio: 'pipe' });
+  } catch (error: any) {
+    const output = [error.stdout, error.stderr].filter(Boolean).join('').trim();
+    throw new Error(`helm lint failed for ${chartDir}${output ? `:\n${output}` : ''}`);
+  }
+  return true;
+}
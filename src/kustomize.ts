@@ -0,0 +1,269 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import chalk from 'chalk';
+import { isDeepStrictEqual } from 'util';
+import { serializeManifest } from './templates/kubernetes';
+import { KubernetesObject, Container, CronJob, Deployment, Job, PodSpec } from './templates/kubernetes-types';
+import { ManifestFile } from './manifest-validation';
+import { getActiveProfile, getAppDir } from './profiles';
+
+export interface JsonPatchOperation {
+  op: 'add' | 'remove' | 'replace';
+  path: string;
+  value?: unknown;
+}
+
+interface ImageOverride {
+  name: string;
+  newName?: string;
+  newTag?: string;
+  digest?: string;
+}
+
+interface Kustomization {
+  apiVersion: 'kustomize.config.k8s.io/v1beta1';
+  kind: 'Kustomization';
+  resources: string[];
+  namespace?: string;
+  images?: ImageOverride[];
+  replicas?: { name: string; count: number }[];
+  patches?: { path: string; target?: { kind: string; name: string } }[];
+}
+
+// The shared base and all overlays live next to the profile workspaces
+export function getKustomizeDir(): string {
+  return path.join(getAppDir(), 'ekspressjs', 'kustomize');
+}
+
+// The overlay of the active profile; `default` when none is selected
+export function getKustomizeOverlayDir(): string {
+  return path.join(getKustomizeDir(), 'overlays', getActiveProfile() || 'default');
+}
+
+function resourceKey(object: KubernetesObject): string {
+  return `${object.kind}/${object.metadata.name}`;
+}
+
+// Overlay files are named after the object they patch, add or delete
+function overlayFileName(object: KubernetesObject, suffix = ''): string {
+  return `${object.kind.toLowerCase()}-${object.metadata.name}${suffix}.yaml`;
+}
+
+export function parseImage(image: string): { name: string; tag?: string; digest?: string } {
+  const [reference, digest] = image.split('@');
+  const tagSeparator = reference.lastIndexOf(':');
+  // A colon before the last slash belongs to a registry port, not a tag
+  if (tagSeparator > reference.lastIndexOf('/')) {
+    return { name: reference.slice(0, tagSeparator), tag: reference.slice(tagSeparator + 1), digest };
+  }
+  return { name: reference, digest };
+}
+
+export function getPodSpec(object: KubernetesObject): PodSpec | undefined {
+  switch (object.kind) {
+    case 'Deployment':
+      return (object as Deployment).spec?.template?.spec;
+    case 'Job':
+      return (object as Job).spec?.template?.spec;
+    case 'CronJob':
+      return (object as CronJob).spec?.jobTemplate?.spec?.template?.spec;
+    default:
+      return undefined;
+  }
+}
+
+function getContainers(object: KubernetesObject): Container[] {
+  return getPodSpec(object)?.containers || [];
+}
+
+function escapePointer(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// RFC 6902 operations turning `from` into `to`; lists that change length are replaced whole
+export function diffValues(from: unknown, to: unknown, pointer: string, operations: JsonPatchOperation[]): void {
+  if (isPlainObject(from) && isPlainObject(to)) {
+    for (const key of Object.keys(from)) {
+      if (!(key in to)) {
+        operations.push({ op: 'remove', path: `${pointer}/${escapePointer(key)}` });
+      }
+    }
+    for (const [key, value] of Object.entries(to)) {
+      if (key in from) {
+        diffValues(from[key], value, `${pointer}/${escapePointer(key)}`, operations);
+      } else {
+        operations.push({ op: 'add', path: `${pointer}/${escapePointer(key)}`, value });
+      }
+    }
+    return;
+  }
+  if (Array.isArray(from) && Array.isArray(to) && from.length === to.length) {
+    from.forEach((item, index) => diffValues(item, to[index], `${pointer}/${index}`, operations));
+    return;
+  }
+  if (!isDeepStrictEqual(from, to)) {
+    operations.push({ op: 'replace', path: pointer, value: to });
+  }
+}
+
+function flatten(files: ManifestFile[]): KubernetesObject[] {
+  // Drops unset optional fields, as serialization does
+  return files.flatMap(({ objects }) => objects.map(object => JSON.parse(JSON.stringify(object)) as KubernetesObject));
+}
+
+/**
+ * The overlay turning the base objects into the environment's: kustomize's own
+ * namespace, images and replicas fields where they fit, JSON patches for any
+ * other difference, and added or deleted resources.
+ */
+function buildOverlay(base: KubernetesObject[], target: KubernetesObject[]): { kustomization: Kustomization; files: Record<string, unknown> } {
+  const kustomization: Kustomization = {
+    apiVersion: 'kustomize.config.k8s.io/v1beta1',
+    kind: 'Kustomization',
+    resources: ['../../base'],
+  };
+  const files: Record<string, unknown> = {};
+  // The base as kustomize will have transformed it, before patches
+  const transformed = new Map(base.map(object => [resourceKey(object), JSON.parse(JSON.stringify(object)) as KubernetesObject]));
+
+  const namespace = target[0]?.metadata.namespace;
+  if (namespace && base.some(object => object.metadata.namespace !== namespace)) {
+    kustomization.namespace = namespace;
+    transformed.forEach(object => { object.metadata.namespace = namespace; });
+  }
+
+  const images = new Map<string, ImageOverride>();
+  const replicas: { name: string; count: number }[] = [];
+  for (const object of target) {
+    const current = transformed.get(resourceKey(object));
+    if (!current) {
+      continue;
+    }
+    getContainers(object).forEach((container, index) => {
+      const baseContainer = getContainers(current)[index];
+      if (!baseContainer || baseContainer.image === container.image) {
+        return;
+      }
+      const from = parseImage(baseContainer.image);
+      const to = parseImage(container.image);
+      images.set(from.name, {
+        name: from.name,
+        newName: to.name !== from.name ? to.name : undefined,
+        newTag: to.tag,
+        digest: to.digest,
+      });
+    });
+    if (object.kind === 'Deployment') {
+      const count = (object as Deployment).spec.replicas;
+      const currentSpec = (current as Deployment).spec;
+      if (count !== undefined && count !== currentSpec.replicas) {
+        replicas.push({ name: object.metadata.name, count });
+        currentSpec.replicas = count;
+      }
+    }
+  }
+  // Kustomize rewrites every container running the image, so the base is transformed the same way
+  transformed.forEach(object => {
+    for (const container of getContainers(object)) {
+      const override = images.get(parseImage(container.image).name);
+      if (override) {
+        const image = override.newName || override.name;
+        container.image = override.digest
+          ? `${image}@${override.digest}`
+          : (override.newTag ? `${image}:${override.newTag}` : image);
+      }
+    }
+  });
+  if (images.size > 0) {
+    kustomization.images = Array.from(images.values()).map(image => JSON.parse(JSON.stringify(image)));
+  }
+  if (replicas.length > 0) {
+    kustomization.replicas = replicas;
+  }
+
+  const patches: Kustomization['patches'] = [];
+  for (const object of target) {
+    const current = transformed.get(resourceKey(object));
+    if (!current) {
+      const file = overlayFileName(object, '.resource');
+      kustomization.resources.push(file);
+      files[file] = object;
+      continue;
+    }
+    const operations: JsonPatchOperation[] = [];
+    diffValues(current, object, '', operations);
+    if (operations.length > 0) {
+      files[overlayFileName(object)] = operations;
+      patches.push({ path: overlayFileName(object), target: { kind: object.kind, name: object.metadata.name } });
+    }
+  }
+  const targetKeys = new Set(target.map(resourceKey));
+  for (const object of base.filter(candidate => !targetKeys.has(resourceKey(candidate)))) {
+    const file = overlayFileName(object, '.delete');
+    files[file] = { $patch: 'delete', apiVersion: object.apiVersion, kind: object.kind, metadata: { name: object.metadata.name } };
+    patches.push({ path: file });
+  }
+  if (patches.length > 0) {
+    kustomization.patches = patches;
+  }
+
+  return { kustomization, files };
+}
+
+// Whether writing `files` changes the base the existing overlays were computed against
+async function isBaseChanged(baseDir: string, files: Record<string, string>): Promise<boolean> {
+  for (const [file, content] of Object.entries(files)) {
+    const existing = path.join(baseDir, file);
+    if (!await fs.pathExists(existing) || await fs.readFile(existing, 'utf-8') !== content) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Write the kustomize base, rendered from the top-level settings, and the
+ * overlay of the active profile. The manifest files are the same ones written
+ * to k8s/, without the pre-deploy Job, which runs before them, and the Secret,
+ * which is applied on its own. When the base changes, the overlays of the
+ * other profiles are reported as out of date.
+ */
+export async function writeKustomization(base: ManifestFile[], target: ManifestFile[]): Promise<string> {
+  const baseDir = path.join(getKustomizeDir(), 'base');
+  const overlaysDir = path.join(getKustomizeDir(), 'overlays');
+  const overlayDir = getKustomizeOverlayDir();
+
+  const baseFiles: Record<string, string> = Object.fromEntries(base.map(({ file, objects }) => [file, serializeManifest(objects)]));
+  baseFiles['kustomization.yaml'] = yaml.dump({
+    apiVersion: 'kustomize.config.k8s.io/v1beta1',
+    kind: 'Kustomization',
+    resources: base.map(({ file }) => file.split(path.sep).join('/')),
+  }, { lineWidth: -1 });
+  const otherOverlays = (await fs.pathExists(overlaysDir) ? await fs.readdir(overlaysDir) : [])
+    .filter(name => name !== path.basename(overlayDir));
+  if (otherOverlays.length > 0 && await isBaseChanged(baseDir, baseFiles)) {
+    console.log(chalk.yellow(`   ⚠️  The kustomize base changed; the overlays ${otherOverlays.join(', ')} were written against the previous one. Deploy those profiles again to update them`));
+  }
+
+  await fs.remove(baseDir);
+  await fs.ensureDir(baseDir);
+  for (const [file, content] of Object.entries(baseFiles)) {
+    await fs.ensureDir(path.dirname(path.join(baseDir, file)));
+    await fs.writeFile(path.join(baseDir, file), content);
+  }
+
+  const { kustomization, files } = buildOverlay(flatten(base), flatten(target));
+  await fs.remove(overlayDir);
+  await fs.ensureDir(overlayDir);
+  await fs.writeFile(path.join(overlayDir, 'kustomization.yaml'), yaml.dump(kustomization, { lineWidth: -1, quotingType: '"' }));
+  for (const [file, content] of Object.entries(files)) {
+    await fs.writeFile(path.join(overlayDir, file), yaml.dump(content, { lineWidth: -1, noRefs: true, quotingType: '"' }));
+  }
+
+  return overlayDir;
+}
@@ -0,0 +1,222 @@
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import chalk from 'chalk';
+import axios from 'axios';
+import { DeployConfig } from './types';
+import { KubernetesObject } from './templates/kubernetes-types';
+import { getClusterVersion } from './aws-utils';
+
+const OPENAPI_CACHE_DIR = path.join(os.homedir(), '.ekspressjs', 'openapi');
+
+interface SchemaNode {
+  type?: string;
+  format?: string;
+  $ref?: string;
+  required?: string[];
+  properties?: Record<string, SchemaNode>;
+  additionalProperties?: SchemaNode | boolean;
+  items?: SchemaNode;
+  enum?: unknown[];
+  'x-kubernetes-preserve-unknown-fields'?: boolean;
+  'x-kubernetes-group-version-kind'?: { group: string; version: string; kind: string }[];
+}
+
+interface OpenAPISpec {
+  definitions: Record<string, SchemaNode>;
+}
+
+// A file under k8s/ and the objects it holds
+export interface ManifestFile {
+  file: string;
+  objects: KubernetesObject[];
+}
+
+const specs = new Map<string, OpenAPISpec | null>();
+const clusterVersions = new Map<string, string | null>();
+
+async function resolveKubernetesVersion(config: DeployConfig): Promise<string | null> {
+  if (config.kubernetesVersion) {
+    return config.kubernetesVersion;
+  }
+  const key = `${config.region}/${config.clusterName}`;
+  if (!clusterVersions.has(key)) {
+    try {
+      clusterVersions.set(key, (await getClusterVersion(config)) || null);
+    } catch (error: any) {
+      console.log(chalk.yellow(`   ⚠️  Could not read the version of cluster ${config.clusterName}: ${error.message}`));
+      console.log(chalk.yellow('   Manifests are not validated; set cluster.version in ekspressjs.yaml to validate them'));
+      clusterVersions.set(key, null);
+    }
+  }
+  return clusterVersions.get(key)!;
+}
+
+/**
+ * The OpenAPI (v2) spec published with the Kubernetes release, downloaded once
+ * per version into ~/.ekspressjs/openapi/.
+ */
+async function loadOpenAPISpec(version: string): Promise<OpenAPISpec | null> {
+  if (specs.has(version)) {
+    return specs.get(version)!;
+  }
+
+  const cachePath = path.join(OPENAPI_CACHE_DIR, `${version}.json`);
+  let spec: OpenAPISpec | null = null;
+  if (await fs.pathExists(cachePath)) {
+    try {
+      spec = await fs.readJson(cachePath);
+      if (!spec?.definitions) {
+        spec = null;
+        throw new Error('no definitions');
+      }
+    } catch (error: any) {
+      // e.g. an interrupted write; download it again
+      console.log(chalk.yellow(`   ⚠️  Removed the unreadable cached Kubernetes ${version} OpenAPI schema: ${error.message}`));
+      await fs.remove(cachePath);
+    }
+  }
+  if (!spec) {
+    const url = `https://raw.githubusercontent.com/kubernetes/kubernetes/release-${version}/api/openapi-spec/swagger.json`;
+    try {
+      const response = await axios.get(url, { timeout: 60000, responseType: 'json' });
+      spec = { definitions: response.data.definitions };
+      await fs.ensureDir(OPENAPI_CACHE_DIR);
+      await fs.writeJson(cachePath, spec);
+    } catch (error: any) {
+      console.log(chalk.yellow(`   ⚠️  Could not download the Kubernetes ${version} OpenAPI schema: ${error.message}`));
+    }
+  }
+
+  specs.set(version, spec);
+  return spec;
+}
+
+function findDefinition(spec: OpenAPISpec, object: KubernetesObject): SchemaNode | undefined {
+  const [group, version] = object.apiVersion.includes('/') ? object.apiVersion.split('/') : ['', object.apiVersion];
+  return Object.values(spec.definitions).find(definition =>
+    definition['x-kubernetes-group-version-kind']?.some(gvk =>
+      gvk.group === group && gvk.version === version && gvk.kind === object.kind
+    )
+  );
+}
+
+function describeType(value: unknown): string {
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return value === null ? 'null' : typeof value;
+}
+
+function matchesType(value: unknown, node: SchemaNode): boolean {
+  if (node.format === 'int-or-string') {
+    return typeof value === 'string' || Number.isInteger(value);
+  }
+  switch (node.type) {
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number';
+    case 'string':
+    case 'boolean':
+      return typeof value === node.type;
+    default:
+      return true;
+  }
+}
+
+function fieldPath(at: string, field: string): string {
+  return at ? `${at}.${field}` : field;
+}
+
+function validateNode(spec: OpenAPISpec, value: unknown, node: SchemaNode, at: string, errors: string[]): void {
+  if (node.$ref) {
+    const target = spec.definitions[node.$ref.replace('#/definitions/', '')];
+    if (target) {
+      validateNode(spec, value, target, at, errors);
+    }
+    return;
+  }
+  if (!matchesType(value, node)) {
+    errors.push(`${at} must be ${node.format === 'int-or-string' ? 'an integer or a string' : node.type}, got ${describeType(value)}`);
+    return;
+  }
+  if (node.enum && !node.enum.includes(value)) {
+    errors.push(`${at} must be one of ${node.enum.join(', ')}, got ${String(value)}`);
+    return;
+  }
+  if (node['x-kubernetes-preserve-unknown-fields']) {
+    return;
+  }
+
+  if (Array.isArray(value) && node.items) {
+    value.forEach((item, index) => validateNode(spec, item, node.items!, `${at}[${index}]`, errors));
+    return;
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return;
+  }
+
+  const record = value as Record<string, unknown>;
+  for (const field of node.required || []) {
+    if (record[field] === undefined) {
+      errors.push(`${fieldPath(at, field)} is required`);
+    }
+  }
+  for (const [field, fieldValue] of Object.entries(record)) {
+    if (fieldValue === undefined) {
+      continue;
+    }
+    const fieldNode = node.properties?.[field]
+      ?? (typeof node.additionalProperties === 'object' ? node.additionalProperties : undefined);
+    if (fieldNode) {
+      validateNode(spec, fieldValue, fieldNode, fieldPath(at, field), errors);
+    } else if (node.properties && !node.additionalProperties) {
+      errors.push(`${fieldPath(at, field)} is not a known field`);
+    }
+  }
+}
+
+/**
+ * Check the generated objects against the OpenAPI schema of the cluster's
+ * Kubernetes version, before anything is written. Kinds the spec does not
+ * know, like the External Secrets CRDs, are not checked. Validation is skipped
+ * with a warning when the version or the schema cannot be resolved, unless
+ * strictValidation is set.
+ */
+export async function validateManifests(config: DeployConfig, files: ManifestFile[]): Promise<void> {
+  const version = await resolveKubernetesVersion(config);
+  const spec = version ? await loadOpenAPISpec(version) : null;
+  if (!spec) {
+    if (config.strictValidation) {
+      throw new Error(
+        version
+          ? `Manifests cannot be validated: the Kubernetes ${version} OpenAPI schema is unavailable`
+          : 'Manifests cannot be validated: the Kubernetes version is unknown; set cluster.version in ekspressjs.yaml'
+      );
+    }
+    return;
+  }
+
+  const errors: string[] = [];
+  for (const { file, objects } of files) {
+    for (const object of objects) {
+      const definition = findDefinition(spec, object);
+      if (!definition) {
+        continue;
+      }
+      const objectErrors: string[] = [];
+      // Drops unset optional fields, as serialization does
+      validateNode(spec, JSON.parse(JSON.stringify(object)), definition, '', objectErrors);
+      errors.push(...objectErrors.map(error => `${file}: ${object.kind} ${object.metadata?.name}: ${error}`));
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Generated manifests are not valid for Kubernetes ${version}:\n  ${errors.join('\n  ')}`);
+  }
+}
@@ -0,0 +1,372 @@
+import { execSync } from 'child_process';
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import chalk from 'chalk';
+import { DeployConfig, ReleaseRecord } from './types';
+import { generateArtifacts } from './deploy';
+import { generateSecretsManifest } from './templates/kubernetes';
+import { KubernetesObject, Secret } from './templates/kubernetes-types';
+import { getPodSpec, parseImage } from './kustomize';
+import { isSecretRef } from './secret-store';
+import { listManifestFiles, loadReleaseHistory, getReleaseManifestsDir, hashSecretData, SECRETS_MANIFEST } from './releases';
+
+type ChangeType = 'create' | 'update' | 'delete' | 'unchanged';
+
+interface PlannedResource {
+  kind: string;
+  name: string;
+  namespace: string;
+  document: KubernetesObject;
+  // Secret values kept in the keychain or vault are not read: only key names are compared
+  keysOnly?: boolean;
+}
+
+interface ResourceChange {
+  resource: PlannedResource;
+  change: ChangeType;
+  diff: string[];
+}
+
+function resourceKey(resource: PlannedResource): string {
+  return `${resource.kind}/${resource.namespace}/${resource.name}`;
+}
+
+function loadResources(manifestsDir: string, files: string[]): PlannedResource[] {
+  const resources: PlannedResource[] = [];
+  for (const file of files) {
+    const content = fs.readFileSync(path.join(manifestsDir, file), 'utf-8');
+    for (const document of yaml.loadAll(content)) {
+      const doc = document as KubernetesObject | null;
+      if (!doc?.kind || !doc.metadata?.name) {
+        continue;
+      }
+      resources.push({
+        kind: doc.kind,
+        name: doc.metadata.name,
+        namespace: doc.metadata.namespace || 'default',
+        document: doc,
+      });
+    }
+  }
+  return resources;
+}
+
+// Never print secret values, but keep changes visible through a short hash
+function maskSecretData(document: KubernetesObject): KubernetesObject {
+  const data = document.kind === 'Secret' ? (document as Secret).data : undefined;
+  if (!data) {
+    return document;
+  }
+  const masked: Record<string, string> = {};
+  for (const [key, value] of Object.entries(data)) {
+    const hash = crypto.createHash('sha256').update(String(value)).digest('hex').substring(0, 8);
+    masked[key] = `<redacted sha256:${hash}>`;
+  }
+  return { ...document, data: masked } as Secret;
+}
+
+/**
+ * Minimal line diff (LCS) with two lines of context around each change.
+ */
+export function diffLines(before: string[], after: string[]): string[] {
+  const rows = before.length;
+  const cols = after.length;
+  const lcs: number[][] = Array.from({ length: rows + 1 }, () => new Array(cols + 1).fill(0));
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[i][j] = before[i] === after[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: Array<{ op: ' ' | '+' | '-'; line: string }> = [];
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (before[i] === after[j]) {
+      ops.push({ op: ' ', line: before[i++] });
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      ops.push({ op: '-', line: before[i++] });
+    } else {
+      ops.push({ op: '+', line: after[j++] });
+    }
+  }
+  while (i < rows) ops.push({ op: '-', line: before[i++] });
+  while (j < cols) ops.push({ op: '+', line: after[j++] });
+
+  const context = 2;
+  const visible = new Set<number>();
+  ops.forEach((entry, index) => {
+    if (entry.op !== ' ') {
+      for (let k = Math.max(0, index - context); k <= Math.min(ops.length - 1, index + context); k++) {
+        visible.add(k);
+      }
+    }
+  });
+
+  const output: string[] = [];
+  let previousIndex = -1;
+  ops.forEach((entry, index) => {
+    if (!visible.has(index)) {
+      return;
+    }
+    if (previousIndex >= 0 && index > previousIndex + 1) {
+      output.push('  ...');
+    }
+    output.push(`${entry.op} ${entry.line}`);
+    previousIndex = index;
+  });
+  return output;
+}
+
+/**
+ * The kubeconfig context of the configured cluster, preferring the current one.
+ * `aws eks update-kubeconfig` names the cluster entry after its ARN,
+ * arn:aws:eks:<region>:<account>:cluster/<name>. Nothing in the kubeconfig is changed.
+ */
+function findClusterContext(config: DeployConfig): string | null {
+  try {
+    const kubeconfig = JSON.parse(execSync('kubectl config view -o json', { encoding: 'utf-8', stdio: 'pipe' }));
+    const matches = ((kubeconfig.contexts || []) as Array<{ name: string; context?: { cluster?: string } }>)
+      .filter(({ context }) => {
+        const cluster = context?.cluster || '';
+        return cluster.startsWith(`arn:aws:eks:${config.region}:`) && cluster.endsWith(`:cluster/${config.clusterName}`);
+      })
+      .map(({ name }) => name);
+    return matches.includes(kubeconfig['current-context']) ? kubeconfig['current-context'] : matches[0] || null;
+  } catch (error) {
+    return null;
+  }
+}
+
+function isClusterReachable(context: string): boolean {
+  try {
+    execSync(`kubectl cluster-info --context ${context} --request-timeout=5s`, { stdio: 'pipe' });
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+function getLiveResource(resource: PlannedResource, context: string): KubernetesObject | null {
+  try {
+    return JSON.parse(execSync(
+      `kubectl get ${resource.kind.toLowerCase()} ${resource.name} -n ${resource.namespace} --context ${context} -o json --request-timeout=10s`,
+      { encoding: 'utf-8', stdio: 'pipe' }
+    ));
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * The image tag (and digest) is only known once deploy has built and pushed it, so a
+ * container running the same repository keeps the compared image: image-only changes
+ * are not shown as diffs.
+ */
+export function keepComparedImages(document: KubernetesObject, compared: KubernetesObject): KubernetesObject {
+  const podSpec = getPodSpec(document);
+  const comparedImages = new Map(
+    (getPodSpec(compared)?.containers || []).map(container => [container.name, container.image])
+  );
+  if (!podSpec || comparedImages.size === 0) {
+    return document;
+  }
+  const copy: KubernetesObject = JSON.parse(JSON.stringify(document));
+  for (const container of getPodSpec(copy)!.containers) {
+    const image = comparedImages.get(container.name);
+    if (image && parseImage(image).name === parseImage(container.image).name) {
+      container.image = image;
+    }
+  }
+  return copy;
+}
+
+function diffAgainstCluster(resource: PlannedResource, context: string, tempDir: string): ResourceChange {
+  const live = getLiveResource(resource, context);
+  if (!live) {
+    return { resource, change: 'create', diff: [] };
+  }
+
+  const tempFile = path.join(tempDir, `${resource.kind}-${resource.name}.yaml`);
+  fs.writeFileSync(tempFile, yaml.dump(keepComparedImages(resource.document, live)));
+  try {
+    // Server-side dry run: exit code 0 = no changes, 1 = changes, >1 = error
+    execSync(`kubectl diff --context ${context} -f ${tempFile}`, { encoding: 'utf-8', stdio: 'pipe' });
+    return { resource, change: 'unchanged', diff: [] };
+  } catch (error: any) {
+    if (error.status === 1) {
+      const output = (error.stdout?.toString() || '')
+        .split('\n')
+        .filter((line: string) => !line.startsWith('diff ') && !line.startsWith('---') && !line.startsWith('+++'));
+      return { resource, change: 'update', diff: output };
+    }
+    throw new Error(`kubectl diff failed for ${resource.kind}/${resource.name}: ${error.stderr?.toString() || error.message}`);
+  }
+}
+
+function diffAgainstDocument(resource: PlannedResource, previous: PlannedResource | undefined): ResourceChange {
+  if (!previous) {
+    return { resource, change: 'create', diff: [] };
+  }
+  const before = yaml.dump(maskSecretData(previous.document)).trimEnd().split('\n');
+  const after = yaml.dump(maskSecretData(keepComparedImages(resource.document, previous.document))).trimEnd().split('\n');
+  const diff = diffLines(before, after);
+  return { resource, change: diff.length > 0 ? 'update' : 'unchanged', diff };
+}
+
+function diffSecretKeys(resource: PlannedResource, previousKeys: string[], valuesChanged: boolean): ResourceChange {
+  const keys = Object.keys((resource.document as Secret).data || {}).sort();
+  const diff = [
+    ...previousKeys.filter(key => !keys.includes(key)).map(key => `- ${key}`),
+    ...keys.filter(key => !previousKeys.includes(key)).map(key => `+ ${key}`),
+  ];
+  if (diff.length === 0 && !valuesChanged) {
+    return { resource, change: 'unchanged', diff: [] };
+  }
+  return { resource, change: 'update', diff: diff.length > 0 ? diff : ['  (values changed)'] };
+}
+
+// Releases hold no Secret values, only key names and a hash to compare against
+function diffAgainstReleaseSecret(resource: PlannedResource, secret: NonNullable<ReleaseRecord['secret']>): ResourceChange {
+  const valuesChanged = !resource.keysOnly && hashSecretData((resource.document as Secret).data || {}) !== secret.hash;
+  return diffSecretKeys(resource, secret.keys, valuesChanged);
+}
+
+function diffAgainstLiveSecret(resource: PlannedResource, context: string): ResourceChange {
+  const live = getLiveResource(resource, context) as Secret | null;
+  return live ? diffSecretKeys(resource, Object.keys(live.data || {}), false) : { resource, change: 'create', diff: [] };
+}
+
+function printChange(change: ResourceChange): void {
+  const label = `${change.resource.kind}/${change.resource.name} (${change.resource.namespace})`;
+  switch (change.change) {
+    case 'create':
+      console.log(chalk.green(`   + ${label} will be created`));
+      break;
+    case 'delete':
+      console.log(chalk.red(`   - ${label} will be deleted`));
+      break;
+    case 'unchanged':
+      console.log(chalk.gray(`   = ${label} unchanged`));
+      break;
+    case 'update':
+      console.log(chalk.yellow(`   ~ ${label} will be updated`));
+      for (const line of change.diff) {
+        if (line.startsWith('+')) {
+          console.log(chalk.green(`       ${line}`));
+        } else if (line.startsWith('-')) {
+          console.log(chalk.red(`       ${line}`));
+        } else if (line.trim()) {
+          console.log(chalk.gray(`       ${line}`));
+        }
+      }
+      break;
+  }
+}
+
+/**
+ * Render all artifacts into a temporary directory and show what a deploy would change,
+ * resource by resource. Never writes to the project, configures AWS, builds images,
+ * provisions certificates or applies manifests.
+ */
+export async function planDeployment(config: DeployConfig): Promise<void> {
+  console.log(chalk.blue('\n📋 Planning deployment (no changes will be made)...\n'));
+
+  const { artifactsDir, manifestsDir } = await generateArtifacts(config, { dryRun: true });
+  try {
+    await printPlan(config, manifestsDir);
+  } finally {
+    await fs.remove(artifactsDir);
+  }
+}
+
+async function printPlan(config: DeployConfig, manifestsDir: string): Promise<void> {
+  const planned = loadResources(manifestsDir, listManifestFiles(manifestsDir));
+  // The Secret is applied from memory, never written to k8s/
+  const secret = generateSecretsManifest(config);
+  const keysOnly = Object.values(config.secrets || {}).some(isSecretRef);
+  if (secret) {
+    planned.unshift({ kind: 'Secret', name: secret.metadata.name, namespace: secret.metadata.namespace || 'default', document: secret, keysOnly });
+  }
+
+  const history = loadReleaseHistory();
+  const lastRelease = history.length > 0 ? history[history.length - 1] : null;
+  const previous = lastRelease
+    ? loadResources(getReleaseManifestsDir(lastRelease), lastRelease.manifests.filter(file => file !== SECRETS_MANIFEST))
+    : [];
+  const plannedKeys = new Set(planned.map(resourceKey));
+  const removed = previous.filter(resource => !plannedKeys.has(resourceKey(resource)));
+
+  const changes: ResourceChange[] = [];
+  const context = findClusterContext(config);
+
+  if (context && isClusterReachable(context)) {
+    console.log(chalk.cyan(`\n🔍 Comparing against live cluster (context: ${context})...\n`));
+
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ekspressjs-plan-'));
+    try {
+      for (const resource of planned) {
+        changes.push(resource.keysOnly ? diffAgainstLiveSecret(resource, context) : diffAgainstCluster(resource, context, tempDir));
+      }
+    } finally {
+      await fs.remove(tempDir);
+    }
+    for (const resource of removed) {
+      if (getLiveResource(resource, context)) {
+        changes.push({ resource, change: 'delete', diff: [] });
+      }
+    }
+  } else {
+    console.log(chalk.yellow(
+      context
+        ? `\n⚠️  Cluster ${config.clusterName} is not reachable (context: ${context}).`
+        : `\n⚠️  No kubectl context for cluster ${config.clusterName} in ${config.region}. ` +
+          `Run: aws eks update-kubeconfig --region ${config.region} --name ${config.clusterName}`
+    ));
+
+    if (lastRelease) {
+      console.log(chalk.cyan(`🔍 Comparing against last applied release (revision ${lastRelease.revision}, ${lastRelease.deployedAt})...\n`));
+
+      const previousByKey = new Map(previous.map(resource => [resourceKey(resource), resource]));
+      const releaseSecret = lastRelease.secret;
+      for (const resource of planned) {
+        changes.push(
+          resource.kind === 'Secret' && releaseSecret?.name === resource.name
+            ? diffAgainstReleaseSecret(resource, releaseSecret)
+            : diffAgainstDocument(resource, previousByKey.get(resourceKey(resource)))
+        );
+      }
+      for (const resource of removed) {
+        changes.push({ resource, change: 'delete', diff: [] });
+      }
+      if (releaseSecret && !planned.some(resource => resource.kind === 'Secret' && resource.name === releaseSecret.name)) {
+        const metadata = { name: releaseSecret.name, namespace: lastRelease.namespace };
+        const resource = { kind: 'Secret', ...metadata, document: { apiVersion: 'v1', kind: 'Secret', metadata } };
+        changes.push({ resource, change: 'delete', diff: [] });
+      }
+    } else {
+      console.log(chalk.cyan('   No previous release is recorded either, so every resource is shown as new.\n'));
+      for (const resource of planned) {
+        changes.push({ resource, change: 'create', diff: [] });
+      }
+    }
+  }
+
+  changes.forEach(printChange);
+
+  const count = (type: ChangeType) => changes.filter(c => c.change === type).length;
+  console.log(
+    chalk.bold(
+      `\nPlan: ${count('create')} to create, ${count('update')} to update, ` +
+      `${count('delete')} to delete, ${count('unchanged')} unchanged.`
+    )
+  );
+  console.log(chalk.gray(`   The image (tag ${config.imageTag}) is not built in plan mode, so image changes are not shown.`));
+  if (secret && keysOnly) {
+    console.log(chalk.gray('   Secret values in the keychain or vault are not read in plan mode, so only their key names are compared.'));
+  }
+}
@@ -0,0 +1,92 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import chalk from 'chalk';
+import { AWSConfig } from './prompts';
+import { setupKubectl } from './aws-utils';
+import { DeployConfig } from './types';
+
+const PROFILE_NAME_PATTERN = /^[a-z0-9-]+$/;
+
+let activeProfile: string | undefined;
+let activeAppDir: string | undefined;
+
+/**
+ * Select the app to work on from --app-dir or EKSPRESSJS_APP_DIR, for monorepos.
+ * Project files, ekspressjs.yaml and the workspace directory are all resolved
+ * from the app directory; commands still run from the repository root.
+ */
+export function activateAppDir(options: any): string {
+  const appDir = options.appDir || process.env.EKSPRESSJS_APP_DIR;
+  activeAppDir = appDir ? path.resolve(appDir) : undefined;
+  if (activeAppDir) {
+    if (!fs.existsSync(activeAppDir) || !fs.statSync(activeAppDir).isDirectory()) {
+      throw new Error(`App directory not found: ${appDir}`);
+    }
+    console.log(chalk.cyan(`📦 Using app: ${path.relative(process.cwd(), activeAppDir) || '.'}`));
+  }
+  return getAppDir();
+}
+
+export function getAppDir(): string {
+  return activeAppDir || process.cwd();
+}
+
+/**
+ * Select the profile for this run from --env or EKSPRESSJS_ENV. Every command
+ * calls this first so saved config, artifacts and release history resolve to
+ * the profile's own workspace.
+ */
+export function activateProfile(options: any): string | undefined {
+  const profile = options.env || process.env.EKSPRESSJS_ENV || undefined;
+  if (profile && !PROFILE_NAME_PATTERN.test(profile)) {
+    throw new Error(`Invalid profile name "${profile}": use lowercase letters, numbers, and hyphens`);
+  }
+  activeProfile = profile;
+  if (profile) {
+    console.log(chalk.cyan(`🌐 Using profile: ${profile}`));
+  }
+  return profile;
+}
+
+export function getActiveProfile(): string | undefined {
+  return activeProfile;
+}
+
+/**
+ * Directory holding generated artifacts, the saved config and the release ledger:
+ * <app>/ekspressjs for the base config, <app>/ekspressjs/envs/<profile> for a profile.
+ */
+export function getWorkspaceDir(): string {
+  const baseDir = path.join(getAppDir(), 'ekspressjs');
+  return activeProfile ? path.join(baseDir, 'envs', activeProfile) : baseDir;
+}
+
+/**
+ * All workspaces in the project: the base one and one per profile that has been used.
+ */
+export function listWorkspaces(): { profile?: string; dir: string }[] {
+  const baseDir = path.join(getAppDir(), 'ekspressjs');
+  const workspaces: { profile?: string; dir: string }[] = [{ dir: baseDir }];
+  const envsDir = path.join(baseDir, 'envs');
+  if (fs.existsSync(envsDir)) {
+    for (const profile of fs.readdirSync(envsDir)) {
+      if (fs.statSync(path.join(envsDir, profile)).isDirectory()) {
+        workspaces.push({ profile, dir: path.join(envsDir, profile) });
+      }
+    }
+  }
+  return workspaces;
+}
+
+/**
+ * Point kubectl at the profile's cluster. Profiles may live on different
+ * clusters, so commands that talk to the cluster must not rely on whatever
+ * context happens to be current.
+ */
+export async function useProfileCluster(config: Partial<AWSConfig> | null): Promise<void> {
+  if (!activeProfile || !config?.clusterName || !config.region) {
+    return;
+  }
+  console.log(chalk.cyan(`   Switching kubectl to cluster ${config.clusterName} (${config.region})...`));
+  await setupKubectl(config as DeployConfig);
+}
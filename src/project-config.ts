@@ -0,0 +1,730 @@
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { AWSConfig } from './prompts';
+import { AppType, Autoscaling, AvailabilityConfig, ComponentConfig, DeployHooks, DomainConfig, GitOpsConfig, ManifestFormat, Resources, WorkloadConfig } from './types';
+import { parseEnvFile, getFrameworkDefaults } from './utils';
+import { getActiveProfile, getAppDir } from './profiles';
+import { orderComponents, PRE_DEPLOY_HOOK_NAME } from './components';
+import projectConfigSchema from './schema/ekspressjs.schema.json';
+
+export const PROJECT_CONFIG_FILES = ['ekspressjs.yaml', 'ekspressjs.yml'];
+
+export interface ComponentSettings {
+  framework?: AppType;
+  dockerfile?: string;
+  path?: string;
+  port?: number;
+  replicas?: number;
+  healthCheckPath?: string;
+  ingressPath?: string;
+  dependsOn?: string[];
+  resources?: ProjectSettings['resources'];
+  autoscaling?: ProjectSettings['autoscaling'];
+  availability?: AvailabilityConfig;
+  env?: Record<string, string | number | boolean>;
+  probes?: AWSConfig['probes'];
+}
+
+export interface WorkloadSettings {
+  kind: WorkloadConfig['kind'];
+  component?: string;
+  command: string[];
+  replicas?: number;
+  schedule?: string;
+  concurrencyPolicy?: WorkloadConfig['concurrencyPolicy'];
+  successfulJobsHistoryLimit?: number;
+  failedJobsHistoryLimit?: number;
+  resources?: ProjectSettings['resources'];
+  env?: Record<string, string | number | boolean>;
+  probes?: AWSConfig['probes'];
+}
+
+// Settings that can appear at the top level and inside a profile
+export interface ProjectSettings {
+  app?: {
+    name?: string;
+    framework?: AppType;
+    dockerfile?: string;
+    port?: number;
+    replicas?: number;
+    healthCheckPath?: string;
+    jvmMemoryFlags?: boolean;
+  };
+  cluster?: {
+    name?: string;
+    region?: string;
+    namespace?: string;
+    registry?: string;
+    version?: string;
+  };
+  ingress?: {
+    enabled?: boolean;
+  };
+  domain?: {
+    name?: string;
+    subdomain?: string;
+    ssl?: boolean;
+    certificateArn?: string;
+    cloudflareZoneId?: string;
+  };
+  resources?: {
+    requests?: { cpu?: string; memory?: string };
+    limits?: { cpu?: string; memory?: string };
+  };
+  autoscaling?: Partial<NonNullable<AWSConfig['autoscaling']>>;
+  availability?: AvailabilityConfig;
+  env?: Record<string, string | number | boolean>;
+  // secretsmanager:/ssm: references only
+  secrets?: Record<string, string>;
+  externalSecrets?: AWSConfig['externalSecrets'];
+  configMaps?: Record<string, string | number | boolean>;
+  configMapMounts?: Record<string, string>;
+  probes?: AWSConfig['probes'];
+  image?: {
+    tagStrategy?: 'git-sha' | 'timestamp' | 'template';
+    tagTemplate?: string;
+    pushLatest?: boolean;
+  };
+  components?: Record<string, ComponentSettings>;
+  workloads?: Record<string, WorkloadSettings>;
+  hooks?: DeployHooks;
+  gitops?: Omit<GitOpsConfig, 'repoPath'> & {
+    // Relative to ekspressjs.yaml
+    repo?: string;
+  };
+  envFile?: string;
+  secretsFile?: string;
+}
+
+export interface ProjectConfigFile extends ProjectSettings {
+  version?: number;
+  // Applies to every profile: the base is shared and each profile is an overlay
+  manifests?: {
+    format?: ManifestFormat;
+  };
+  profiles?: Record<string, ProjectSettings>;
+}
+
+export interface LoadedProjectConfig {
+  path: string;
+  profile?: string;
+  framework?: AppType;
+  // Absolute path of app.dockerfile
+  dockerfile?: string;
+  config: Partial<AWSConfig>;
+}
+
+// Subset of JSON Schema draft-07 used by ekspressjs.schema.json
+interface SchemaNode {
+  type?: string | string[];
+  enum?: unknown[];
+  pattern?: string;
+  minLength?: number;
+  minimum?: number;
+  maximum?: number;
+  properties?: Record<string, SchemaNode>;
+  required?: string[];
+  additionalProperties?: boolean | SchemaNode;
+  propertyNames?: SchemaNode;
+  items?: SchemaNode;
+  $ref?: string;
+}
+
+function resolveRef(node: SchemaNode): SchemaNode {
+  if (!node.$ref) {
+    return node;
+  }
+  // Local JSON pointer, e.g. #/definitions/probe
+  return node.$ref
+    .replace(/^#\//, '')
+    .split('/')
+    .reduce((target: any, segment) => target[segment], projectConfigSchema);
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === 'number' && actual === 'integer');
+}
+
+function joinPath(parent: string, key: string): string {
+  return parent ? `${parent}.${key}` : key;
+}
+
+function validateNode(value: unknown, schemaNode: SchemaNode, at: string, errors: string[]): void {
+  const node = resolveRef(schemaNode);
+  const label = at || 'ekspressjs.yaml';
+
+  if (node.type) {
+    const types = Array.isArray(node.type) ? node.type : [node.type];
+    if (!types.some(type => matchesType(value, type))) {
+      errors.push(`${label} must be ${types.map(type => (type === 'integer' ? 'an integer' : `a ${type}`)).join(' or ')}`);
+      return;
+    }
+  }
+
+  if (node.enum && !node.enum.includes(value)) {
+    errors.push(`${label} must be one of: ${node.enum.join(', ')}`);
+    return;
+  }
+
+  if (typeof value === 'string') {
+    if (node.minLength !== undefined && value.length < node.minLength) {
+      errors.push(`${label} must not be empty`);
+    } else if (node.pattern && !new RegExp(node.pattern).test(value)) {
+      errors.push(`${label} has an invalid format: "${value}"`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (node.minimum !== undefined && value < node.minimum) {
+      errors.push(`${label} must be >= ${node.minimum}`);
+    }
+    if (node.maximum !== undefined && value > node.maximum) {
+      errors.push(`${label} must be <= ${node.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value) && node.items) {
+    value.forEach((item, index) => validateNode(item, node.items!, `${label}[${index}]`, errors));
+  }
+
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+    for (const key of node.required || []) {
+      if (record[key] === undefined) {
+        errors.push(`${joinPath(at, key)} is required`);
+      }
+    }
+    for (const [key, child] of Object.entries(record)) {
+      const childPath = joinPath(at, key);
+      if (node.propertyNames?.pattern && !new RegExp(node.propertyNames.pattern).test(key)) {
+        errors.push(`${childPath} is not a valid name`);
+        continue;
+      }
+      const childSchema = node.properties?.[key];
+      if (childSchema) {
+        validateNode(child, childSchema, childPath, errors);
+      } else if (node.additionalProperties === false) {
+        errors.push(`${childPath} is not a known setting`);
+      } else if (node.additionalProperties && typeof node.additionalProperties === 'object') {
+        validateNode(child, node.additionalProperties, childPath, errors);
+      }
+    }
+  }
+}
+
+function validateProbes(probes: AWSConfig['probes'], at: string, errors: string[]): void {
+  for (const [name, probe] of Object.entries(probes || {})) {
+    if (probe?.path && probe.command) {
+      errors.push(`${at}.${name}.path and command cannot be combined`);
+    }
+  }
+}
+
+function validateAvailability(
+  availability: AvailabilityConfig | undefined,
+  replicas: number,
+  autoscaling: { enabled?: boolean } | undefined,
+  at: string,
+  errors: string[]
+): void {
+  if (availability?.minAvailable !== undefined && availability.maxUnavailable !== undefined) {
+    errors.push(`${at}.minAvailable and maxUnavailable cannot be combined`);
+  }
+  // With autoscaling the replica count moves, so only a fixed one is checked
+  const fixedReplicas = autoscaling && autoscaling.enabled !== false ? undefined : replicas;
+  if (typeof availability?.minAvailable === 'number' && fixedReplicas !== undefined && availability.minAvailable >= fixedReplicas) {
+    errors.push(`${at}.minAvailable must be lower than the ${fixedReplicas} replicas, or no node running them could be drained`);
+  }
+}
+
+// Workloads and hooks run a component's image in a multi-service app, and the app's otherwise
+function validateImageComponent(file: ProjectSettings, component: string | undefined, at: string, errors: string[]): void {
+  const hasComponents = Object.keys(file.components || {}).length > 0;
+  if (hasComponents && !component) {
+    errors.push(`${at}.component is required: it names the component whose image it runs`);
+  } else if (component && !file.components?.[component]) {
+    errors.push(`${at}.component refers to unknown component ${component}`);
+  }
+}
+
+// Rules that span several fields and cannot be expressed in the schema itself
+function validateRelations(file: ProjectSettings, errors: string[]): void {
+  if (file.domain && !file.domain.name) {
+    errors.push('domain.name is required');
+  }
+
+  if (file.app?.framework && file.app.dockerfile) {
+    errors.push('app.framework and app.dockerfile cannot be combined: a custom Dockerfile is built as-is');
+  }
+
+  const autoscaling = file.autoscaling;
+  if (autoscaling?.minReplicas !== undefined && autoscaling.maxReplicas !== undefined &&
+      autoscaling.maxReplicas < autoscaling.minReplicas) {
+    errors.push('autoscaling.maxReplicas must be >= minReplicas');
+  }
+
+  if (file.image?.tagStrategy === 'template' && !file.image.tagTemplate) {
+    errors.push('image.tagTemplate is required when image.tagStrategy is template');
+  }
+  if (file.image?.tagTemplate && file.image.tagStrategy && file.image.tagStrategy !== 'template') {
+    errors.push('image.tagTemplate is only used when image.tagStrategy is template');
+  }
+
+  validateProbes(file.probes, 'probes', errors);
+  validateAvailability(file.availability, file.app?.replicas ?? 2, file.autoscaling, 'availability', errors);
+
+  for (const key of Object.keys(file.configMapMounts || {})) {
+    if (!file.configMaps || !(key in file.configMaps)) {
+      errors.push(`configMapMounts.${key} has no matching key in configMaps`);
+    }
+  }
+
+  const components = Object.entries(file.components || {});
+  if (components.length > 0 && (file.app?.framework || file.app?.dockerfile)) {
+    errors.push('components cannot be combined with app.framework or app.dockerfile: each component sets its own');
+  }
+  for (const [name, component] of components) {
+    if (!component.framework && !component.dockerfile) {
+      errors.push(`components.${name} needs a framework or a dockerfile`);
+    } else if (component.framework && component.dockerfile) {
+      errors.push(`components.${name}.framework and dockerfile cannot be combined: a custom Dockerfile is built as-is`);
+    }
+    const componentAutoscaling = component.autoscaling;
+    if (componentAutoscaling?.minReplicas !== undefined && componentAutoscaling.maxReplicas !== undefined &&
+        componentAutoscaling.maxReplicas < componentAutoscaling.minReplicas) {
+      errors.push(`components.${name}.autoscaling.maxReplicas must be >= minReplicas`);
+    }
+    validateProbes(component.probes, `components.${name}.probes`, errors);
+    validateAvailability(
+      { ...file.availability, ...component.availability },
+      component.replicas ?? file.app?.replicas ?? 2,
+      component.autoscaling,
+      `components.${name}.availability`,
+      errors
+    );
+  }
+  if (components.length > 0) {
+    try {
+      orderComponents(components.map(([name, component]) => ({ name, dependsOn: component.dependsOn } as ComponentConfig)));
+    } catch (error: any) {
+      errors.push(error.message);
+    }
+  }
+
+  for (const [name, workload] of Object.entries(file.workloads || {})) {
+    const at = `workloads.${name}`;
+    if (workload.command.length === 0) {
+      errors.push(`${at}.command must not be empty`);
+    }
+    if (file.components?.[name]) {
+      errors.push(`${at} has the same name as a component`);
+    }
+    if (name === PRE_DEPLOY_HOOK_NAME && file.hooks?.preDeploy) {
+      errors.push(`${at} has the same name as the pre-deploy hook Job`);
+    }
+    validateImageComponent(file, workload.component, at, errors);
+
+    if (workload.kind === 'cron') {
+      if (!workload.schedule) {
+        errors.push(`${at}.schedule is required for cron workloads`);
+      }
+      for (const key of ['replicas', 'probes'] as const) {
+        if (workload[key] !== undefined) {
+          errors.push(`${at}.${key} does not apply to cron workloads`);
+        }
+      }
+    } else {
+      for (const key of ['schedule', 'concurrencyPolicy', 'successfulJobsHistoryLimit', 'failedJobsHistoryLimit'] as const) {
+        if (workload[key] !== undefined) {
+          errors.push(`${at}.${key} only applies to cron workloads`);
+        }
+      }
+      validateProbes(workload.probes, `${at}.probes`, errors);
+      for (const [probeName, probe] of Object.entries(workload.probes || {})) {
+        if (probe && !probe.command) {
+          errors.push(`${at}.probes.${probeName}.command is required: workers do not serve HTTP`);
+        }
+      }
+    }
+  }
+  const preDeploy = file.hooks?.preDeploy;
+  if (preDeploy) {
+    if (preDeploy.command.length === 0) {
+      errors.push('hooks.preDeploy.command must not be empty');
+    }
+    validateImageComponent(file, preDeploy.component, 'hooks.preDeploy', errors);
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeOf(value) === 'object';
+}
+
+function deepMerge(base: Record<string, any>, overlay: Record<string, any>): Record<string, any> {
+  const merged: Record<string, any> = { ...base };
+  for (const [key, value] of Object.entries(overlay)) {
+    merged[key] = isPlainObject(value) && isPlainObject(merged[key])
+      ? deepMerge(merged[key], value)
+      : value;
+  }
+  return merged;
+}
+
+/**
+ * Settings for a profile: the top-level settings with profiles.<name> merged
+ * over them. Objects merge key by key, lists and scalars are replaced.
+ */
+function resolveProfileSettings(file: ProjectConfigFile, profile?: string): ProjectSettings {
+  const { version, manifests, profiles, ...base } = file;
+  if (!profile || !profiles?.[profile]) {
+    return base;
+  }
+  return deepMerge(base, profiles[profile]) as ProjectSettings;
+}
+
+/**
+ * Validate a parsed ekspressjs.yaml document for the given profile (or the base
+ * settings). Returns readable messages such as
+ * `autoscaling.maxReplicas must be >= minReplicas`; an empty list means valid.
+ */
+export function validateProjectConfig(document: unknown, profile?: string): string[] {
+  const errors: string[] = [];
+  validateNode(document, projectConfigSchema as SchemaNode, '', errors);
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  const file = document as ProjectConfigFile;
+  if (profile && !file.profiles?.[profile]) {
+    const available = Object.keys(file.profiles || {});
+    return [`profiles.${profile} is not defined (available: ${available.join(', ') || 'none'})`];
+  }
+
+  const settings = resolveProfileSettings(file, profile);
+  validateRelations(settings, errors);
+  // kubectl apply -k applies every component at once, so nothing can wait for a dependency
+  if (file.manifests?.format === 'kustomize') {
+    for (const [name, component] of Object.entries(settings.components || {})) {
+      if (component.dependsOn?.length) {
+        errors.push(`components.${name}.dependsOn cannot be used with manifests.format kustomize`);
+      }
+    }
+  }
+  return profile ? errors.map(error => `[${profile}] ${error}`) : errors;
+}
+
+function readEnvFileSetting(name: string, file: string, baseDir: string): Record<string, string> {
+  const filePath = path.resolve(baseDir, file);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`${name}: file "${file}" not found`);
+  }
+  return parseEnvFile(fs.readFileSync(filePath, 'utf-8'));
+}
+
+/**
+ * Environment variables and secrets are layered per level rather than merged as
+ * settings, so a profile's envFile overrides the top-level `env` map. Within a
+ * level, values from `env` win over the same keys in envFile.
+ */
+function resolveEnvLayers(file: ProjectConfigFile, profile: string | undefined, baseDir: string) {
+  const layers: ProjectSettings[] = [file];
+  if (profile && file.profiles?.[profile]) {
+    layers.push(file.profiles[profile]);
+  }
+
+  const env: Record<string, string> = {};
+  const secrets: Record<string, string> = {};
+  for (const layer of layers) {
+    if (layer.envFile) {
+      Object.assign(env, readEnvFileSetting('envFile', layer.envFile, baseDir));
+    }
+    for (const [name, value] of Object.entries(layer.env || {})) {
+      env[name] = String(value);
+    }
+    if (layer.secretsFile) {
+      Object.assign(secrets, readEnvFileSetting('secretsFile', layer.secretsFile, baseDir));
+    }
+    Object.assign(secrets, layer.secrets);
+  }
+  return { env, secrets };
+}
+
+function toComponents(file: ProjectSettings, baseDir: string): ComponentConfig[] {
+  return Object.entries(file.components || {}).map(([name, component]) => {
+    const defaults = getFrameworkDefaults(component.framework);
+    const resources = component.resources || file.resources;
+    return {
+      name,
+      appType: component.framework,
+      dockerfile: component.dockerfile ? path.resolve(baseDir, component.dockerfile) : undefined,
+      path: component.path ? path.resolve(baseDir, component.path) : undefined,
+      port: component.port ?? defaults.port,
+      // Unset values follow the app, so a profile can scale every component at once
+      replicas: component.replicas ?? file.app?.replicas ?? 2,
+      resources: resources ? {
+        requests: { cpu: '250m', memory: '256Mi', ...file.resources?.requests, ...component.resources?.requests },
+        limits: { cpu: '500m', memory: '512Mi', ...file.resources?.limits, ...component.resources?.limits },
+      } : undefined,
+      autoscaling: component.autoscaling ? {
+        ...component.autoscaling,
+        enabled: component.autoscaling.enabled !== false,
+        minReplicas: component.autoscaling.minReplicas ?? 2,
+        maxReplicas: component.autoscaling.maxReplicas ?? 10,
+      } : undefined,
+      envVars: component.env
+        ? Object.entries(component.env).map(([envName, value]) => ({ name: envName, value: String(value) }))
+        : undefined,
+      availability: component.availability,
+      healthCheckPath: component.healthCheckPath ?? defaults.healthCheckPath,
+      probes: component.probes,
+      ingressPath: component.ingressPath,
+      dependsOn: component.dependsOn,
+    };
+  });
+}
+
+function toWorkloads(file: ProjectSettings): WorkloadConfig[] {
+  return Object.entries(file.workloads || {}).map(([name, workload]) => ({
+    name,
+    kind: workload.kind,
+    component: workload.component,
+    command: workload.command,
+    replicas: workload.replicas,
+    resources: workload.resources ? {
+      requests: { cpu: '250m', memory: '256Mi', ...file.resources?.requests, ...workload.resources.requests },
+      limits: { cpu: '500m', memory: '512Mi', ...file.resources?.limits, ...workload.resources.limits },
+    } : undefined,
+    envVars: workload.env
+      ? Object.entries(workload.env).map(([envName, value]) => ({ name: envName, value: String(value) }))
+      : undefined,
+    probes: workload.probes,
+    schedule: workload.schedule,
+    concurrencyPolicy: workload.concurrencyPolicy,
+    successfulJobsHistoryLimit: workload.successfulJobsHistoryLimit,
+    failedJobsHistoryLimit: workload.failedJobsHistoryLimit,
+  }));
+}
+
+// The config fields ekspressjs.yaml settings map to, which profiles, flags and the saved config can also set
+const SETTING_KEYS: (keyof AWSConfig)[] = [
+  'appName', 'port', 'replicas', 'healthCheckPath', 'jvmMemoryFlags',
+  'clusterName', 'region', 'namespace', 'imageRegistry', 'kubernetesVersion',
+  'enableIngress', 'domain', 'resources', 'autoscaling', 'availability',
+  'envVars', 'secrets', 'configMaps', 'configMapMounts', 'externalSecrets', 'probes',
+  'components', 'workloads', 'hooks', 'gitops', 'imageTagging',
+];
+
+function toAWSConfig(
+  file: ProjectSettings,
+  env: Record<string, string>,
+  secrets: Record<string, string>,
+  baseDir: string
+): Partial<AWSConfig> {
+  const config: Partial<AWSConfig> = {};
+
+  if (file.app) {
+    config.appName = file.app.name;
+    config.port = file.app.port;
+    config.replicas = file.app.replicas;
+    config.healthCheckPath = file.app.healthCheckPath;
+    config.jvmMemoryFlags = file.app.jvmMemoryFlags;
+  }
+
+  if (file.cluster) {
+    config.clusterName = file.cluster.name;
+    config.region = file.cluster.region;
+    config.namespace = file.cluster.namespace;
+    config.imageRegistry = file.cluster.registry;
+    config.kubernetesVersion = file.cluster.version;
+  }
+
+  if (file.ingress) {
+    config.enableIngress = file.ingress.enabled;
+  }
+
+  if (file.domain) {
+    // The Cloudflare API token is a credential and comes from flags or the environment
+    config.domain = {
+      domain: file.domain.name,
+      subdomain: file.domain.subdomain,
+      enableSSL: file.domain.ssl !== undefined ? file.domain.ssl : true,
+      certificateARN: file.domain.certificateArn,
+      cloudflareZoneId: file.domain.cloudflareZoneId,
+    } as DomainConfig;
+  }
+
+  if (file.resources) {
+    config.resources = {
+      requests: { ...file.resources.requests },
+      limits: { ...file.resources.limits },
+    } as Resources;
+  }
+
+  if (file.autoscaling) {
+    config.autoscaling = {
+      ...file.autoscaling,
+      enabled: file.autoscaling.enabled !== undefined ? file.autoscaling.enabled : true,
+    } as Autoscaling;
+  }
+
+  config.availability = file.availability;
+
+  if (Object.keys(env).length > 0) {
+    config.envVars = Object.entries(env).map(([name, value]) => ({ name, value }));
+  }
+  if (Object.keys(secrets).length > 0) {
+    config.secrets = secrets;
+  }
+
+  if (file.configMaps) {
+    config.configMaps = Object.fromEntries(
+      Object.entries(file.configMaps).map(([key, value]) => [key, String(value)])
+    );
+  }
+  config.configMapMounts = file.configMapMounts;
+  if (file.externalSecrets) {
+    config.externalSecrets = { ...file.externalSecrets, enabled: file.externalSecrets.enabled !== false };
+  }
+  config.probes = file.probes;
+
+  if (file.components && Object.keys(file.components).length > 0) {
+    config.components = toComponents(file, baseDir);
+  }
+  if (file.workloads && Object.keys(file.workloads).length > 0) {
+    config.workloads = toWorkloads(file);
+  }
+  if (file.hooks?.preDeploy) {
+    config.hooks = { preDeploy: { ...file.hooks.preDeploy } };
+  }
+
+  if (file.gitops) {
+    const { repo, ...gitops } = file.gitops;
+    config.gitops = { ...gitops, repoPath: repo ? path.resolve(baseDir, repo) : undefined };
+  }
+
+  if (file.image) {
+    const strategy = file.image.tagStrategy || (file.image.tagTemplate ? 'template' : 'git-sha');
+    config.imageTagging = {
+      strategy,
+      template: file.image.tagTemplate,
+      pushLatest: file.image.pushLatest,
+    };
+  }
+
+  // Drop unset keys so they do not mask values from the saved config during merge
+  for (const key of Object.keys(config) as (keyof AWSConfig)[]) {
+    if (config[key] === undefined) {
+      delete config[key];
+    }
+  }
+
+  return config;
+}
+
+export function findProjectConfigFile(options: any = {}): string | null {
+  const explicit = options.config || process.env.EKSPRESSJS_CONFIG;
+  if (explicit) {
+    const explicitPath = path.resolve(process.cwd(), explicit);
+    if (!fs.existsSync(explicitPath)) {
+      throw new Error(`Project config file not found: ${explicit}`);
+    }
+    return explicitPath;
+  }
+
+  for (const fileName of PROJECT_CONFIG_FILES) {
+    const candidate = path.join(getAppDir(), fileName);
+    if (fs.existsSync(candidate)) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+function readProjectConfigDocument(filePath: string): unknown {
+  let document: unknown;
+  try {
+    document = yaml.load(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error: any) {
+    throw new Error(`Failed to parse ${path.basename(filePath)}: ${error.message}`);
+  }
+  // An empty file is treated as an empty config
+  return document === undefined || document === null ? {} : document;
+}
+
+function formatErrors(filePath: string, errors: string[]): string {
+  return `Invalid ${path.basename(filePath)}:\n` + errors.map(error => `  - ${error}`).join('\n');
+}
+
+/**
+ * Load and validate ekspressjs.yaml (or the file given by --config / EKSPRESSJS_CONFIG)
+ * for the active profile. Returns null when the project has no config file; throws
+ * on any validation error.
+ */
+export function loadProjectConfig(options: any = {}): LoadedProjectConfig | null {
+  const filePath = findProjectConfigFile(options);
+  if (!filePath) {
+    return null;
+  }
+
+  const profile = getActiveProfile();
+  const document = readProjectConfigDocument(filePath);
+  const errors = validateProjectConfig(document, profile);
+  if (errors.length > 0) {
+    throw new Error(formatErrors(filePath, errors));
+  }
+
+  const file = document as ProjectConfigFile;
+  const baseDir = path.dirname(filePath);
+  const settings = resolveProfileSettings(file, profile);
+  const { env, secrets } = resolveEnvLayers(file, profile, baseDir);
+  const config = toAWSConfig(settings, env, secrets, baseDir);
+  if (file.manifests?.format) {
+    config.manifestFormat = file.manifests.format;
+  }
+  if (file.manifests?.format === 'kustomize') {
+    // Every setting of the base comes from the top level, so it is the same for all profiles
+    const baseLayers = resolveEnvLayers(file, undefined, baseDir);
+    const base = toAWSConfig(resolveProfileSettings(file), baseLayers.env, baseLayers.secrets, baseDir);
+    config.kustomizeBase = Object.fromEntries(SETTING_KEYS.map(key => [key, base[key]]));
+  }
+
+  return {
+    path: filePath,
+    profile,
+    framework: settings.app?.framework,
+    dockerfile: settings.app?.dockerfile ? path.resolve(baseDir, settings.app.dockerfile) : undefined,
+    config,
+  };
+}
+
+/**
+ * Validate the base settings and every profile, for `ekspressjs validate`.
+ * Returns the file path and profile names; throws listing every error.
+ */
+export function checkProjectConfig(options: any = {}): { path: string; profiles: string[] } | null {
+  const filePath = findProjectConfigFile(options);
+  if (!filePath) {
+    return null;
+  }
+
+  const document = readProjectConfigDocument(filePath);
+  const errors = validateProjectConfig(document);
+  const profiles = errors.length === 0 ? Object.keys((document as ProjectConfigFile).profiles || {}) : [];
+  for (const profile of profiles) {
+    errors.push(...validateProjectConfig(document, profile));
+  }
+  if (errors.length > 0) {
+    throw new Error(formatErrors(filePath, errors));
+  }
+
+  return { path: filePath, profiles };
+}
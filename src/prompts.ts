@@ -3,9 +3,13 @@ import chalk from 'chalk';
 import { execSync } from 'child_process';
 import * as fs from 'fs-extra';
 import * as path from 'path';
-import { DomainConfig, Resources, Autoscaling, EnvVar } from './types';
+import { AppType, DomainConfig, Resources, Autoscaling, AvailabilityConfig, EnvVar, ImageTagConfig, Probes, ExternalSecretsConfig, ComponentConfig, WorkloadConfig, DeployHooks, DeployConfig, ManifestFormat, GitOpsConfig } from './types';
 import { checkClusterExists, listClusters } from './aws-utils';
-import { detectAWSCredentials } from './utils';
+import { detectAWSCredentials, parseEnvFile, getFrameworkDefaults } from './utils';
+import { resolveConfigOverrides, isNonInteractive, buildNonInteractiveConfig, mergeConfig } from './config-overrides';
+import { loadProjectConfig } from './project-config';
+import { getWorkspaceDir, getAppDir } from './profiles';
+import { protectConfigSecrets, resolveConfigSecrets, hasPlaintextSecrets } from './secret-store';
 
 export interface AWSConfig {
   region: string;
@@ -23,30 +27,94 @@ export interface AWSConfig {
   autoscaling?: Autoscaling;
   envVars?: EnvVar[];
   secrets?: Record<string, string>;
+  externalSecrets?: ExternalSecretsConfig;
   configMaps?: Record<string, string>;
+  configMapMounts?: Record<string, string>;
   healthCheckPath?: string;
+  probes?: Probes;
+  jvmMemoryFlags?: boolean;
+  imageTagging?: ImageTagConfig;
+  // From ekspressjs.yaml only, never saved
+  availability?: AvailabilityConfig;
+  components?: ComponentConfig[];
+  workloads?: WorkloadConfig[];
+  hooks?: DeployHooks;
+  kubernetesVersion?: string;
+  strictValidation?: boolean;
+  manifestFormat?: ManifestFormat;
+  kustomizeBase?: Partial<DeployConfig>;
+  // From ekspressjs.yaml or --gitops, never saved
+  gitops?: GitOpsConfig;
+  // Resolved at deploy time, never saved
+  imageTag?: string;
 }
 
-const CONFIG_FILE_NAME = '.ekspressjs-config.json';
+export const CONFIG_FILE_NAME = '.ekspressjs-config.json';
 
 function getConfigFilePath(): string {
-  const dir = path.join(process.cwd(), 'ekspressjs');
-  return path.join(dir, CONFIG_FILE_NAME);
+  return path.join(getWorkspaceDir(), CONFIG_FILE_NAME);
 }
 
-export function loadSavedConfig(): Partial<AWSConfig> | null {
+/**
+ * Load the saved config. Secret values and the Cloudflare API token are stored
+ * as references (OS keychain or encrypted vault) and returned as such; commands
+ * that need the values resolve them with resolveConfigSecrets.
+ */
+export async function loadSavedConfig(): Promise<Partial<AWSConfig> | null> {
+  let config: Partial<AWSConfig> | null = null;
   try {
     const configPath = getConfigFilePath();
     if (fs.existsSync(configPath)) {
-      const config = fs.readJsonSync(configPath);
-      return config;
+      config = fs.readJsonSync(configPath);
     }
   } catch (error) {
   }
-  return null;
+  if (!config) {
+    return null;
+  }
+
+  if (hasPlaintextSecrets(config)) {
+    console.log(chalk.yellow(`⚠️  ${CONFIG_FILE_NAME} contains plaintext secrets. Run: npx ekspressjs migrate-secrets`));
+  }
+  return config;
+}
+
+// Precedence: flags > EKSPRESSJS_* environment variables > ekspressjs.yaml > saved config
+function resolveLayeredOverrides(options: any) {
+  const projectConfig = loadProjectConfig(options);
+  const overrides = mergeConfig(projectConfig?.config || {}, resolveConfigOverrides(options));
+  return { projectConfig, overrides };
+}
+
+/**
+ * Saved config with ekspressjs.yaml and EKSPRESSJS_* variables layered on top,
+ * for commands that operate on an existing deployment (delete, fix-dns, diagnose).
+ * Secret values stay references.
+ */
+export async function loadResolvedConfig(options: any = {}): Promise<Partial<AWSConfig> | null> {
+  const { overrides } = resolveLayeredOverrides(options);
+  const saved = await loadSavedConfig();
+  if (!saved && Object.keys(overrides).length === 0) {
+    return null;
+  }
+  return mergeConfig(saved || {}, overrides);
+}
+
+/**
+ * Config for --plan, from the same layers as a deploy. Never prompts, calls AWS,
+ * unlocks the secret store or saves anything; fails like non-interactive mode when
+ * a setting is missing.
+ */
+export async function loadPlanConfig(options: any, appType?: AppType): Promise<AWSConfig> {
+  const { projectConfig, overrides } = resolveLayeredOverrides(options);
+  const loadedConfig = await loadSavedConfig();
+  if (projectConfig) {
+    console.log(chalk.green(`✓ Loaded project configuration from ${path.basename(projectConfig.path)}\n`));
+  }
+  return buildNonInteractiveConfig(loadedConfig, overrides, getFrameworkDefaults(appType), false);
 }
 
-function saveConfig(config: AWSConfig): void {
+async function saveConfig(config: AWSConfig): Promise<void> {
   try {
     const configPath = getConfigFilePath();
     const dir = path.dirname(configPath);
@@ -66,10 +134,28 @@ function saveConfig(config: AWSConfig): void {
       autoscaling: config.autoscaling,
       envVars: config.envVars,
       secrets: config.secrets,
+      externalSecrets: config.externalSecrets,
       configMaps: config.configMaps,
+      configMapMounts: config.configMapMounts,
       healthCheckPath: config.healthCheckPath,
+      probes: config.probes,
+      jvmMemoryFlags: config.jvmMemoryFlags,
+      imageTagging: config.imageTagging,
     };
-    fs.writeJsonSync(configPath, configToSave, { spaces: 2 });
+
+    let protectedConfig: Partial<AWSConfig>;
+    try {
+      protectedConfig = await protectConfigSecrets(configToSave);
+    } catch (error: any) {
+      // Never fall back to writing secrets in plaintext
+      console.log(chalk.yellow(`⚠️  Could not store secrets securely (${error.message}); they were not saved`));
+      protectedConfig = { ...configToSave, secrets: undefined };
+      if (protectedConfig.domain) {
+        const { cloudflareApiToken, ...domain } = protectedConfig.domain;
+        protectedConfig.domain = domain as DomainConfig;
+      }
+    }
+    fs.writeJsonSync(configPath, protectedConfig, { spaces: 2 });
   } catch (error) {
   }
 }
@@ -80,17 +166,44 @@ function validateSavedConfig(config: Partial<AWSConfig>): boolean {
     config.clusterName &&
     config.appName &&
     config.accessKeyId &&
-    config.port !== undefined &&
-    config.replicas !== undefined
+    // Components carry their own port and replicas
+    (config.components?.length || (config.port !== undefined && config.replicas !== undefined))
   );
 }
 
-export async function promptAWSConfig(options: any): Promise<AWSConfig> {
-  const savedConfig = loadSavedConfig();
+export async function promptAWSConfig(options: any, appType?: AppType): Promise<AWSConfig> {
+  const { projectConfig, overrides } = resolveLayeredOverrides(options);
+  const storedConfig = await loadSavedConfig();
+  const loadedConfig = storedConfig && await resolveConfigSecrets(storedConfig);
+  const frameworkDefaults = getFrameworkDefaults(appType);
+
+  if (projectConfig) {
+    console.log(chalk.green(`✓ Loaded project configuration from ${path.basename(projectConfig.path)}\n`));
+  }
+
+  if (isNonInteractive(options)) {
+    console.log(chalk.cyan('   Non-interactive mode: using flags, EKSPRESSJS_* variables, ekspressjs.yaml and saved configuration\n'));
+    return buildNonInteractiveConfig(loadedConfig, overrides, frameworkDefaults);
+  }
+
+  const savedConfig = loadedConfig || Object.keys(overrides).length > 0
+    ? mergeConfig(loadedConfig || {}, overrides)
+    : null;
   const isInteractive = process.stdin.isTTY;
 
+  // ekspressjs.yaml never holds credentials, so fall back to the AWS CLI access key
+  if (savedConfig && !savedConfig.accessKeyId) {
+    savedConfig.accessKeyId = detectAWSCredentials()?.accessKeyId;
+  }
+
   if (savedConfig && validateSavedConfig(savedConfig)) {
-    console.log(chalk.green('✓ Found saved configuration in .ekspressjs-config.json\n'));
+    if (loadedConfig) {
+      console.log(chalk.green(`✓ Found saved configuration in ${path.relative(process.cwd(), getConfigFilePath())}\n`));
+    } else if (projectConfig) {
+      console.log(chalk.green(`✓ Configuration provided by ${path.basename(projectConfig.path)}\n`));
+    } else {
+      console.log(chalk.green('✓ Configuration provided by flags/environment variables\n'));
+    }
 
     let useSaved = true;
     
@@ -114,7 +227,9 @@ export async function promptAWSConfig(options: any): Promise<AWSConfig> {
       const detectedCreds = detectAWSCredentials();
       let secretAccessKey = '';
 
-      if (detectedCreds && detectedCreds.secretAccessKey) {
+      if (savedConfig.secretAccessKey) {
+        secretAccessKey = savedConfig.secretAccessKey;
+      } else if (detectedCreds && detectedCreds.secretAccessKey) {
         if (isInteractive) {
         const useDetected = await inquirer.prompt([
           {
@@ -161,12 +276,29 @@ export async function promptAWSConfig(options: any): Promise<AWSConfig> {
         }
       }
 
+      // Domains from ekspressjs.yaml carry no Cloudflare token
+      if (savedConfig.domain && !savedConfig.domain.cloudflareApiToken) {
+        if (!isInteractive) {
+          throw new Error('Cloudflare API token not found. Set EKSPRESSJS_CLOUDFLARE_API_TOKEN.');
+        }
+        const tokenAnswer = await inquirer.prompt([
+          {
+            type: 'password',
+            name: 'cloudflareApiToken',
+            message: 'Cloudflare API Token:',
+            mask: '*',
+            validate: (input: string) => input.length > 0 || 'Cloudflare API Token is required',
+          },
+        ]);
+        savedConfig.domain = { ...savedConfig.domain, cloudflareApiToken: tokenAnswer.cloudflareApiToken };
+      }
+
       const config: AWSConfig = {
         region: savedConfig.region!,
         clusterName: savedConfig.clusterName!,
-        appName: options.name || savedConfig.appName!,
-        port: options.port ? parseInt(options.port) : savedConfig.port!,
-        replicas: options.replicas ? parseInt(options.replicas) : savedConfig.replicas!,
+        appName: savedConfig.appName!,
+        port: savedConfig.port ?? frameworkDefaults.port,
+        replicas: savedConfig.replicas ?? 2,
         accessKeyId: savedConfig.accessKeyId!,
         secretAccessKey: secretAccessKey,
         imageRegistry: savedConfig.imageRegistry,
@@ -177,8 +309,22 @@ export async function promptAWSConfig(options: any): Promise<AWSConfig> {
         autoscaling: savedConfig.autoscaling,
         envVars: savedConfig.envVars,
         secrets: savedConfig.secrets,
+        externalSecrets: savedConfig.externalSecrets,
         configMaps: savedConfig.configMaps,
-        healthCheckPath: savedConfig.healthCheckPath || '/',
+        configMapMounts: savedConfig.configMapMounts,
+        healthCheckPath: savedConfig.healthCheckPath || frameworkDefaults.healthCheckPath,
+        probes: savedConfig.probes,
+        jvmMemoryFlags: savedConfig.jvmMemoryFlags,
+        imageTagging: savedConfig.imageTagging,
+        availability: savedConfig.availability,
+        components: savedConfig.components,
+        workloads: savedConfig.workloads,
+        hooks: savedConfig.hooks,
+        kubernetesVersion: savedConfig.kubernetesVersion,
+        strictValidation: savedConfig.strictValidation,
+        manifestFormat: savedConfig.manifestFormat,
+        kustomizeBase: savedConfig.kustomizeBase,
+        gitops: savedConfig.gitops,
       };
 
       console.log(chalk.green('✓ Configuration loaded from file\n'));
@@ -463,7 +609,7 @@ export async function promptAWSConfig(options: any): Promise<AWSConfig> {
       type: 'input',
       name: 'port',
       message: 'Application Port:',
-      default: options.port || (savedConfig?.port ? String(savedConfig.port) : '3000'),
+      default: options.port || (savedConfig?.port ? String(savedConfig.port) : String(frameworkDefaults.port)),
       validate: (input: string) => {
         const port = parseInt(input);
         return (!isNaN(port) && port > 0 && port < 65536) || 'Invalid port number';
@@ -662,27 +808,161 @@ export async function promptAWSConfig(options: any): Promise<AWSConfig> {
       message: 'Maximum Replicas:',
       when: (answers: any) => answers.enableAutoscaling,
       default: '10',
-      validate: (input: string) => {
+      validate: (input: string, answers: any) => {
         const val = parseInt(input);
-        return (!isNaN(val) && val > 0) || 'Invalid value';
+        if (isNaN(val) || val <= 0) {
+          return 'Invalid value';
+        }
+        return val >= parseInt(answers.minReplicas) || 'Maximum replicas must be >= minimum replicas';
       },
     },
+    {
+      type: 'checkbox',
+      name: 'scaleMetrics',
+      message: 'Scale on which metrics?',
+      when: (answers: any) => answers.enableAutoscaling,
+      choices: [
+        { name: 'CPU utilization', value: 'cpu', checked: true },
+        { name: 'Memory utilization', value: 'memory' },
+        { name: 'Custom/external metric (e.g. ALB requests per second)', value: 'custom' },
+      ],
+      validate: (input: string[]) => input.length > 0 || 'Select at least one metric',
+    },
     {
       type: 'input',
       name: 'targetCPU',
       message: 'Target CPU Utilization (%):',
-      when: (answers: any) => answers.enableAutoscaling,
+      when: (answers: any) => answers.enableAutoscaling && answers.scaleMetrics.includes('cpu'),
       default: '70',
       validate: (input: string) => {
         const val = parseInt(input);
         return (!isNaN(val) && val > 0 && val <= 100) || 'Invalid percentage';
       },
     },
+    {
+      type: 'input',
+      name: 'targetMemory',
+      message: 'Target Memory Utilization (%):',
+      when: (answers: any) => answers.enableAutoscaling && answers.scaleMetrics.includes('memory'),
+      default: '80',
+      validate: (input: string) => {
+        const val = parseInt(input);
+        return (!isNaN(val) && val > 0 && val <= 100) || 'Invalid percentage';
+      },
+    },
+    {
+      type: 'list',
+      name: 'customMetricType',
+      message: 'Custom metric source:',
+      when: (answers: any) => answers.enableAutoscaling && answers.scaleMetrics.includes('custom'),
+      choices: [
+        { name: 'External (e.g. CloudWatch ALB RequestCountPerTarget)', value: 'External' },
+        { name: 'Pods (per-pod metric from a metrics adapter)', value: 'Pods' },
+      ],
+    },
+    {
+      type: 'input',
+      name: 'customMetricName',
+      message: 'Metric name:',
+      when: (answers: any) => answers.enableAutoscaling && answers.scaleMetrics.includes('custom'),
+      validate: (input: string) => input.trim().length > 0 || 'Metric name is required',
+    },
+    {
+      type: 'input',
+      name: 'customMetricTarget',
+      message: 'Target average value per pod (e.g. 100):',
+      when: (answers: any) => answers.enableAutoscaling && answers.scaleMetrics.includes('custom'),
+      default: '100',
+      validate: (input: string) => input.trim().length > 0 || 'Target value is required',
+    },
+    {
+      type: 'input',
+      name: 'customMetricSelector',
+      message: 'Metric selector labels (key=value, comma separated, leave empty for none):',
+      when: (answers: any) => answers.enableAutoscaling && answers.scaleMetrics.includes('custom'),
+      default: '',
+    },
+    {
+      type: 'confirm',
+      name: 'configureBehavior',
+      message: 'Configure scale-up/scale-down behavior?',
+      when: (answers: any) => answers.enableAutoscaling,
+      default: false,
+    },
+    {
+      type: 'input',
+      name: 'scaleUpStabilization',
+      message: 'Scale-up stabilization window (seconds):',
+      when: (answers: any) => answers.enableAutoscaling && answers.configureBehavior,
+      default: '0',
+      validate: (input: string) => {
+        const val = parseInt(input);
+        return (!isNaN(val) && val >= 0 && val <= 3600) || 'Must be between 0 and 3600';
+      },
+    },
+    {
+      type: 'input',
+      name: 'scaleUpPods',
+      message: 'Max pods added per minute:',
+      when: (answers: any) => answers.enableAutoscaling && answers.configureBehavior,
+      default: '4',
+      validate: (input: string) => {
+        const val = parseInt(input);
+        return (!isNaN(val) && val > 0) || 'Invalid value';
+      },
+    },
+    {
+      type: 'input',
+      name: 'scaleDownStabilization',
+      message: 'Scale-down stabilization window (seconds):',
+      when: (answers: any) => answers.enableAutoscaling && answers.configureBehavior,
+      default: '300',
+      validate: (input: string) => {
+        const val = parseInt(input);
+        return (!isNaN(val) && val >= 0 && val <= 3600) || 'Must be between 0 and 3600';
+      },
+    },
+    {
+      type: 'input',
+      name: 'scaleDownPercent',
+      message: 'Max % of pods removed per minute:',
+      when: (answers: any) => answers.enableAutoscaling && answers.configureBehavior,
+      default: '50',
+      validate: (input: string) => {
+        const val = parseInt(input);
+        return (!isNaN(val) && val > 0 && val <= 100) || 'Invalid percentage';
+      },
+    },
     {
       type: 'input',
       name: 'healthCheckPath',
       message: 'Health Check Path:',
-      default: '/',
+      default: frameworkDefaults.healthCheckPath,
+    },
+    {
+      type: 'list',
+      name: 'imageTagStrategy',
+      message: 'Image tag strategy:',
+      default: savedConfig?.imageTagging?.strategy || 'git-sha',
+      choices: [
+        { name: 'Git commit SHA (e.g. 3f2a9c1)', value: 'git-sha' },
+        { name: 'Timestamp (e.g. 20240101123000)', value: 'timestamp' },
+        { name: 'Custom template (e.g. {appName}-{gitSha}-{date})', value: 'template' },
+      ],
+    },
+    {
+      type: 'input',
+      name: 'imageTagTemplate',
+      message: 'Tag template ({appName}, {gitSha}, {date}, {timestamp}):',
+      when: (answers: any) => answers.imageTagStrategy === 'template',
+      default: savedConfig?.imageTagging?.template || '{appName}-{gitSha}-{date}',
+      validate: (input: string) => input.trim().length > 0 || 'Template is required',
+    },
+    {
+      type: 'confirm',
+      name: 'pushLatest',
+      message: 'Also push a "latest" tag alias?',
+      default: savedConfig?.imageTagging?.pushLatest || false,
     },
   ]);
 
@@ -697,7 +977,18 @@ export async function promptAWSConfig(options: any): Promise<AWSConfig> {
     imageRegistry: basicAnswers.imageRegistry || undefined,
     namespace: basicAnswers.namespace || 'default',
     enableIngress: basicAnswers.enableIngress,
-    healthCheckPath: advancedAnswers.healthCheckPath || '/',
+    healthCheckPath: advancedAnswers.healthCheckPath || frameworkDefaults.healthCheckPath,
+    imageTagging: {
+      strategy: advancedAnswers.imageTagStrategy,
+      template: advancedAnswers.imageTagTemplate?.trim() || undefined,
+      pushLatest: advancedAnswers.pushLatest,
+    },
+    // ConfigMaps are edited in the config file, keep them across re-prompts
+    configMaps: savedConfig?.configMaps,
+    configMapMounts: savedConfig?.configMapMounts,
+    externalSecrets: savedConfig?.externalSecrets,
+    probes: savedConfig?.probes,
+    jvmMemoryFlags: savedConfig?.jvmMemoryFlags,
   };
 
   if (domainAnswers.configureDomain) {
@@ -725,21 +1016,62 @@ export async function promptAWSConfig(options: any): Promise<AWSConfig> {
   }
 
   if (advancedAnswers.enableAutoscaling) {
+    const scaleMetrics: string[] = advancedAnswers.scaleMetrics || [];
     config.autoscaling = {
       enabled: true,
       minReplicas: parseInt(advancedAnswers.minReplicas),
       maxReplicas: parseInt(advancedAnswers.maxReplicas),
-      targetCPU: parseInt(advancedAnswers.targetCPU),
+      targetCPU: scaleMetrics.includes('cpu') ? parseInt(advancedAnswers.targetCPU) : undefined,
+      targetMemory: scaleMetrics.includes('memory') ? parseInt(advancedAnswers.targetMemory) : undefined,
     };
+
+    if (scaleMetrics.includes('custom')) {
+      const selector = parseKeyValueList(advancedAnswers.customMetricSelector || '');
+      config.autoscaling.customMetrics = [
+        {
+          type: advancedAnswers.customMetricType,
+          name: advancedAnswers.customMetricName.trim(),
+          targetType: 'AverageValue',
+          targetValue: advancedAnswers.customMetricTarget.trim(),
+          selector: Object.keys(selector).length > 0 ? selector : undefined,
+        },
+      ];
+    }
+
+    if (advancedAnswers.configureBehavior) {
+      config.autoscaling.behavior = {
+        scaleUp: {
+          stabilizationWindowSeconds: parseInt(advancedAnswers.scaleUpStabilization),
+          policies: [{ type: 'Pods', value: parseInt(advancedAnswers.scaleUpPods), periodSeconds: 60 }],
+        },
+        scaleDown: {
+          stabilizationWindowSeconds: parseInt(advancedAnswers.scaleDownStabilization),
+          policies: [{ type: 'Percent', value: parseInt(advancedAnswers.scaleDownPercent), periodSeconds: 60 }],
+        },
+      };
+    }
   }
 
   // Handle environment variables configuration
   await configureEnvironmentVariables(config);
 
-  saveConfig(config);
-  console.log(chalk.green('\n✓ Configuration saved to .ekspressjs-config.json\n'));
+  const finalConfig = mergeConfig(config, overrides) as AWSConfig;
 
-  return config;
+  await saveConfig(finalConfig);
+  console.log(chalk.green(`\n✓ Configuration saved to ${path.relative(process.cwd(), getConfigFilePath())}\n`));
+
+  return finalConfig;
+}
+
+function parseKeyValueList(input: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const pair of input.split(',')) {
+    const [key, ...valueParts] = pair.split('=');
+    if (key && key.trim() && valueParts.length > 0) {
+      result[key.trim()] = valueParts.join('=').trim();
+    }
+  }
+  return result;
 }
 
 async function configureEnvironmentVariables(config: AWSConfig): Promise<void> {
@@ -765,7 +1097,7 @@ async function configureEnvironmentVariables(config: AWSConfig): Promise<void> {
     let envContent = '';
 
     for (const envFile of envFiles) {
-      const filePath = path.join(process.cwd(), envFile);
+      const filePath = path.join(getAppDir(), envFile);
       if (await fs.pathExists(filePath)) {
         envFilePath = filePath;
         envContent = await fs.readFile(filePath, 'utf-8');
@@ -777,32 +1109,7 @@ async function configureEnvironmentVariables(config: AWSConfig): Promise<void> {
     if (!envFilePath) {
       console.log(chalk.yellow('   ⚠️  No .env file found. Switching to manual input.'));
     } else {
-      // Parse .env file
-      const envVarsFromFile: Record<string, string> = {};
-      const lines = envContent.split('\n');
-      
-      for (const line of lines) {
-        const trimmed = line.trim();
-        // Skip comments and empty lines
-        if (!trimmed || trimmed.startsWith('#')) continue;
-        
-        // Parse KEY=VALUE format
-        const equalIndex = trimmed.indexOf('=');
-        if (equalIndex > 0) {
-          const key = trimmed.substring(0, equalIndex).trim();
-          let value = trimmed.substring(equalIndex + 1).trim();
-          
-          // Remove quotes if present
-          if ((value.startsWith('"') && value.endsWith('"')) || 
-              (value.startsWith("'") && value.endsWith("'"))) {
-            value = value.slice(1, -1);
-          }
-          
-          if (key && value) {
-            envVarsFromFile[key] = value;
-          }
-        }
-      }
+      const envVarsFromFile = parseEnvFile(envContent);
 
       if (Object.keys(envVarsFromFile).length === 0) {
         console.log(chalk.yellow('   ⚠️  No environment variables found in .env file.'));
@@ -0,0 +1,361 @@
+import { execSync } from 'child_process';
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import chalk from 'chalk';
+import { DeployConfig, BuiltImage, ReleaseRecord, ReleaseStatus } from './types';
+import { generateSecretsManifest, serializeManifest } from './templates/kubernetes';
+import { getWorkspaceDir } from './profiles';
+import { orderComponents, getComponentResourceName } from './components';
+import { Deployment, Secret } from './templates/kubernetes-types';
+
+// Secret values never go into a release: only their key names and a hash are recorded
+export const SECRETS_MANIFEST = 'secrets.yaml';
+
+// Order in which release manifests are applied (dependencies first)
+const SHARED_MANIFESTS = [SECRETS_MANIFEST, 'externalsecret.yaml', 'configmap.yaml'];
+const WORKLOAD_MANIFESTS = ['deployment.yaml', 'service.yaml', 'hpa.yaml', 'pdb.yaml', 'cronjob.yaml'];
+const INGRESS_MANIFEST = 'ingress.yaml';
+
+const HISTORY_FILE_NAME = 'history.json';
+// Older releases are pruned, the latest deployed one is always kept to roll back to
+const MAX_RELEASES = 20;
+
+function getReleasesDir(): string {
+  return path.join(getWorkspaceDir(), 'releases');
+}
+
+function getReleaseDir(revision: number): string {
+  return path.join(getReleasesDir(), String(revision));
+}
+
+function getHistoryFilePath(): string {
+  return path.join(getReleasesDir(), HISTORY_FILE_NAME);
+}
+
+function saveReleaseHistory(history: ReleaseRecord[]): void {
+  fs.ensureDirSync(getReleasesDir());
+  fs.writeJsonSync(getHistoryFilePath(), history, { spaces: 2 });
+}
+
+export function loadReleaseHistory(): ReleaseRecord[] {
+  try {
+    const historyPath = getHistoryFilePath();
+    if (fs.existsSync(historyPath)) {
+      return fs.readJsonSync(historyPath);
+    }
+  } catch (error) {
+  }
+  return [];
+}
+
+/**
+ * Manifest files in apply order, relative to manifestsDir. Components of a
+ * multi-service app and workers or cron jobs keep theirs in <name>/; components
+ * follow componentOrder, directories it does not list come last, by name.
+ */
+export function listManifestFiles(manifestsDir: string, componentOrder: string[] = []): string[] {
+  const exists = (file: string) => fs.existsSync(path.join(manifestsDir, file));
+  const rank = (component: string) => {
+    const index = componentOrder.indexOf(component);
+    return index >= 0 ? index : componentOrder.length;
+  };
+  const components = fs.existsSync(manifestsDir)
+    ? fs.readdirSync(manifestsDir)
+      .filter(entry => fs.statSync(path.join(manifestsDir, entry)).isDirectory())
+      .sort((a, b) => rank(a) - rank(b) || a.localeCompare(b))
+    : [];
+
+  return [
+    ...SHARED_MANIFESTS,
+    ...WORKLOAD_MANIFESTS,
+    ...components.flatMap(component => WORKLOAD_MANIFESTS.map(file => `${component}/${file}`)),
+    INGRESS_MANIFEST,
+  ].filter(exists);
+}
+
+function getComponentOrder(config: DeployConfig): string[] {
+  return config.components?.length ? orderComponents(config.components).map(component => component.name) : [];
+}
+
+// The image each component's Deployment runs, read back from its manifest
+function readComponentImages(manifestsDir: string, components: string[]): Record<string, string> {
+  const images: Record<string, string> = {};
+  for (const component of components) {
+    const deploymentPath = path.join(manifestsDir, component, 'deployment.yaml');
+    const deployment = fs.existsSync(deploymentPath) ? (yaml.load(fs.readFileSync(deploymentPath, 'utf-8')) as Deployment) : null;
+    const image = deployment?.spec.template.spec.containers[0]?.image;
+    if (image) {
+      images[component] = image;
+    }
+  }
+  return images;
+}
+
+function hashManifests(manifestsDir: string, files: string[]): string {
+  const hash = crypto.createHash('sha256');
+  for (const file of files) {
+    hash.update(file);
+    hash.update(fs.readFileSync(path.join(manifestsDir, file)));
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * sha256 over a Secret's keys and values, so a release can tell whether the values
+ * changed without storing them.
+ */
+export function hashSecretData(data: Record<string, string>): string {
+  const hash = crypto.createHash('sha256');
+  for (const key of Object.keys(data).sort()) {
+    hash.update(key);
+    hash.update('\0');
+    hash.update(data[key]);
+    hash.update('\0');
+  }
+  return hash.digest('hex');
+}
+
+function describeSecret(secret: Secret | null): ReleaseRecord['secret'] {
+  return secret
+    ? { name: secret.metadata.name, keys: Object.keys(secret.data).sort(), hash: hashSecretData(secret.data) }
+    : undefined;
+}
+
+// Drop the oldest releases beyond MAX_RELEASES, with their manifests
+async function pruneReleases(history: ReleaseRecord[]): Promise<ReleaseRecord[]> {
+  const excess = history.length - MAX_RELEASES;
+  if (excess <= 0) {
+    return history;
+  }
+  const latestDeployed = [...history].reverse().find(record => record.status === 'deployed');
+  const pruned = history.filter(record => record !== latestDeployed).slice(0, excess);
+  for (const record of pruned) {
+    await fs.remove(getReleaseDir(record.revision));
+  }
+  return history.filter(record => !pruned.includes(record));
+}
+
+// Deployments of the release (the app or its components, and workers), from its manifests
+function getReleaseDeployments(record: ReleaseRecord): string[] {
+  return record.manifests
+    .filter(file => path.basename(file) === 'deployment.yaml')
+    .map(file => (file.includes('/') ? getComponentResourceName(record.appName, { name: file.split('/')[0] }) : record.appName));
+}
+
+function annotateDeployment(record: ReleaseRecord): void {
+  const changeCause = record.rollbackOf
+    ? `ekspressjs revision ${record.revision} (rollback to ${record.rollbackOf})`
+    : `ekspressjs revision ${record.revision}${record.imageTag ? ` (${record.imageTag})` : ''}`;
+  for (const deployment of getReleaseDeployments(record)) {
+    try {
+      execSync(
+        `kubectl annotate deployment/${deployment} -n ${record.namespace} ` +
+        `ekspressjs.io/revision=${record.revision} ` +
+        `ekspressjs.io/config-hash=${record.configHash.substring(0, 16)} ` +
+        `kubernetes.io/change-cause="${changeCause}" --overwrite`,
+        { stdio: 'pipe' }
+      );
+    } catch (error) {
+      console.log(chalk.yellow(`   ⚠️  Could not annotate deployment ${deployment} with release revision`));
+    }
+  }
+}
+
+/**
+ * Snapshot the applied manifests as a new release and annotate the live Deployment
+ * (unless in GitOps mode).
+ * The Secret is recorded by key names and hash only; rollback rebuilds it from the
+ * secret store. The release starts as 'pending' until the rollout result is known.
+ */
+export async function recordRelease(
+  config: DeployConfig,
+  manifestsDir: string,
+  image?: Partial<BuiltImage> | null,
+  rollbackOf?: number
+): Promise<ReleaseRecord> {
+  const history = loadReleaseHistory();
+  const revision = history.length > 0 ? history[history.length - 1].revision + 1 : 1;
+  const files = listManifestFiles(manifestsDir, getComponentOrder(config)).filter(file => file !== SECRETS_MANIFEST);
+  // Workers and cron jobs have no Service and run a component's image
+  const components = files.filter(file => file.endsWith('/service.yaml')).map(file => file.split('/')[0]);
+
+  const releaseDir = getReleaseDir(revision);
+  await fs.ensureDir(releaseDir);
+  for (const file of files) {
+    await fs.copy(path.join(manifestsDir, file), path.join(releaseDir, file));
+  }
+
+  const record: ReleaseRecord = {
+    revision,
+    appName: config.appName,
+    namespace: config.namespace || 'default',
+    image: image?.uri,
+    imageTag: image?.tag,
+    imageDigest: image?.digest,
+    configHash: hashManifests(manifestsDir, files),
+    manifests: files,
+    status: 'pending',
+    deployedAt: new Date().toISOString(),
+    rollbackOf,
+    components: components.length > 0 ? components : undefined,
+    images: components.length > 0 ? readComponentImages(manifestsDir, components) : undefined,
+    secret: describeSecret(generateSecretsManifest(config)),
+  };
+
+  history.push(record);
+  saveReleaseHistory(await pruneReleases(history));
+  // In GitOps mode the cluster is changed only through the repository
+  if (!config.gitops?.repoPath) {
+    annotateDeployment(record);
+  }
+
+  return record;
+}
+
+export function updateReleaseStatus(revision: number, status: ReleaseStatus): void {
+  const history = loadReleaseHistory();
+  const record = history.find(r => r.revision === revision);
+  if (record) {
+    record.status = status;
+    saveReleaseHistory(history);
+  }
+}
+
+/**
+ * The release to go back to: the newest successfully deployed release
+ * before the most recent one.
+ */
+export function findPreviousRelease(history: ReleaseRecord[]): ReleaseRecord | null {
+  const candidates = history.slice(0, -1).filter(r => r.status === 'deployed');
+  return candidates.length > 0 ? candidates[candidates.length - 1] : null;
+}
+
+export function getReleaseManifestsDir(record: ReleaseRecord): string {
+  return getReleaseDir(record.revision);
+}
+
+/**
+ * Rebuild the Secret of a release from the values in config (resolved from the
+ * secret store) and apply it; warn when they no longer match what was deployed.
+ */
+function applyReleaseSecret(config: DeployConfig, record: ReleaseRecord): void {
+  const secret = generateSecretsManifest({ ...config, appName: record.appName, namespace: config.namespace || record.namespace });
+  if (!secret) {
+    console.log(chalk.yellow(`   ⚠️  Revision ${record.revision} used a Secret, but no secret values are configured; the live Secret is left as is`));
+    return;
+  }
+  const current = describeSecret(secret)!;
+  if (current.hash !== record.secret!.hash) {
+    const added = current.keys.filter(key => !record.secret!.keys.includes(key));
+    const missing = record.secret!.keys.filter(key => !current.keys.includes(key));
+    console.log(chalk.yellow(`   ⚠️  Secret values changed since revision ${record.revision}; applying the current values from the secret store`));
+    if (added.length > 0) {
+      console.log(chalk.yellow(`      Keys not in revision ${record.revision}: ${added.join(', ')}`));
+    }
+    if (missing.length > 0) {
+      console.log(chalk.yellow(`      Keys no longer configured: ${missing.join(', ')}`));
+    }
+  }
+  execSync('kubectl apply -f -', { input: serializeManifest(secret), stdio: ['pipe', 'inherit', 'inherit'] });
+}
+
+export function applyReleaseManifests(config: DeployConfig, record: ReleaseRecord): void {
+  const releaseDir = getReleaseDir(record.revision);
+  if (record.secret) {
+    applyReleaseSecret(config, record);
+  }
+  for (const file of record.manifests) {
+    const manifestPath = path.join(releaseDir, file);
+    if (!fs.existsSync(manifestPath)) {
+      throw new Error(`Manifest ${file} of revision ${record.revision} is missing from ${releaseDir}`);
+    }
+    execSync(`kubectl apply -f ${manifestPath}`, { stdio: 'inherit' });
+  }
+}
+
+export function printReleaseHistory(history: ReleaseRecord[]): void {
+  if (history.length === 0) {
+    console.log(chalk.yellow('⚠️  No releases recorded yet. Deploy first with: npx ekspressjs'));
+    return;
+  }
+
+  console.log(chalk.cyan(`\n📜 Release history for '${history[history.length - 1].appName}':\n`));
+  for (const record of history) {
+    const statusColor =
+      record.status === 'deployed' ? chalk.green : record.status === 'failed' ? chalk.red : chalk.yellow;
+    const note = record.rollbackOf ? chalk.gray(` (rollback to ${record.rollbackOf})`) : '';
+    console.log(
+      chalk.white(`   ${String(record.revision).padEnd(4)} `) +
+      statusColor(record.status.padEnd(9)) +
+      chalk.white(` ${record.deployedAt}  ${record.imageTag || record.image || '-'}`) +
+      note
+    );
+  }
+}
+
+export async function rollbackToRelease(config: DeployConfig, targetRevision?: number): Promise<ReleaseRecord> {
+  const history = loadReleaseHistory();
+  const target = targetRevision !== undefined
+    ? history.find(r => r.revision === targetRevision)
+    : findPreviousRelease(history);
+
+  if (!target) {
+    throw new Error(
+      targetRevision !== undefined
+        ? `Revision ${targetRevision} not found. Run 'ekspressjs history' to list releases.`
+        : 'No previous successful release to roll back to.'
+    );
+  }
+
+  const namespace = config.namespace || target.namespace;
+  console.log(chalk.yellow(`\n⏪ Rolling back '${target.appName}' to revision ${target.revision}...`));
+  if (target.images) {
+    for (const [component, image] of Object.entries(target.images)) {
+      console.log(chalk.gray(`   ${component}: ${image}`));
+    }
+  } else if (target.imageTag) {
+    console.log(chalk.gray(`   Image: ${target.image}`));
+  }
+
+  applyReleaseManifests({ ...config, namespace }, target);
+
+  // Remove resources the current release added on top of the target (e.g. a new HPA)
+  const current = history[history.length - 1];
+  if (current && current.revision !== target.revision) {
+    if (current.secret && !target.secret) {
+      console.log(chalk.gray(`   Removing Secret ${current.secret.name} (not part of revision ${target.revision})`));
+      execSync(`kubectl delete secret ${current.secret.name} -n ${namespace} --ignore-not-found`, { stdio: 'inherit' });
+    }
+    for (const file of current.manifests.filter(f => !target.manifests.includes(f))) {
+      const manifestPath = path.join(getReleaseDir(current.revision), file);
+      if (fs.existsSync(manifestPath)) {
+        console.log(chalk.gray(`   Removing resources from ${file} (not part of revision ${target.revision})`));
+        execSync(`kubectl delete -f ${manifestPath} --ignore-not-found`, { stdio: 'inherit' });
+      }
+    }
+  }
+
+  const record = await recordRelease(
+    { ...config, appName: target.appName, namespace },
+    getReleaseDir(target.revision),
+    { uri: target.image, tag: target.imageTag, digest: target.imageDigest },
+    target.revision
+  );
+
+  try {
+    for (const deployment of getReleaseDeployments(target)) {
+      execSync(
+        `kubectl rollout status deployment/${deployment} -n ${namespace} --timeout=300s`,
+        { stdio: 'inherit' }
+      );
+    }
+    updateReleaseStatus(record.revision, 'deployed');
+  } catch (error: any) {
+    updateReleaseStatus(record.revision, 'failed');
+    throw new Error(`Rollback to revision ${target.revision} did not become ready: ${error.message}`);
+  }
+
+  return record;
+}
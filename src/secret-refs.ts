@@ -0,0 +1,156 @@
+import { execSync } from 'child_process';
+import { SecretsManagerClient, GetSecretValueCommand } from '@aws-sdk/client-secrets-manager';
+import { SSMClient, GetParameterCommand } from '@aws-sdk/client-ssm';
+import { DeployConfig, SecretReference } from './types';
+
+const REFERENCE_PATTERN = /^(secretsmanager|ssm):(.+)$/;
+
+type SecretsConfig = Pick<DeployConfig, 'appName' | 'secrets' | 'envVars' | 'components'>;
+
+export function isExternalSecretRef(value: unknown): value is string {
+  return typeof value === 'string' && REFERENCE_PATTERN.test(value);
+}
+
+export function parseSecretReference(value: string): SecretReference {
+  const match = value.match(REFERENCE_PATTERN);
+  if (!match) {
+    throw new Error(`Invalid secret reference: ${value}`);
+  }
+  const provider = match[1] as SecretReference['provider'];
+  if (provider === 'ssm') {
+    return { provider, id: match[2] };
+  }
+  // ARNs contain ':' but never '#', so the JSON key is whatever follows the first '#'
+  const [id, property] = match[2].split('#', 2);
+  if (!id) {
+    throw new Error(`Invalid secret reference: ${value}`);
+  }
+  return { provider, id, property: property || undefined };
+}
+
+/**
+ * Name of the Kubernetes Secret that holds referenced values. It is separate
+ * from `<app>-secrets` so re-applying local secrets never drops them.
+ * Components of a multi-service app share the app's Secret.
+ */
+export function getReferencedSecretName(config: Pick<DeployConfig, 'appName' | 'partOf' | 'envSourceName'>): string {
+  return `${config.envSourceName || config.partOf || config.appName}-ref-secrets`;
+}
+
+/**
+ * Split secrets into local values and references. Env vars whose value is a
+ * reference are included under their own name, including those of components.
+ */
+export function splitSecrets(config: SecretsConfig): {
+  local: Record<string, string>;
+  references: Record<string, SecretReference>;
+} {
+  const local: Record<string, string> = {};
+  const references: Record<string, SecretReference> = {};
+
+  for (const [key, value] of Object.entries(config.secrets || {})) {
+    if (isExternalSecretRef(value)) {
+      references[key] = parseSecretReference(value);
+    } else {
+      local[key] = value;
+    }
+  }
+  const envVars = [...(config.envVars || []), ...(config.components || []).flatMap(component => component.envVars || [])];
+  for (const envVar of envVars) {
+    if (!envVar.fromSecret && isExternalSecretRef(envVar.value)) {
+      references[envVar.name] = parseSecretReference(envVar.value);
+    }
+  }
+
+  return { local, references };
+}
+
+// Secrets Manager and SSM ARNs carry their own region
+export function getReferenceRegion(reference: SecretReference, fallback: string): string {
+  const arnRegion = reference.id.startsWith('arn:') ? reference.id.split(':')[3] : '';
+  return arnRegion || fallback;
+}
+
+/**
+ * Fetch referenced values with the AWS SDK, using the deploy credentials.
+ * Values are only kept in memory.
+ */
+export async function resolveSecretReferences(config: DeployConfig): Promise<Record<string, string>> {
+  const { references } = splitSecrets(config);
+  const credentials = {
+    accessKeyId: config.accessKeyId,
+    secretAccessKey: config.secretAccessKey,
+  };
+  // The same secret is often referenced for several keys
+  const secretStrings = new Map<string, Promise<string>>();
+  const values: Record<string, string> = {};
+
+  for (const [key, reference] of Object.entries(references)) {
+    const region = getReferenceRegion(reference, config.region);
+    const cacheKey = `${reference.provider}:${region}:${reference.id}`;
+
+    if (!secretStrings.has(cacheKey)) {
+      secretStrings.set(cacheKey, (async () => {
+        if (reference.provider === 'ssm') {
+          const ssmClient = new SSMClient({ region, credentials });
+          const response = await ssmClient.send(new GetParameterCommand({ Name: reference.id, WithDecryption: true }));
+          return response.Parameter?.Value ?? '';
+        }
+        const secretsClient = new SecretsManagerClient({ region, credentials });
+        const response = await secretsClient.send(new GetSecretValueCommand({ SecretId: reference.id }));
+        if (response.SecretString === undefined) {
+          throw new Error('binary secrets are not supported');
+        }
+        return response.SecretString;
+      })());
+    }
+
+    let secretString: string;
+    try {
+      secretString = await secretStrings.get(cacheKey)!;
+    } catch (error: any) {
+      throw new Error(`Could not resolve secret ${key} from ${reference.provider}:${reference.id}: ${error.message}`);
+    }
+
+    if (reference.property) {
+      let parsed: Record<string, unknown>;
+      try {
+        parsed = JSON.parse(secretString);
+      } catch (error) {
+        throw new Error(`Secret ${reference.id} is not JSON, cannot read key "${reference.property}" for ${key}`);
+      }
+      if (parsed[reference.property] === undefined) {
+        throw new Error(`Secret ${reference.id} has no key "${reference.property}" (needed for ${key})`);
+      }
+      values[key] = String(parsed[reference.property]);
+    } else {
+      values[key] = secretString;
+    }
+  }
+
+  return values;
+}
+
+export function checkExternalSecretsOperator(): void {
+  let versions: string;
+  try {
+    versions = execSync(
+      'kubectl get crd externalsecrets.external-secrets.io -o jsonpath=\'{.spec.versions[?(@.served==true)].name}\'',
+      { encoding: 'utf-8', stdio: 'pipe' }
+    );
+  } catch (error) {
+    throw new Error(
+      'External Secrets Operator is not installed in the cluster. Install it with:\n' +
+      '  helm repo add external-secrets https://charts.external-secrets.io\n' +
+      '  helm install external-secrets external-secrets/external-secrets -n external-secrets --create-namespace\n' +
+      'or disable externalSecrets to resolve references at deploy time.'
+    );
+  }
+  // The manifests use external-secrets.io/v1
+  if (!versions.split(/\s+/).includes('v1')) {
+    throw new Error(
+      `External Secrets Operator in the cluster does not serve external-secrets.io/v1 (served: ${versions.trim() || 'none'}). Upgrade it with:\n` +
+      '  helm upgrade external-secrets external-secrets/external-secrets -n external-secrets'
+    );
+  }
+}
@@ -0,0 +1,401 @@
+import { execFileSync, execSync } from 'child_process';
+import * as crypto from 'crypto';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import inquirer from 'inquirer';
+import chalk from 'chalk';
+import { AWSConfig } from './prompts';
+import { DomainConfig } from './types';
+import { getActiveProfile, getAppDir } from './profiles';
+import { isExternalSecretRef } from './secret-refs';
+
+export type SecretStoreBackend = 'keychain' | 'vault';
+
+// Saved configs hold `ekspressjs-secret:<backend>:<key>` instead of the value
+const SECRET_REF_PREFIX = 'ekspressjs-secret:';
+const KEYCHAIN_SERVICE = 'ekspressjs';
+const VAULT_FILE_NAME = '.ekspressjs-vault.json';
+
+interface VaultEntry {
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+interface VaultFile {
+  version: 1;
+  // scrypt: key derived from a passphrase; kms: AES key is a KMS data key
+  kdf: 'scrypt' | 'kms';
+  salt?: string;
+  kmsKeyId?: string;
+  encryptedDataKey?: string;
+  // A known value encrypted with the vault key, to check the passphrase even while the vault is empty
+  verifier: VaultEntry;
+  entries: Record<string, VaultEntry>;
+}
+
+const VAULT_VERIFIER = 'ekspressjs-vault';
+
+let vaultKey: Buffer | null = null;
+
+export function isSecretRef(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(SECRET_REF_PREFIX);
+}
+
+function parseSecretRef(ref: string): { backend: SecretStoreBackend; key: string } {
+  const rest = ref.substring(SECRET_REF_PREFIX.length);
+  const separator = rest.indexOf(':');
+  const backend = rest.substring(0, separator) as SecretStoreBackend;
+  if (separator <= 0 || !['keychain', 'vault'].includes(backend)) {
+    throw new Error(`Invalid secret reference: ${ref}`);
+  }
+  return { backend, key: rest.substring(separator + 1) };
+}
+
+function commandExists(command: string): boolean {
+  try {
+    execSync(`command -v ${command}`, { stdio: 'pipe' });
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+function keychainAvailable(): boolean {
+  if (process.platform === 'darwin') {
+    return commandExists('security');
+  }
+  if (process.platform === 'linux') {
+    return commandExists('secret-tool');
+  }
+  return false;
+}
+
+function keychainStore(key: string, value: string): void {
+  if (process.platform === 'darwin') {
+    // `security -i` reads the command from stdin, so the value never appears in the process
+    // list; -X takes it hex-encoded so no quoting is needed. -U updates an existing item.
+    const hex = Buffer.from(value, 'utf-8').toString('hex');
+    execFileSync('security', ['-i'], {
+      input: `add-generic-password -U -s ${KEYCHAIN_SERVICE} -a "${key}" -X ${hex}\n`,
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+  } else {
+    // secret-tool reads the value from stdin, so it never appears in the process list
+    execFileSync('secret-tool', ['store', `--label=ekspressjs ${key}`, 'service', KEYCHAIN_SERVICE, 'account', key], {
+      input: value,
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+  }
+}
+
+function keychainLookup(key: string): string {
+  try {
+    const output = process.platform === 'darwin'
+      ? execFileSync('security', ['find-generic-password', '-s', KEYCHAIN_SERVICE, '-a', key, '-w'], { encoding: 'utf-8', stdio: 'pipe' })
+      : execFileSync('secret-tool', ['lookup', 'service', KEYCHAIN_SERVICE, 'account', key], { encoding: 'utf-8', stdio: 'pipe' });
+    return output.replace(/\n$/, '');
+  } catch (error) {
+    throw new Error(`Secret "${key}" not found in the OS keychain`);
+  }
+}
+
+function getVaultPath(): string {
+  // One vault per project; keys are namespaced by app and profile
+  return path.join(getAppDir(), 'ekspressjs', VAULT_FILE_NAME);
+}
+
+function loadVault(): VaultFile | null {
+  const vaultPath = getVaultPath();
+  return fs.existsSync(vaultPath) ? fs.readJsonSync(vaultPath) : null;
+}
+
+function awsRegionArgs(): string {
+  const region = process.env.EKSPRESSJS_REGION || process.env.AWS_REGION || process.env.AWS_DEFAULT_REGION;
+  return region ? ` --region ${region}` : '';
+}
+
+function generateKmsDataKey(kmsKeyId: string): { plaintext: Buffer; encrypted: string } {
+  try {
+    const output = execSync(
+      `aws kms generate-data-key --key-id ${kmsKeyId} --key-spec AES_256 --output json${awsRegionArgs()}`,
+      { encoding: 'utf-8', stdio: 'pipe' }
+    );
+    const result = JSON.parse(output);
+    return { plaintext: Buffer.from(result.Plaintext, 'base64'), encrypted: result.CiphertextBlob };
+  } catch (error: any) {
+    throw new Error(`Could not generate a KMS data key with ${kmsKeyId}: ${error.message}`);
+  }
+}
+
+function decryptKmsDataKey(encryptedDataKey: string): Buffer {
+  // fileb:// works with both AWS CLI v1 and v2
+  const blobPath = path.join(os.tmpdir(), `ekspressjs-datakey-${process.pid}.bin`);
+  try {
+    fs.writeFileSync(blobPath, Buffer.from(encryptedDataKey, 'base64'));
+    const output = execSync(
+      `aws kms decrypt --ciphertext-blob fileb://${blobPath} --output json${awsRegionArgs()}`,
+      { encoding: 'utf-8', stdio: 'pipe' }
+    );
+    return Buffer.from(JSON.parse(output).Plaintext, 'base64');
+  } catch (error: any) {
+    throw new Error(`Could not decrypt the vault data key with KMS: ${error.message}`);
+  } finally {
+    fs.removeSync(blobPath);
+  }
+}
+
+async function readPassphrase(creating: boolean): Promise<string> {
+  if (process.env.EKSPRESSJS_VAULT_PASSPHRASE) {
+    return process.env.EKSPRESSJS_VAULT_PASSPHRASE;
+  }
+  if (!process.stdin.isTTY) {
+    throw new Error('Secret vault is locked. Set EKSPRESSJS_VAULT_PASSPHRASE or EKSPRESSJS_VAULT_KMS_KEY_ID.');
+  }
+
+  const answers = await inquirer.prompt([
+    {
+      type: 'password',
+      name: 'passphrase',
+      message: creating ? 'Choose a passphrase for the local secret vault:' : 'Secret vault passphrase:',
+      mask: '*',
+      validate: (input: string) => input.length >= 8 || 'Passphrase must be at least 8 characters',
+    },
+    {
+      type: 'password',
+      name: 'confirmPassphrase',
+      message: 'Repeat passphrase:',
+      mask: '*',
+      when: () => creating,
+      validate: (input: string, answers: any) => input === answers.passphrase || 'Passphrases do not match',
+    },
+  ]);
+  return answers.passphrase;
+}
+
+function decryptEntry(key: Buffer, entry: VaultEntry): string {
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(entry.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(entry.tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(entry.data, 'base64')), decipher.final()]).toString('utf-8');
+}
+
+function encryptEntry(key: Buffer, value: string): VaultEntry {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const data = Buffer.concat([cipher.update(value, 'utf-8'), cipher.final()]);
+  return {
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+}
+
+/**
+ * Unlock the vault (creating it on first use) and cache the key for this run.
+ */
+async function unlockVault(): Promise<VaultFile> {
+  let vault = loadVault();
+
+  if (!vault) {
+    const kmsKeyId = process.env.EKSPRESSJS_VAULT_KMS_KEY_ID;
+    if (kmsKeyId) {
+      const dataKey = generateKmsDataKey(kmsKeyId);
+      vaultKey = dataKey.plaintext;
+      vault = {
+        version: 1,
+        kdf: 'kms',
+        kmsKeyId,
+        encryptedDataKey: dataKey.encrypted,
+        verifier: encryptEntry(vaultKey, VAULT_VERIFIER),
+        entries: {},
+      };
+    } else {
+      const salt = crypto.randomBytes(16);
+      vaultKey = crypto.scryptSync(await readPassphrase(true), salt, 32);
+      vault = { version: 1, kdf: 'scrypt', salt: salt.toString('base64'), verifier: encryptEntry(vaultKey, VAULT_VERIFIER), entries: {} };
+    }
+    fs.ensureDirSync(path.dirname(getVaultPath()));
+    fs.writeJsonSync(getVaultPath(), vault, { spaces: 2, mode: 0o600 });
+    console.log(chalk.green(`   ✓ Created encrypted secret vault (${vault.kdf === 'kms' ? `KMS key ${vault.kmsKeyId}` : 'passphrase'})`));
+    return vault;
+  }
+
+  if (!vaultKey) {
+    const key = vault.kdf === 'kms'
+      ? decryptKmsDataKey(vault.encryptedDataKey!)
+      : crypto.scryptSync(await readPassphrase(false), Buffer.from(vault.salt!, 'base64'), 32);
+
+    if (!vault.verifier) {
+      throw new Error(`${VAULT_FILE_NAME} is invalid: it has no passphrase verifier`);
+    }
+    let verifier: string | undefined;
+    try {
+      verifier = decryptEntry(key, vault.verifier);
+    } catch (error) {
+      // GCM authentication fails on a wrong key
+    }
+    if (verifier !== VAULT_VERIFIER) {
+      throw new Error('Wrong secret vault passphrase');
+    }
+    vaultKey = key;
+  }
+  return vault;
+}
+
+function selectBackend(): SecretStoreBackend {
+  const configured = process.env.EKSPRESSJS_SECRET_STORE as SecretStoreBackend | undefined;
+  if (configured) {
+    if (!['keychain', 'vault'].includes(configured)) {
+      throw new Error(`Invalid EKSPRESSJS_SECRET_STORE "${configured}" (use keychain or vault)`);
+    }
+    return configured;
+  }
+  return keychainAvailable() ? 'keychain' : 'vault';
+}
+
+/**
+ * Store a secret value and return the reference to save in its place.
+ */
+export async function storeSecret(key: string, value: string): Promise<string> {
+  let backend = selectBackend();
+
+  if (backend === 'keychain') {
+    try {
+      keychainStore(key, value);
+    } catch (error: any) {
+      if (process.env.EKSPRESSJS_SECRET_STORE === 'keychain') {
+        throw new Error(`Could not store "${key}" in the OS keychain: ${error.message}`);
+      }
+      // e.g. secret-tool without a running Secret Service on a headless machine
+      console.log(chalk.yellow('   ⚠️  OS keychain unavailable, using the encrypted local vault instead'));
+      backend = 'vault';
+    }
+  }
+
+  if (backend === 'vault') {
+    const vault = await unlockVault();
+    vault.entries[key] = encryptEntry(vaultKey!, value);
+    fs.writeJsonSync(getVaultPath(), vault, { spaces: 2, mode: 0o600 });
+  }
+
+  return `${SECRET_REF_PREFIX}${backend}:${key}`;
+}
+
+export async function resolveSecret(ref: string): Promise<string> {
+  const { backend, key } = parseSecretRef(ref);
+  if (backend === 'keychain') {
+    return keychainLookup(key);
+  }
+
+  const vault = await unlockVault();
+  const entry = vault.entries[key];
+  if (!entry) {
+    throw new Error(`Secret "${key}" not found in ${VAULT_FILE_NAME}`);
+  }
+  return decryptEntry(vaultKey!, entry);
+}
+
+function secretKeyPrefix(config: Partial<AWSConfig>, profile?: string): string {
+  return `${config.appName || 'app'}/${profile || 'default'}`;
+}
+
+/**
+ * Return a copy of the config with secret values and the Cloudflare API token
+ * replaced by references, ready to be written to .ekspressjs-config.json.
+ */
+export async function protectConfigSecrets(
+  config: Partial<AWSConfig>,
+  profile: string | undefined = getActiveProfile()
+): Promise<Partial<AWSConfig>> {
+  const prefix = secretKeyPrefix(config, profile);
+  const protectedConfig: Partial<AWSConfig> = { ...config };
+
+  if (config.secrets) {
+    const secrets: Record<string, string> = {};
+    for (const [name, value] of Object.entries(config.secrets)) {
+      // secretsmanager:/ssm: references are not secret themselves
+      secrets[name] = isSecretRef(value) || isExternalSecretRef(value)
+        ? value
+        : await storeSecret(`${prefix}/secrets/${name}`, value);
+    }
+    protectedConfig.secrets = secrets;
+  }
+
+  const token = config.domain?.cloudflareApiToken;
+  if (config.domain && token) {
+    protectedConfig.domain = {
+      ...config.domain,
+      cloudflareApiToken: isSecretRef(token) ? token : await storeSecret(`${prefix}/cloudflareApiToken`, token),
+    };
+  }
+
+  return protectedConfig;
+}
+
+/**
+ * Replace secret references in a loaded config with their values.
+ */
+export async function resolveConfigSecrets(config: Partial<AWSConfig>): Promise<Partial<AWSConfig>> {
+  const resolved: Partial<AWSConfig> = { ...config };
+
+  if (config.secrets) {
+    const secrets: Record<string, string> = {};
+    for (const [name, value] of Object.entries(config.secrets)) {
+      secrets[name] = isSecretRef(value) ? await resolveSecret(value) : value;
+    }
+    resolved.secrets = secrets;
+  }
+
+  if (config.domain && isSecretRef(config.domain.cloudflareApiToken)) {
+    resolved.domain = {
+      ...config.domain,
+      cloudflareApiToken: await resolveSecret(config.domain.cloudflareApiToken),
+    };
+  }
+
+  return resolved;
+}
+
+export function hasPlaintextSecrets(config: Partial<AWSConfig>): boolean {
+  const plaintextSecret = Object.values(config.secrets || {}).some(value => !isSecretRef(value) && !isExternalSecretRef(value));
+  const token = config.domain?.cloudflareApiToken;
+  return plaintextSecret || (!!token && !isSecretRef(token));
+}
+
+/**
+ * Move plaintext secrets in one saved config file into the secret store (or drop
+ * them with `discard`). Returns the number of values removed from the file.
+ */
+export async function migrateConfigFileSecrets(
+  configPath: string,
+  profile: string | undefined,
+  discard: boolean
+): Promise<number> {
+  const config: Partial<AWSConfig> = fs.readJsonSync(configPath);
+  let count = Object.values(config.secrets || {}).filter(value => !isSecretRef(value) && !isExternalSecretRef(value)).length;
+  const token = config.domain?.cloudflareApiToken;
+  if (token && !isSecretRef(token)) {
+    count++;
+  }
+  if (count === 0) {
+    return 0;
+  }
+
+  let migrated: Partial<AWSConfig>;
+  if (discard) {
+    migrated = { ...config };
+    migrated.secrets = Object.fromEntries(
+      Object.entries(config.secrets || {}).filter(([, value]) => isSecretRef(value) || isExternalSecretRef(value))
+    );
+    if (migrated.domain && token && !isSecretRef(token)) {
+      const { cloudflareApiToken, ...domain } = migrated.domain;
+      migrated.domain = domain as DomainConfig;
+    }
+  } else {
+    migrated = await protectConfigSecrets(config, profile);
+  }
+
+  fs.writeJsonSync(configPath, migrated, { spaces: 2 });
+  return count;
+}
@@ -1,24 +1,481 @@
-import { AppType } from '../types';
+import { AppType, GoProject, JavaProject, NodeProject, NodeWorkspace, ProjectBuildInfo, PythonAppType, PythonPackageManager, PythonProject, RustProject } from '../types';
+
+interface NodeInstallSteps {
+  // Stage setup needed before the package manager can run
+  setup: string;
+  // Files copied before installing, so the install layer is cached until they change
+  manifests: string;
+  install: string;
+  run: (script: string) => string;
+  // Runs a binary installed in node_modules
+  exec: string;
+}
 
-export function generateDockerfile(appType: AppType, port: number): string {
-  const dockerfiles: Record<AppType, string> = {
-    next: `FROM node:20-alpine AS base
+// corepack ships with Node and provisions pnpm/yarn at the version in the packageManager field
+const COREPACK_SETUP = `ENV COREPACK_ENABLE_DOWNLOAD_PROMPT=0
+RUN corepack enable`;
+
+// Cache mounts keep the package store between builds (needs BuildKit, see the syntax directive)
+function getNodeInstallSteps(project: NodeProject): NodeInstallSteps {
+  switch (project.packageManager) {
+    case 'pnpm':
+      return {
+        setup: COREPACK_SETUP,
+        manifests: 'package.json pnpm-lock.yaml*',
+        install: 'RUN --mount=type=cache,id=pnpm,target=/pnpm/store pnpm install --frozen-lockfile --store-dir /pnpm/store',
+        run: (script) => `pnpm run ${script}`,
+        exec: 'pnpm exec',
+      };
+    case 'yarn':
+      if (project.yarnBerry) {
+        return {
+          // Plug'n'Play has no node_modules for the later stages to copy
+          setup: `${COREPACK_SETUP}\nENV YARN_NODE_LINKER=node-modules`,
+          manifests: 'package.json yarn.lock* .yarnrc.yml*',
+          install: 'RUN --mount=type=cache,target=/root/.yarn/berry/cache yarn install --immutable',
+          run: (script) => `yarn run ${script}`,
+          exec: 'yarn',
+        };
+      }
+      return {
+        setup: COREPACK_SETUP,
+        manifests: 'package.json yarn.lock*',
+        install: 'RUN --mount=type=cache,target=/usr/local/share/.cache/yarn yarn install --frozen-lockfile',
+        run: (script) => `yarn run ${script}`,
+        exec: 'yarn',
+      };
+    case 'bun':
+      return {
+        setup: `COPY --from=oven/bun:${project.version || '1'}-alpine /usr/local/bin/bun /usr/local/bin/bun`,
+        manifests: 'package.json bun.lockb* bun.lock*',
+        install: 'RUN --mount=type=cache,target=/root/.bun/install/cache bun install --frozen-lockfile',
+        run: (script) => `bun run ${script}`,
+        exec: 'bun x',
+      };
+    default:
+      return {
+        setup: '',
+        manifests: 'package.json package-lock.json*',
+        install: 'RUN --mount=type=cache,target=/root/.npm npm ci',
+        run: (script) => `npm run ${script}`,
+        exec: 'npx',
+      };
+  }
+}
 
-FROM base AS deps
+// Builds the app and, through the task runner, the workspace packages it depends on
+function getWorkspaceBuildCommand(project: NodeProject, workspace: NodeWorkspace, node: NodeInstallSteps): string {
+  if (workspace.orchestrator === 'turbo') {
+    return `${node.exec} turbo run build --filter=${workspace.packageName}`;
+  }
+  if (workspace.orchestrator === 'nx') {
+    return `${node.exec} nx run ${workspace.nxProject}:build`;
+  }
+  switch (project.packageManager) {
+    case 'pnpm':
+      return `pnpm --filter "${workspace.packageName}..." run build`;
+    case 'yarn':
+      return `yarn workspace ${workspace.packageName} run build`;
+    case 'bun':
+      return `bun run --cwd ${workspace.appPath} build`;
+    default:
+      return `npm run build --workspace ${workspace.appPath}`;
+  }
+}
+
+/**
+ * Dockerfile for a Node app inside a monorepo, built from the repository root.
+ * With Turborepo only the app's dependency closure (`turbo prune`) enters the
+ * build; with pnpm a Nest server ships the `pnpm deploy` output.
+ */
+function generateNodeWorkspaceDockerfile(appType: AppType, port: number, project: NodeProject, workspace: NodeWorkspace): string {
+  const node = getNodeInstallSteps(project);
+  const nodeSetup = node.setup ? `${node.setup}\n` : '';
+  const app = workspace.appPath;
+  const isTurbo = workspace.orchestrator === 'turbo';
+  const lockfiles = node.manifests.split(' ').filter(file => file !== 'package.json');
+
+  const pruner = isTurbo ? `
+FROM base AS pruner
 RUN apk add --no-cache libc6-compat
 WORKDIR /app
+COPY . .
+RUN npx --yes turbo@^2 prune ${workspace.packageName} --docker
+` : '';
+
+  let install: string;
+  if (isTurbo) {
+    // Package manifests first, so the install layer only changes with dependencies
+    install = `COPY --from=pruner /app/out/json/ .
+COPY --from=pruner ${lockfiles.map(file => `/app/out/${file}`).join(' ')} ./
+${node.install}
+
+COPY --from=pruner /app/out/full/ .`;
+  } else if (project.packageManager === 'pnpm') {
+    // pnpm fetch only needs the lockfile to fill the store
+    install = `COPY pnpm-lock.yaml ./
+RUN --mount=type=cache,id=pnpm,target=/pnpm/store pnpm fetch --store-dir /pnpm/store
 
-COPY package.json package-lock.json* ./
-RUN npm ci
+COPY . .
+RUN --mount=type=cache,id=pnpm,target=/pnpm/store pnpm install --offline --frozen-lockfile --store-dir /pnpm/store`;
+  } else {
+    install = `COPY . .
+${node.install}`;
+  }
+
+  const isServer = appType === 'next' || appType === 'nuxt' || appType === 'nest';
+  const builderBase = isServer ? 'base' : 'node:20-alpine';
+  const prodDeploy = appType === 'nest' && project.packageManager === 'pnpm'
+    ? `\nRUN pnpm --filter ${workspace.packageName} --prod deploy /prod`
+    : '';
+
+  const builder = `# syntax=docker/dockerfile:1
+FROM node:20-alpine AS base
+${pruner}
+FROM ${builderBase} AS builder
+RUN apk add --no-cache libc6-compat
+${nodeSetup}WORKDIR /app
+
+${install}
+${appType === 'next' ? '\nENV NEXT_TELEMETRY_DISABLED 1\n' : ''}
+RUN ${getWorkspaceBuildCommand(project, workspace, node)}${prodDeploy}`;
+
+  const runners: Record<string, string> = {
+    next: `FROM base AS runner
+WORKDIR /app
+
+ENV NODE_ENV production
+ENV NEXT_TELEMETRY_DISABLED 1
+
+RUN addgroup --system --gid 1001 nodejs
+RUN adduser --system --uid 1001 nextjs
+
+# Standalone output traced from the repository root keeps the app under ${app}/
+COPY --from=builder /app/${app}/public ./${app}/public
+COPY --from=builder --chown=nextjs:nodejs /app/${app}/.next/standalone ./
+COPY --from=builder --chown=nextjs:nodejs /app/${app}/.next/static ./${app}/.next/static
+
+USER nextjs
+
+EXPOSE ${port}
+
+ENV PORT ${port}
+ENV HOSTNAME "0.0.0.0"
+
+CMD ["node", "${app}/server.js"]`,
+
+    nuxt: `FROM base AS runner
+WORKDIR /app
+
+ENV NODE_ENV production
+
+RUN addgroup --system --gid 1001 nodejs
+RUN adduser --system --uid 1001 nuxtjs
+
+COPY --from=builder --chown=nuxtjs:nodejs /app/${app}/.output ./.output
+COPY --from=builder --chown=nuxtjs:nodejs /app/${app}/package.json ./package.json
+
+USER nuxtjs
+
+EXPOSE ${port}
+
+ENV PORT ${port}
+ENV NODE_ENV production
+
+CMD ["node", ".output/server/index.mjs"]`,
+
+    nest: `FROM base AS runner
+WORKDIR /app
+
+ENV NODE_ENV production
+
+RUN addgroup -g 1001 -S nodejs && \\
+    adduser -S nodejs -u 1001
+
+${prodDeploy
+    ? `COPY --from=builder /prod/node_modules ./node_modules
+COPY --from=builder /prod/dist ./dist
+COPY --from=builder /prod/package.json ./package.json`
+    : `# Workspace packages are linked from node_modules, so the tree is kept as built
+COPY --from=builder /app ./
+WORKDIR /app/${app}`}
+
+USER nodejs
+
+EXPOSE ${port}
+
+ENV NODE_ENV production
+ENV PORT ${port}
+
+CMD ["node", "dist/main.js"]`,
+
+    react: `FROM nginx:alpine
+
+COPY --from=builder /app/${app}/build /usr/share/nginx/html
+
+EXPOSE 80
+
+CMD ["nginx", "-g", "daemon off;"]`,
+
+    vue: `FROM nginx:alpine
+
+COPY --from=builder /app/${app}/dist /usr/share/nginx/html
+
+EXPOSE 80
+
+CMD ["nginx", "-g", "daemon off;"]`,
+  };
+
+  return `${builder}\n\n${runners[appType]}`;
+}
+
+const PYTHON_IMAGE = 'python:3.12-slim';
+
+// Installs dependencies into /opt/venv, which is copied into the runtime stage
+const PYTHON_INSTALL_STEPS: Record<PythonPackageManager, (server: string) => string> = {
+  pip: (server) => `COPY requirements.txt ./
+RUN pip install --no-cache-dir -r requirements.txt ${server}`,
+
+  // Poetry itself goes into the system interpreter so it stays out of the runtime image
+  poetry: (server) => `RUN /usr/local/bin/pip install --no-cache-dir poetry
+
+COPY pyproject.toml poetry.lock* ./
+RUN poetry install --only main --no-root --no-interaction && \\
+    pip install --no-cache-dir ${server}`,
+
+  uv: (server) => `COPY --from=ghcr.io/astral-sh/uv:0.5 /uv /usr/local/bin/uv
+
+ENV UV_PROJECT_ENVIRONMENT=/opt/venv
+COPY pyproject.toml uv.lock* ./
+RUN uv sync --no-dev --no-install-project && \\
+    uv pip install --python /opt/venv/bin/python ${server}`,
+};
+
+function generatePythonDockerfile(appType: PythonAppType, port: number, project: PythonProject): string {
+  // FastAPI is ASGI and runs on uvicorn; Django and Flask are served by gunicorn
+  const server = appType === 'fastapi' ? 'uvicorn' : 'gunicorn';
+  const command = appType === 'fastapi'
+    ? ['uvicorn', project.entrypoint, '--host', '0.0.0.0', '--port', String(port), '--proxy-headers']
+    : ['gunicorn', project.entrypoint, '--bind', `0.0.0.0:${port}`, '--workers', '2'];
+
+  return `FROM ${PYTHON_IMAGE} AS builder
+
+ENV PYTHONDONTWRITEBYTECODE=1 \\
+    PYTHONUNBUFFERED=1 \\
+    PIP_DISABLE_PIP_VERSION_CHECK=1
+
+WORKDIR /app
+
+RUN python -m venv /opt/venv
+ENV VIRTUAL_ENV=/opt/venv
+ENV PATH="/opt/venv/bin:$PATH"
+
+${PYTHON_INSTALL_STEPS[project.packageManager](server)}
+
+FROM ${PYTHON_IMAGE} AS runner
+
+ENV PYTHONDONTWRITEBYTECODE=1 \\
+    PYTHONUNBUFFERED=1 \\
+    PATH="/opt/venv/bin:$PATH"
+
+WORKDIR /app
+
+RUN groupadd --system --gid 1001 appuser && \\
+    useradd --system --uid 1001 --gid appuser --no-create-home appuser
+
+COPY --from=builder /opt/venv /opt/venv
+COPY --chown=appuser:appuser . .
+
+USER appuser
+
+EXPOSE ${port}
+
+ENV PORT=${port}
+
+CMD ${JSON.stringify(command).replace(/","/g, '", "')}`;
+}
+
+function getJavaBuild(project: JavaProject): { image: string; command: string; cacheDir: string; jarDir: string } {
+  const jdk = project.jdkVersion;
+  if (project.buildTool === 'gradle') {
+    const gradle = project.wrapper ? 'chmod +x gradlew && ./gradlew' : 'gradle';
+    return {
+      image: project.wrapper ? `eclipse-temurin:${jdk}-jdk` : `gradle:8-jdk${jdk}`,
+      // bootJar skips the plain jar that `build` also produces
+      command: `${gradle} ${project.springBoot ? 'bootJar' : 'build'} -x test --no-daemon`,
+      cacheDir: '/root/.gradle',
+      jarDir: 'build/libs',
+    };
+  }
+  const maven = project.wrapper ? 'chmod +x mvnw && ./mvnw' : 'mvn';
+  return {
+    image: project.wrapper ? `eclipse-temurin:${jdk}-jdk` : `maven:3.9-eclipse-temurin-${jdk}`,
+    command: `${maven} -B clean package -DskipTests`,
+    cacheDir: '/root/.m2',
+    jarDir: 'target',
+  };
+}
+
+// Spring Boot 3.2 moved the launcher classes
+function getSpringBootLauncher(version?: string): string {
+  const [major, minor] = (version || '').split('.').map(part => parseInt(part, 10));
+  const legacy = major < 3 || (major === 3 && minor < 2);
+  return legacy ? 'org.springframework.boot.loader.JarLauncher' : 'org.springframework.boot.loader.launch.JarLauncher';
+}
+
+function generateJavaDockerfile(port: number, project?: JavaProject): string {
+  const java = project || { buildTool: 'maven', wrapper: false, jdkVersion: '17', springBoot: false };
+  const build = getJavaBuild(java);
+
+  // Layered jars put dependencies in their own image layers, so code changes only rebuild the last one
+  const extractLayers = java.springBoot ? `
+RUN java -Djarmode=layertools -jar /out/app.jar extract --destination /out/layers
+` : '';
+  const copyApplication = java.springBoot
+    ? `COPY --from=builder /out/layers/dependencies/ ./
+COPY --from=builder /out/layers/spring-boot-loader/ ./
+COPY --from=builder /out/layers/snapshot-dependencies/ ./
+COPY --from=builder /out/layers/application/ ./`
+    : 'COPY --from=builder /out/app.jar app.jar';
+  const entrypoint = java.springBoot
+    ? `["java", "${getSpringBootLauncher(java.springBootVersion)}"]`
+    : '["java", "-jar", "app.jar"]';
+
+  return `# syntax=docker/dockerfile:1
+FROM ${build.image} AS builder
+
+WORKDIR /app
+${java.buildTool === 'gradle' ? `ENV GRADLE_USER_HOME=${build.cacheDir}\n` : ''}
+COPY . .
+
+RUN --mount=type=cache,target=${build.cacheDir} \\
+    ${build.command} && \\
+    mkdir -p /out && \\
+    cp "$(ls ${build.jarDir}/*.jar | grep -v -e '-plain\\.jar$' -e '-sources\\.jar$' -e '-javadoc\\.jar$' | head -n 1)" /out/app.jar
+${extractLayers}
+FROM eclipse-temurin:${java.jdkVersion}-jre-alpine
 
-FROM base AS builder
 WORKDIR /app
+
+RUN addgroup -g 1001 -S appuser && \\
+    adduser -S appuser -u 1001
+
+${copyApplication}
+
+USER appuser
+
+EXPOSE ${port}
+
+ENV PORT=${port}${java.springBoot ? `\nENV SERVER_PORT=${port}` : ''}
+
+ENTRYPOINT ${entrypoint}`;
+}
+
+// Static binaries on distroless: no shell or libc, just CA certificates, tzdata and a nonroot user
+const STATIC_RUNTIME_IMAGE = 'gcr.io/distroless/static-debian12:nonroot';
+
+// Cache mounts need BuildKit, enabled by the syntax directive
+function generateGoDockerfile(port: number, project: GoProject): string {
+  return `# syntax=docker/dockerfile:1
+FROM golang:${project.goVersion}-alpine AS builder
+
+WORKDIR /src
+
+COPY go.mod go.sum* ./
+RUN --mount=type=cache,target=/go/pkg/mod \\
+    go mod download
+
+COPY . .
+RUN --mount=type=cache,target=/go/pkg/mod \\
+    --mount=type=cache,target=/root/.cache/go-build \\
+    CGO_ENABLED=0 GOOS=linux go build -trimpath -ldflags="-s -w" -o /out/app ${project.mainPackage}
+
+FROM ${STATIC_RUNTIME_IMAGE}
+
+COPY --from=builder /out/app /app
+
+USER nonroot:nonroot
+
+EXPOSE ${port}
+
+ENV PORT=${port}
+
+ENTRYPOINT ["/app"]`;
+}
+
+// rust:alpine targets musl, which links statically by default
+function generateRustDockerfile(port: number, project: RustProject): string {
+  return `# syntax=docker/dockerfile:1
+FROM rust:1-alpine AS builder
+
+RUN apk add --no-cache musl-dev
+
+WORKDIR /src
+
+COPY . .
+RUN --mount=type=cache,target=/usr/local/cargo/registry \\
+    --mount=type=cache,target=/usr/local/cargo/git \\
+    --mount=type=cache,target=/src/target \\
+    cargo build --release --bin ${project.binaryName} && \\
+    mkdir -p /out && cp target/release/${project.binaryName} /out/app
+
+FROM ${STATIC_RUNTIME_IMAGE}
+
+COPY --from=builder /out/app /app
+
+USER nonroot:nonroot
+
+EXPOSE ${port}
+
+ENV PORT=${port}
+
+ENTRYPOINT ["/app"]`;
+}
+
+function requireBuildInfo<T>(value: T | undefined, appType: AppType): T {
+  if (!value) {
+    throw new Error(`Project details are required to generate a ${appType} Dockerfile`);
+  }
+  return value;
+}
+
+export function generateDockerfile(appType: AppType, port: number, buildInfo: ProjectBuildInfo = {}): string {
+  if (appType === 'fastapi' || appType === 'django' || appType === 'flask') {
+    return generatePythonDockerfile(appType, port, requireBuildInfo(buildInfo.python, appType));
+  }
+  if (appType === 'go') {
+    return generateGoDockerfile(port, requireBuildInfo(buildInfo.go, appType));
+  }
+  if (appType === 'rust') {
+    return generateRustDockerfile(port, requireBuildInfo(buildInfo.rust, appType));
+  }
+
+  if (buildInfo.node?.workspace && (appType === 'next' || appType === 'nuxt' || appType === 'nest' || appType === 'react' || appType === 'vue')) {
+    return generateNodeWorkspaceDockerfile(appType, port, buildInfo.node, buildInfo.node.workspace);
+  }
+
+  const node = getNodeInstallSteps(buildInfo.node || { packageManager: 'npm' });
+  const nodeSetup = node.setup ? `${node.setup}\n` : '';
+
+  const dockerfiles: Record<Exclude<AppType, PythonAppType | 'go' | 'rust'>, string> = {
+    next: `# syntax=docker/dockerfile:1
+FROM node:20-alpine AS base
+
+FROM base AS deps
+RUN apk add --no-cache libc6-compat
+${nodeSetup}WORKDIR /app
+
+COPY ${node.manifests} ./
+${node.install}
+
+FROM base AS builder
+${nodeSetup}WORKDIR /app
 COPY --from=deps /app/node_modules ./node_modules
 COPY . .
 
 ENV NEXT_TELEMETRY_DISABLED 1
 
-RUN npm run build
+RUN ${node.run('build')}
 
 FROM base AS runner
 WORKDIR /app
@@ -42,21 +499,22 @@ ENV HOSTNAME "0.0.0.0"
 
 CMD ["node", "server.js"]`,
 
-    nuxt: `FROM node:20-alpine AS base
+    nuxt: `# syntax=docker/dockerfile:1
+FROM node:20-alpine AS base
 
 FROM base AS deps
 RUN apk add --no-cache libc6-compat
-WORKDIR /app
+${nodeSetup}WORKDIR /app
 
-COPY package.json package-lock.json* ./
-RUN npm ci
+COPY ${node.manifests} ./
+${node.install}
 
 FROM base AS builder
-WORKDIR /app
+${nodeSetup}WORKDIR /app
 COPY --from=deps /app/node_modules ./node_modules
 COPY . .
 
-RUN npm run build
+RUN ${node.run('build')}
 
 FROM base AS runner
 WORKDIR /app
@@ -78,21 +536,22 @@ ENV NODE_ENV production
 
 CMD ["node", ".output/server/index.mjs"]`,
 
-    nest: `FROM node:20-alpine AS base
+    nest: `# syntax=docker/dockerfile:1
+FROM node:20-alpine AS base
 
 FROM base AS deps
 RUN apk add --no-cache libc6-compat
-WORKDIR /app
+${nodeSetup}WORKDIR /app
 
-COPY package.json package-lock.json* ./
-RUN npm ci
+COPY ${node.manifests} ./
+${node.install}
 
 FROM base AS builder
-WORKDIR /app
+${nodeSetup}WORKDIR /app
 COPY --from=deps /app/node_modules ./node_modules
 COPY . .
 
-RUN npm run build
+RUN ${node.run('build')}
 
 FROM base AS runner
 WORKDIR /app
@@ -115,15 +574,16 @@ ENV PORT ${port}
 
 CMD ["node", "dist/main.js"]`,
 
-    react: `FROM node:20-alpine AS builder
+    react: `# syntax=docker/dockerfile:1
+FROM node:20-alpine AS builder
 
-WORKDIR /app
+${nodeSetup}WORKDIR /app
 
-COPY package.json package-lock.json* ./
-RUN npm ci
+COPY ${node.manifests} ./
+${node.install}
 
 COPY . .
-RUN npm run build
+RUN ${node.run('build')}
 
 FROM nginx:alpine
 
@@ -133,15 +593,16 @@ EXPOSE 80
 
 CMD ["nginx", "-g", "daemon off;"]`,
 
-    vue: `FROM node:20-alpine AS builder
+    vue: `# syntax=docker/dockerfile:1
+FROM node:20-alpine AS builder
 
-WORKDIR /app
+${nodeSetup}WORKDIR /app
 
-COPY package.json package-lock.json* ./
-RUN npm ci
+COPY ${node.manifests} ./
+${node.install}
 
 COPY . .
-RUN npm run build
+RUN ${node.run('build')}
 
 FROM nginx:alpine
 
@@ -151,31 +612,7 @@ EXPOSE 80
 
 CMD ["nginx", "-g", "daemon off;"]`,
 
-    java: `FROM maven:3.9-eclipse-temurin-17 AS builder
-
-WORKDIR /app
-
-COPY pom.xml .
-COPY src ./src
-
-RUN mvn clean package -DskipTests
-
-FROM eclipse-temurin:17-jre-alpine
-
-WORKDIR /app
-
-RUN addgroup -g 1001 -S appuser && \\
-    adduser -S appuser -u 1001
-
-COPY --from=builder /app/target/*.jar app.jar
-
-USER appuser
-
-EXPOSE ${port}
-
-ENV PORT=${port}
-
-ENTRYPOINT ["java", "-jar", "app.jar"]`,
+    java: generateJavaDockerfile(port, buildInfo.java),
   };
 
   if (!dockerfiles[appType]) {
@@ -0,0 +1,218 @@
+// The parts of the Kubernetes API objects that the generators produce
+
+export interface ObjectMeta {
+  name: string;
+  namespace?: string;
+  labels?: Record<string, string>;
+  annotations?: Record<string, string>;
+}
+
+export interface KubernetesObject {
+  apiVersion: string;
+  kind: string;
+  metadata: ObjectMeta;
+}
+
+export interface EnvVar {
+  name: string;
+  value?: string;
+  valueFrom?: {
+    secretKeyRef: { name: string; key: string };
+  };
+}
+
+export interface EnvFromSource {
+  configMapRef?: { name: string };
+  secretRef?: { name: string };
+}
+
+export interface Probe {
+  exec?: { command: string[] };
+  httpGet?: { path: string; port: number };
+  initialDelaySeconds?: number;
+  periodSeconds?: number;
+  timeoutSeconds?: number;
+  failureThreshold?: number;
+}
+
+export interface ResourceRequirements {
+  requests: { cpu: string; memory: string };
+  limits: { cpu: string; memory: string };
+}
+
+export interface Container {
+  name: string;
+  image: string;
+  command?: string[];
+  ports?: { containerPort: number; name: string }[];
+  env?: EnvVar[];
+  envFrom?: EnvFromSource[];
+  volumeMounts?: { name: string; mountPath: string; subPath?: string; readOnly?: boolean }[];
+  resources: ResourceRequirements;
+  livenessProbe?: Probe;
+  readinessProbe?: Probe;
+}
+
+export interface TopologySpreadConstraint {
+  maxSkew: number;
+  topologyKey: string;
+  whenUnsatisfiable: 'ScheduleAnyway' | 'DoNotSchedule';
+  labelSelector: { matchLabels: Record<string, string> };
+}
+
+export interface WeightedPodAffinityTerm {
+  weight: number;
+  podAffinityTerm: {
+    labelSelector: { matchLabels: Record<string, string> };
+    topologyKey: string;
+  };
+}
+
+export interface Affinity {
+  podAntiAffinity?: {
+    preferredDuringSchedulingIgnoredDuringExecution: WeightedPodAffinityTerm[];
+  };
+}
+
+export interface PodSpec {
+  restartPolicy?: 'Always' | 'OnFailure' | 'Never';
+  imagePullSecrets?: { name: string }[];
+  containers: Container[];
+  volumes?: { name: string; configMap: { name: string } }[];
+  affinity?: Affinity;
+  topologySpreadConstraints?: TopologySpreadConstraint[];
+}
+
+export interface PodTemplateSpec {
+  metadata: { labels: Record<string, string>; annotations?: Record<string, string> };
+  spec: PodSpec;
+}
+
+export interface Deployment extends KubernetesObject {
+  spec: {
+    replicas: number;
+    selector: { matchLabels: Record<string, string> };
+    template: PodTemplateSpec;
+  };
+}
+
+export interface JobSpec {
+  backoffLimit?: number;
+  activeDeadlineSeconds?: number;
+  template: PodTemplateSpec;
+}
+
+export interface Job extends KubernetesObject {
+  spec: JobSpec;
+}
+
+export interface CronJob extends KubernetesObject {
+  spec: {
+    schedule: string;
+    concurrencyPolicy: 'Allow' | 'Forbid' | 'Replace';
+    successfulJobsHistoryLimit: number;
+    failedJobsHistoryLimit: number;
+    jobTemplate: { spec: JobSpec };
+  };
+}
+
+export interface Service extends KubernetesObject {
+  spec: {
+    type: 'ClusterIP';
+    ports: { port: number; targetPort: number; protocol: 'TCP'; name: string }[];
+    selector: Record<string, string>;
+  };
+}
+
+export interface IngressPath {
+  path: string;
+  pathType: 'Prefix';
+  backend: { service: { name: string; port: { number: number } } };
+}
+
+export interface Ingress extends KubernetesObject {
+  spec: {
+    ingressClassName: string;
+    rules: { host: string; http: { paths: IngressPath[] } }[];
+    tls?: { hosts: string[]; secretName: string }[];
+  };
+}
+
+export interface MetricTarget {
+  type: 'Utilization' | 'AverageValue' | 'Value';
+  averageUtilization?: number;
+  averageValue?: string;
+  value?: string;
+}
+
+export interface MetricSpec {
+  type: 'Resource' | 'Pods' | 'External';
+  resource?: { name: 'cpu' | 'memory'; target: MetricTarget };
+  pods?: { metric: MetricIdentifier; target: MetricTarget };
+  external?: { metric: MetricIdentifier; target: MetricTarget };
+}
+
+export interface MetricIdentifier {
+  name: string;
+  selector?: { matchLabels: Record<string, string> };
+}
+
+export interface HPAScalingRules {
+  stabilizationWindowSeconds?: number;
+  selectPolicy?: 'Max' | 'Min' | 'Disabled';
+  policies?: { type: 'Pods' | 'Percent'; value: number; periodSeconds: number }[];
+}
+
+export interface HorizontalPodAutoscaler extends KubernetesObject {
+  spec: {
+    scaleTargetRef: { apiVersion: string; kind: string; name: string };
+    minReplicas: number;
+    maxReplicas: number;
+    metrics: MetricSpec[];
+    behavior?: { scaleUp?: HPAScalingRules; scaleDown?: HPAScalingRules };
+  };
+}
+
+export interface PodDisruptionBudget extends KubernetesObject {
+  spec: {
+    minAvailable?: number | string;
+    maxUnavailable?: number | string;
+    selector: { matchLabels: Record<string, string> };
+  };
+}
+
+export interface Secret extends KubernetesObject {
+  type: 'Opaque';
+  // Base64-encoded values
+  data: Record<string, string>;
+}
+
+export interface ConfigMap extends KubernetesObject {
+  data: Record<string, string>;
+}
+
+// External Secrets Operator resources (CRDs, not part of the core API)
+export interface SecretStore extends KubernetesObject {
+  spec: {
+    provider: {
+      aws: {
+        service: 'SecretsManager' | 'ParameterStore';
+        region: string;
+        auth?: { jwt: { serviceAccountRef: { name: string } } };
+      };
+    };
+  };
+}
+
+export interface ExternalSecret extends KubernetesObject {
+  spec: {
+    refreshInterval: string;
+    secretStoreRef: { name: string; kind: 'SecretStore' };
+    target: { name: string; creationPolicy: 'Owner' };
+    data: {
+      secretKey: string;
+      remoteRef: { key: string; property?: string };
+      sourceRef?: { storeRef: { name: string; kind: 'SecretStore' } };
+    }[];
+  };
+}
@@ -1,41 +1,183 @@
-import { AppType } from '../types';
+import * as crypto from 'crypto';
+import * as yaml from 'js-yaml';
+import { AppType, AutoscalingMetric, AvailabilityConfig, DeployConfig, ProbeConfig, ScalingRules, WorkloadConfig, HookConfig } from '../types';
 import { AWSConfig } from '../prompts';
+import { splitSecrets, getReferencedSecretName, isExternalSecretRef, getReferenceRegion } from '../secret-refs';
+import { isNodeApp } from '../utils';
+import { getComponentResourceName } from '../components';
+import {
+  KubernetesObject,
+  ObjectMeta,
+  Container,
+  EnvVar,
+  EnvFromSource,
+  Probe,
+  PodTemplateSpec,
+  Deployment,
+  CronJob,
+  Job,
+  Service,
+  Ingress,
+  HorizontalPodAutoscaler,
+  MetricSpec,
+  HPAScalingRules,
+  PodDisruptionBudget,
+  Secret,
+  ConfigMap,
+  SecretStore,
+  ExternalSecret,
+} from './kubernetes-types';
 
-export function generateDeploymentManifest(config: AWSConfig, appType: AppType): string {
-  const imageName = config.imageRegistry
-    ? `${config.imageRegistry}/${config.appName}:latest`
-    : `${config.appName}:latest`;
+const DEFAULT_LIVENESS_PROBE: Required<Omit<ProbeConfig, 'path' | 'command'>> = {
+  initialDelaySeconds: 30,
+  periodSeconds: 10,
+  timeoutSeconds: 5,
+  failureThreshold: 3,
+};
 
+const DEFAULT_READINESS_PROBE: Required<Omit<ProbeConfig, 'path' | 'command'>> = {
+  initialDelaySeconds: 5,
+  periodSeconds: 5,
+  timeoutSeconds: 3,
+  failureThreshold: 3,
+};
+
+export const DEFAULT_HOOK_TIMEOUT_SECONDS = 600;
+
+// Served by External Secrets Operator 0.17 and later
+const EXTERNAL_SECRETS_API_VERSION = 'external-secrets.io/v1';
+
+/**
+ * YAML for one or more objects, as separate documents. Values are quoted by
+ * the serializer, so quotes, newlines and `#` in them cannot break the file.
+ */
+export function serializeManifest(objects: KubernetesObject | KubernetesObject[]): string {
+  return ([] as KubernetesObject[])
+    .concat(objects)
+    // Drops unset optional fields
+    .map(object => yaml.dump(JSON.parse(JSON.stringify(object)), { lineWidth: -1, noRefs: true, quotingType: '"' }))
+    .join('---\n');
+}
+
+function buildProbe(probe: ProbeConfig, port: number): Probe {
+  return {
+    ...(probe.command ? { exec: { command: probe.command } } : { httpGet: { path: probe.path!, port } }),
+    initialDelaySeconds: probe.initialDelaySeconds,
+    periodSeconds: probe.periodSeconds,
+    timeoutSeconds: probe.timeoutSeconds,
+    failureThreshold: probe.failureThreshold,
+  };
+}
+
+function hasConfigMaps(config: AWSConfig): boolean {
+  return !!config.configMaps && Object.keys(config.configMaps).length > 0;
+}
+
+// Split ConfigMap keys into those injected as env vars and those mounted as files
+function splitConfigMapKeys(config: AWSConfig): { envKeys: string[]; fileKeys: string[] } {
+  const mounts = config.configMapMounts || {};
+  const keys = Object.keys(config.configMaps || {});
+  return {
+    envKeys: keys.filter(key => !mounts[key]),
+    fileKeys: keys.filter(key => !!mounts[key]),
+  };
+}
+
+export function getConfigMapChecksum(config: AWSConfig): string {
+  const payload = JSON.stringify({
+    data: config.configMaps || {},
+    mounts: config.configMapMounts || {},
+  });
+  return crypto.createHash('sha256').update(payload).digest('hex');
+}
+
+// Components of a multi-service app use the app's Secrets and ConfigMaps
+function getSharedName(config: DeployConfig): string {
+  return config.envSourceName || config.partOf || config.appName;
+}
+
+function getLabels(config: DeployConfig): Record<string, string> {
+  return config.partOf
+    ? { app: config.appName, 'app.kubernetes.io/part-of': config.partOf }
+    : { app: config.appName };
+}
+
+function getMetadata(config: AWSConfig, name: string, labels?: Record<string, string>): ObjectMeta {
+  return { name, namespace: config.namespace || 'default', labels };
+}
+
+const MEMORY_UNITS_IN_MI: Record<string, number> = {
+  Ki: 1 / 1024, Mi: 1, Gi: 1024, Ti: 1024 * 1024,
+  K: 1000 / 1048576, M: 1000000 / 1048576, G: 1e9 / 1048576, T: 1e12 / 1048576,
+};
+
+/**
+ * Heap share of the container memory limit. About 256Mi is left for metaspace,
+ * thread stacks and direct buffers, so small containers get a lower percentage.
+ */
+function getMaxRAMPercentage(memoryLimit: string): number | null {
+  const match = memoryLimit.match(/^(\d+(?:\.\d+)?)(Ki|Mi|Gi|Ti|K|M|G|T)?$/);
+  if (!match) {
+    return null;
+  }
+  // A bare number is bytes
+  const limitMi = parseFloat(match[1]) * (match[2] ? MEMORY_UNITS_IN_MI[match[2]] : 1 / 1048576);
+  const percentage = Math.round(((limitMi - 256) / limitMi) * 100);
+  return Math.min(80, Math.max(50, percentage));
+}
+
+// The pushed image when known (pinned to its digest), otherwise the tag that will be pushed
+export function getImageName(config: DeployConfig): string {
+  const repository = config.imageName || config.appName;
+  if (config.images?.[repository]) {
+    return config.images[repository];
+  }
+  const imageTag = config.imageTag || 'latest';
+  return config.imageRegistry ? `${config.imageRegistry}/${repository}:${imageTag}` : `${repository}:${imageTag}`;
+}
+
+// A command run in place of the image's server, by a worker, a cron job or a hook
+interface PodCommand {
+  command: string[];
+  // Set for the pods of Jobs
+  restartPolicy?: 'OnFailure' | 'Never';
+  // Workers only: add the command probes from config.probes
+  probes?: boolean;
+}
+
+/**
+ * Pod template shared by Deployments, CronJobs and Jobs. A pod given a command
+ * runs it instead of serving HTTP: no port, no PORT variable, and only command
+ * probes.
+ */
+function buildPodTemplate(config: DeployConfig, appType: AppType | undefined, run?: PodCommand): PodTemplateSpec {
   const port = appType === 'react' || appType === 'vue' ? 80 : config.port;
   const healthPath = config.healthCheckPath || '/';
 
+  const env: EnvVar[] = [];
+  if (!run) {
+    env.push({ name: 'PORT', value: String(port) });
+  }
+
   // Only set NODE_ENV for Node.js apps
-  const isNodeApp = ['next', 'nuxt', 'nest', 'react', 'vue'].includes(appType);
-  
-  let envSection = `        env:
-        - name: PORT
-          value: "${port}"`;
-  
-  if (isNodeApp) {
-    envSection += `
-        - name: NODE_ENV
-          value: "production"`;
-  }
-
-  if (config.envVars && config.envVars.length > 0) {
-    for (const envVar of config.envVars) {
-      if (envVar.fromSecret && envVar.secretKey) {
-        envSection += `
-        - name: ${envVar.name}
-          valueFrom:
-            secretKeyRef:
-              name: ${config.appName}-secrets
-              key: ${envVar.secretKey}`;
-      } else {
-        envSection += `
-        - name: ${envVar.name}
-          value: "${envVar.value}"`;
-      }
+  if (appType && isNodeApp(appType)) {
+    env.push({ name: 'NODE_ENV', value: 'production' });
+  }
+
+  // JAVA_TOOL_OPTIONS is read by every JVM, whatever the image's entrypoint; a user-set value wins
+  const memoryLimit = config.resources?.limits.memory || '512Mi';
+  const maxRAMPercentage = appType === 'java' && config.jvmMemoryFlags ? getMaxRAMPercentage(memoryLimit) : null;
+  if (maxRAMPercentage && !config.envVars?.some(envVar => envVar.name === 'JAVA_TOOL_OPTIONS')) {
+    env.push({ name: 'JAVA_TOOL_OPTIONS', value: `-XX:MaxRAMPercentage=${maxRAMPercentage}.0 -XX:+ExitOnOutOfMemoryError` });
+  }
+
+  for (const envVar of config.envVars || []) {
+    if (envVar.fromSecret && envVar.secretKey) {
+      env.push({ name: envVar.name, valueFrom: { secretKeyRef: { name: `${getSharedName(config)}-secrets`, key: envVar.secretKey } } });
+    } else if (isExternalSecretRef(envVar.value)) {
+      env.push({ name: envVar.name, valueFrom: { secretKeyRef: { name: getReferencedSecretName(config), key: envVar.name } } });
+    } else {
+      env.push({ name: envVar.name, value: envVar.value });
     }
   }
 
@@ -44,180 +186,460 @@ export function generateDeploymentManifest(config: AWSConfig, appType: AppType):
     limits: { cpu: '500m', memory: '512Mi' }
   };
 
+  const container: Container = {
+    name: config.appName,
+    image: getImageName(config),
+    command: run?.command,
+    ports: run ? undefined : [{ containerPort: port, name: 'http' }],
+    env: env.length > 0 ? env : undefined,
+    resources: {
+      requests: { memory: resources.requests.memory, cpu: resources.requests.cpu },
+      limits: { memory: resources.limits.memory, cpu: resources.limits.cpu },
+    },
+  };
+  const template: PodTemplateSpec = {
+    metadata: { labels: getLabels(config) },
+    spec: {
+      // Job pods are not restarted once the command has succeeded
+      restartPolicy: run?.restartPolicy,
+      containers: [container],
+    },
+  };
+
+  const envFrom: EnvFromSource[] = [];
+  if (hasConfigMaps(config)) {
+    const { envKeys, fileKeys } = splitConfigMapKeys(config);
+    if (envKeys.length > 0) {
+      envFrom.push({ configMapRef: { name: `${getSharedName(config)}-config` } });
+    }
+    if (fileKeys.length > 0) {
+      container.volumeMounts = fileKeys.map(key => ({
+        name: 'config-files',
+        mountPath: config.configMapMounts![key],
+        subPath: key,
+        readOnly: true,
+      }));
+      template.spec.volumes = [{ name: 'config-files', configMap: { name: `${getSharedName(config)}-config-files` } }];
+    }
+    // Changing any ConfigMap value changes the pod template and restarts the pods
+    template.metadata.annotations = { 'checksum/config': getConfigMapChecksum(config) };
+  }
+
+  // Every secret key is exposed as an environment variable of the same name
+  const { local: localSecrets, references } = splitSecrets(config);
+  if (Object.keys(localSecrets).length > 0) {
+    envFrom.push({ secretRef: { name: `${getSharedName(config)}-secrets` } });
+  }
+  if (Object.keys(references).length > 0) {
+    envFrom.push({ secretRef: { name: getReferencedSecretName(config) } });
+  }
+  container.envFrom = envFrom.length > 0 ? envFrom : undefined;
+
+  if (!run) {
+    container.livenessProbe = buildProbe({ ...DEFAULT_LIVENESS_PROBE, path: healthPath, ...config.probes?.liveness }, port);
+    container.readinessProbe = buildProbe({ ...DEFAULT_READINESS_PROBE, path: healthPath, ...config.probes?.readiness }, port);
+  } else if (run.probes) {
+    if (config.probes?.liveness?.command) {
+      container.livenessProbe = buildProbe({ ...DEFAULT_LIVENESS_PROBE, ...config.probes.liveness }, port);
+    }
+    if (config.probes?.readiness?.command) {
+      container.readinessProbe = buildProbe({ ...DEFAULT_READINESS_PROBE, ...config.probes.readiness }, port);
+    }
+  }
+
   // Add imagePullSecrets for ECR
-  let imagePullSecretsSection = '';
   if (config.imageRegistry && config.imageRegistry.includes('amazonaws.com')) {
-    imagePullSecretsSection = `      imagePullSecrets:
-      - name: ecr-registry-secret
-`;
-  }
-
-  return `apiVersion: apps/v1
-kind: Deployment
-metadata:
-  name: ${config.appName}
-  namespace: ${config.namespace || 'default'}
-  labels:
-    app: ${config.appName}
-spec:
-  replicas: ${config.replicas}
-  selector:
-    matchLabels:
-      app: ${config.appName}
-  template:
-    metadata:
-      labels:
-        app: ${config.appName}
-    spec:
-${imagePullSecretsSection}      containers:
-      - name: ${config.appName}
-        image: ${imageName}
-        ports:
-        - containerPort: ${port}
-          name: http
-${envSection}
-        resources:
-          requests:
-            memory: "${resources.requests.memory}"
-            cpu: "${resources.requests.cpu}"
-          limits:
-            memory: "${resources.limits.memory}"
-            cpu: "${resources.limits.cpu}"
-        livenessProbe:
-          httpGet:
-            path: ${healthPath}
-            port: ${port}
-          initialDelaySeconds: 30
-          periodSeconds: 10
-          timeoutSeconds: 5
-          failureThreshold: 3
-        readinessProbe:
-          httpGet:
-            path: ${healthPath}
-            port: ${port}
-          initialDelaySeconds: 5
-          periodSeconds: 5
-          timeoutSeconds: 3
-          failureThreshold: 3
-`;
-}
-
-export function generateServiceManifest(config: AWSConfig, appType: AppType): string {
+    template.spec.imagePullSecrets = [{ name: 'ecr-registry-secret' }];
+  }
+
+  return template;
+}
+
+// The availability settings of a Deployment, or null when it gets no scheduling rules and no PodDisruptionBudget
+function getAvailability(config: DeployConfig): AvailabilityConfig | null {
+  const availability = config.availability || {};
+  const maxReplicas = config.autoscaling?.enabled ? config.autoscaling.maxReplicas : config.replicas;
+  return availability.enabled ?? maxReplicas > 1 ? availability : null;
+}
+
+/**
+ * Deployment of the app, or of a worker when a workload is given. With more
+ * than one replica they are spread over zones and nodes, preferring not to
+ * share a node.
+ */
+export function generateDeploymentManifest(config: DeployConfig, appType?: AppType, workload?: WorkloadConfig): Deployment {
+  const selector = { matchLabels: { app: config.appName } };
+  const template = buildPodTemplate(config, appType, workload && { command: workload.command, probes: true });
+
+  const availability = getAvailability(config);
+  if (availability && availability.topologySpread !== false) {
+    template.spec.topologySpreadConstraints = ['topology.kubernetes.io/zone', 'kubernetes.io/hostname'].map(topologyKey => ({
+      maxSkew: availability.maxSkew ?? 1,
+      topologyKey,
+      whenUnsatisfiable: availability.whenUnsatisfiable || 'ScheduleAnyway',
+      labelSelector: selector,
+    }));
+  }
+  if (availability && availability.podAntiAffinity !== false) {
+    template.spec.affinity = {
+      podAntiAffinity: {
+        preferredDuringSchedulingIgnoredDuringExecution: [{
+          weight: 100,
+          podAffinityTerm: { labelSelector: selector, topologyKey: 'kubernetes.io/hostname' },
+        }],
+      },
+    };
+  }
+
+  return {
+    apiVersion: 'apps/v1',
+    kind: 'Deployment',
+    metadata: getMetadata(config, config.appName, getLabels(config)),
+    spec: {
+      replicas: config.replicas,
+      selector,
+      template,
+    },
+  };
+}
+
+/**
+ * PodDisruptionBudget of a Deployment that can run more than one replica, so
+ * a node drain never evicts all of them at once.
+ */
+export function generateDisruptionBudgetManifest(config: DeployConfig): PodDisruptionBudget | null {
+  const availability = getAvailability(config);
+  if (!availability) {
+    return null;
+  }
+
+  return {
+    apiVersion: 'policy/v1',
+    kind: 'PodDisruptionBudget',
+    metadata: getMetadata(config, `${config.appName}-pdb`, getLabels(config)),
+    spec: {
+      // maxUnavailable by default: unlike minAvailable it never blocks a drain when scaled down to one replica
+      ...(availability.minAvailable !== undefined
+        ? { minAvailable: availability.minAvailable }
+        : { maxUnavailable: availability.maxUnavailable ?? 1 }),
+      selector: { matchLabels: { app: config.appName } },
+    },
+  };
+}
+
+export function generateCronJobManifest(config: DeployConfig, appType: AppType | undefined, workload: WorkloadConfig): CronJob {
+  return {
+    apiVersion: 'batch/v1',
+    kind: 'CronJob',
+    metadata: getMetadata(config, config.appName, getLabels(config)),
+    spec: {
+      schedule: workload.schedule!,
+      concurrencyPolicy: workload.concurrencyPolicy || 'Forbid',
+      successfulJobsHistoryLimit: workload.successfulJobsHistoryLimit ?? 3,
+      failedJobsHistoryLimit: workload.failedJobsHistoryLimit ?? 1,
+      jobTemplate: {
+        spec: {
+          template: buildPodTemplate(config, appType, { command: workload.command, restartPolicy: 'OnFailure' }),
+        },
+      },
+    },
+  };
+}
+
+/**
+ * Job running the pre-deploy hook with the new image. It is not retried, so a
+ * failed migration is reported once instead of being run again.
+ */
+export function generatePreDeployJobManifest(config: DeployConfig, appType: AppType | undefined, hook: HookConfig): Job {
+  return {
+    apiVersion: 'batch/v1',
+    kind: 'Job',
+    metadata: getMetadata(config, config.appName, getLabels(config)),
+    spec: {
+      backoffLimit: 0,
+      activeDeadlineSeconds: hook.timeoutSeconds ?? DEFAULT_HOOK_TIMEOUT_SECONDS,
+      template: buildPodTemplate(config, appType, { command: hook.command, restartPolicy: 'Never' }),
+    },
+  };
+}
+
+export function generateServiceManifest(config: DeployConfig, appType?: AppType): Service {
   const port = appType === 'react' || appType === 'vue' ? 80 : config.port;
 
-  return `apiVersion: v1
-kind: Service
-metadata:
-  name: ${config.appName}-service
-  namespace: ${config.namespace || 'default'}
-  labels:
-    app: ${config.appName}
-spec:
-  type: ClusterIP
-  ports:
-  - port: 80
-    targetPort: ${port}
-    protocol: TCP
-    name: http
-  selector:
-    app: ${config.appName}
-`;
-}
-
-export function generateIngressManifest(config: AWSConfig): string {
-  const hostname = config.domain 
+  return {
+    apiVersion: 'v1',
+    kind: 'Service',
+    metadata: getMetadata(config, `${config.appName}-service`, getLabels(config)),
+    spec: {
+      type: 'ClusterIP',
+      ports: [{ port: 80, targetPort: port, protocol: 'TCP', name: 'http' }],
+      selector: { app: config.appName },
+    },
+  };
+}
+
+/**
+ * One Ingress for the app. A multi-service app routes each component's
+ * ingressPath to its Service, longest prefix first so `/api` wins over `/`.
+ */
+export function generateIngressManifest(config: DeployConfig): Ingress {
+  const hostname = config.domain
     ? (config.domain.subdomain ? `${config.domain.subdomain}.${config.domain.domain}` : config.domain.domain)
     : `${config.appName}.example.com`;
 
-  // Start with HTTP only, HTTPS will be enabled after certificate validation
-  let annotations = `    alb.ingress.kubernetes.io/scheme: internet-facing
-    alb.ingress.kubernetes.io/target-type: ip
-    alb.ingress.kubernetes.io/listen-ports: '[{"HTTP": 80}]'`;
-
-  // Certificate and HTTPS will be added after validation in waitForIngressAndSetupDNS
-  // This prevents ALB from failing to create HTTPS listener with invalid certificate
+  const routes = config.components?.length
+    ? config.components
+      .filter(component => component.ingressPath)
+      .map(component => ({ path: component.ingressPath!, service: `${getComponentResourceName(config.appName, component)}-service` }))
+      .sort((a, b) => b.path.length - a.path.length)
+    : [{ path: '/', service: `${config.appName}-service` }];
 
+  const ingress: Ingress = {
+    apiVersion: 'networking.k8s.io/v1',
+    kind: 'Ingress',
+    metadata: {
+      name: `${config.appName}-ingress`,
+      namespace: config.namespace || 'default',
+      // Start with HTTP only, HTTPS will be enabled after certificate validation.
+      // Certificate and HTTPS will be added after validation in waitForIngressAndSetupDNS
+      // This prevents ALB from failing to create HTTPS listener with invalid certificate
+      annotations: {
+        'alb.ingress.kubernetes.io/scheme': 'internet-facing',
+        'alb.ingress.kubernetes.io/target-type': 'ip',
+        'alb.ingress.kubernetes.io/listen-ports': '[{"HTTP": 80}]',
+      },
+    },
+    spec: {
+      ingressClassName: 'alb',
+      rules: [{
+        host: hostname,
+        http: {
+          paths: routes.map(route => ({
+            path: route.path,
+            pathType: 'Prefix',
+            backend: { service: { name: route.service, port: { number: 80 } } },
+          })),
+        },
+      }],
+    },
+  };
 
-  let tlsSection = '';
   if (config.domain && config.domain.enableSSL && config.domain.certificateARN) {
-    tlsSection = `  tls:
-  - hosts:
-    - ${hostname}
-    secretName: ${config.appName}-tls`;
-  }
-
-  return `apiVersion: networking.k8s.io/v1
-kind: Ingress
-metadata:
-  name: ${config.appName}-ingress
-  namespace: ${config.namespace || 'default'}
-  annotations:
-${annotations}
-spec:
-  ingressClassName: alb
-  rules:
-  - host: ${hostname}
-    http:
-      paths:
-      - path: /
-        pathType: Prefix
-        backend:
-          service:
-            name: ${config.appName}-service
-            port:
-              number: 80
-${tlsSection}
-`;
-}
-
-export function generateAutoscalingManifest(config: AWSConfig): string {
+    ingress.spec.tls = [{ hosts: [hostname], secretName: `${config.appName}-tls` }];
+  }
+
+  return ingress;
+}
+
+function buildResourceMetric(name: 'cpu' | 'memory', utilization: number): MetricSpec {
+  return {
+    type: 'Resource',
+    resource: { name, target: { type: 'Utilization', averageUtilization: utilization } },
+  };
+}
+
+function buildCustomMetric(metric: AutoscalingMetric): MetricSpec {
+  const field = metric.type === 'Pods' ? 'pods' : 'external';
+  const targetKey = metric.targetType === 'Value' ? 'value' : 'averageValue';
+  const selector = metric.selector && Object.keys(metric.selector).length > 0
+    ? { matchLabels: metric.selector }
+    : undefined;
+
+  return {
+    type: metric.type,
+    [field]: {
+      metric: { name: metric.name, selector },
+      target: { type: metric.targetType, [targetKey]: metric.targetValue },
+    },
+  };
+}
+
+function buildScalingRules(rules: ScalingRules): HPAScalingRules {
+  return {
+    stabilizationWindowSeconds: rules.stabilizationWindowSeconds,
+    selectPolicy: rules.selectPolicy,
+    policies: rules.policies && rules.policies.length > 0
+      ? rules.policies.map(policy => ({ type: policy.type, value: policy.value, periodSeconds: policy.periodSeconds }))
+      : undefined,
+  };
+}
+
+export function generateAutoscalingManifest(config: AWSConfig): HorizontalPodAutoscaler | null {
   if (!config.autoscaling || !config.autoscaling.enabled) {
-    return '';
-  }
-
-  const targetCPU = config.autoscaling.targetCPU || 70;
-
-  return `apiVersion: autoscaling/v2
-kind: HorizontalPodAutoscaler
-metadata:
-  name: ${config.appName}-hpa
-  namespace: ${config.namespace || 'default'}
-spec:
-  scaleTargetRef:
-    apiVersion: apps/v1
-    kind: Deployment
-    name: ${config.appName}
-  minReplicas: ${config.autoscaling.minReplicas}
-  maxReplicas: ${config.autoscaling.maxReplicas}
-  metrics:
-  - type: Resource
-    resource:
-      name: cpu
-      target:
-        type: Utilization
-        averageUtilization: ${targetCPU}
-`;
-}
-
-export function generateSecretsManifest(config: AWSConfig): string {
-  if (!config.secrets || Object.keys(config.secrets).length === 0) {
-    return '';
-  }
-
-  const secrets: string[] = [];
-  for (const [key, value] of Object.entries(config.secrets)) {
-    const encoded = Buffer.from(value).toString('base64');
-    secrets.push(`  ${key}: ${encoded}`);
-  }
-
-  return `apiVersion: v1
-kind: Secret
-metadata:
-  name: ${config.appName}-secrets
-  namespace: ${config.namespace || 'default'}
-type: Opaque
-data:
-${secrets.join('\n')}
-`;
+    return null;
+  }
+
+  const autoscaling = config.autoscaling;
+  const metrics: MetricSpec[] = [];
+
+  if (autoscaling.targetCPU) {
+    metrics.push(buildResourceMetric('cpu', autoscaling.targetCPU));
+  }
+  if (autoscaling.targetMemory) {
+    metrics.push(buildResourceMetric('memory', autoscaling.targetMemory));
+  }
+  for (const metric of autoscaling.customMetrics || []) {
+    metrics.push(buildCustomMetric(metric));
+  }
+
+  // Keep the previous behavior of scaling on 70% CPU when nothing is configured
+  if (metrics.length === 0) {
+    metrics.push(buildResourceMetric('cpu', 70));
+  }
+
+  const hpa: HorizontalPodAutoscaler = {
+    apiVersion: 'autoscaling/v2',
+    kind: 'HorizontalPodAutoscaler',
+    metadata: getMetadata(config, `${config.appName}-hpa`),
+    spec: {
+      scaleTargetRef: { apiVersion: 'apps/v1', kind: 'Deployment', name: config.appName },
+      minReplicas: autoscaling.minReplicas,
+      maxReplicas: autoscaling.maxReplicas,
+      metrics,
+    },
+  };
+
+  if (autoscaling.behavior && (autoscaling.behavior.scaleUp || autoscaling.behavior.scaleDown)) {
+    hpa.spec.behavior = {
+      scaleUp: autoscaling.behavior.scaleUp && buildScalingRules(autoscaling.behavior.scaleUp),
+      scaleDown: autoscaling.behavior.scaleDown && buildScalingRules(autoscaling.behavior.scaleDown),
+    };
+  }
+
+  return hpa;
+}
+
+function encodeData(values: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(values).map(([key, value]) => [key, Buffer.from(value).toString('base64')])
+  );
+}
+
+export function generateSecretsManifest(config: AWSConfig): Secret | null {
+  // References are applied separately (resolved at deploy time or via ExternalSecret)
+  const { local } = splitSecrets(config);
+  if (Object.keys(local).length === 0) {
+    return null;
+  }
+
+  return {
+    apiVersion: 'v1',
+    kind: 'Secret',
+    metadata: getMetadata(config, `${config.appName}-secrets`),
+    type: 'Opaque',
+    data: encodeData(local),
+  };
+}
+
+
+// Only rendered in memory and piped to kubectl, never written to disk
+export function generateReferencedSecretManifest(config: AWSConfig, values: Record<string, string>): Secret {
+  return {
+    apiVersion: 'v1',
+    kind: 'Secret',
+    metadata: getMetadata(config, getReferencedSecretName(config), { app: config.appName }),
+    type: 'Opaque',
+    data: encodeData(values),
+  };
 }
 
+function buildSecretStore(config: AWSConfig, name: string, service: 'SecretsManager' | 'ParameterStore', region: string): SecretStore {
+  const serviceAccount = config.externalSecrets?.serviceAccount;
+
+  return {
+    apiVersion: EXTERNAL_SECRETS_API_VERSION,
+    kind: 'SecretStore',
+    metadata: getMetadata(config, name, { app: config.appName }),
+    spec: {
+      provider: {
+        aws: {
+          service,
+          region,
+          auth: serviceAccount ? { jwt: { serviceAccountRef: { name: serviceAccount } } } : undefined,
+        },
+      },
+    },
+  };
+}
+
+/**
+ * SecretStore(s) and an ExternalSecret for External Secrets Operator. The
+ * operator fetches the referenced values in-cluster and writes the
+ * `<app>-ref-secrets` Secret, so no value passes through the deploy machine.
+ */
+export function generateExternalSecretManifest(config: AWSConfig): KubernetesObject[] {
+  const { references } = splitSecrets(config);
+  const entries = Object.entries(references);
+  if (entries.length === 0) {
+    return [];
+  }
+
+  const storeNames = {
+    secretsmanager: `${config.appName}-secretsmanager`,
+    ssm: `${config.appName}-parameterstore`,
+  };
+  const providers = Array.from(new Set(entries.map(([, reference]) => reference.provider)));
+  const defaultProvider = providers[0];
+
+  const stores = providers.map(provider => {
+    // A SecretStore reads from one region: that of the ARNs, or the cluster's
+    const regions = Array.from(new Set(entries
+      .filter(([, reference]) => reference.provider === provider)
+      .map(([, reference]) => getReferenceRegion(reference, config.region))));
+    if (regions.length > 1) {
+      throw new Error(`${provider}: references span several regions (${regions.join(', ')}); External Secrets reads each provider from one region`);
+    }
+    return buildSecretStore(config, storeNames[provider], provider === 'ssm' ? 'ParameterStore' : 'SecretsManager', regions[0]);
+  });
+
+  const externalSecret: ExternalSecret = {
+    apiVersion: EXTERNAL_SECRETS_API_VERSION,
+    kind: 'ExternalSecret',
+    metadata: getMetadata(config, getReferencedSecretName(config), { app: config.appName }),
+    spec: {
+      refreshInterval: config.externalSecrets?.refreshInterval || '1h',
+      secretStoreRef: { name: storeNames[defaultProvider], kind: 'SecretStore' },
+      target: { name: getReferencedSecretName(config), creationPolicy: 'Owner' },
+      data: entries.map(([key, reference]) => ({
+        secretKey: key,
+        remoteRef: { key: reference.id, property: reference.property },
+        sourceRef: reference.provider !== defaultProvider
+          ? { storeRef: { name: storeNames[reference.provider], kind: 'SecretStore' } }
+          : undefined,
+      })),
+    },
+  };
+
+  return [...stores, externalSecret];
+}
+
+export function generateConfigMapManifest(config: AWSConfig): ConfigMap[] {
+  if (!hasConfigMaps(config)) {
+    return [];
+  }
+
+  const { envKeys, fileKeys } = splitConfigMapKeys(config);
+  const configMaps: ConfigMap[] = [];
+
+  const pickData = (keys: string[]) => Object.fromEntries(keys.map(key => [key, config.configMaps![key]]));
+
+  if (envKeys.length > 0) {
+    configMaps.push({
+      apiVersion: 'v1',
+      kind: 'ConfigMap',
+      metadata: getMetadata(config, `${config.appName}-config`, { app: config.appName }),
+      data: pickData(envKeys),
+    });
+  }
+
+  if (fileKeys.length > 0) {
+    configMaps.push({
+      apiVersion: 'v1',
+      kind: 'ConfigMap',
+      metadata: getMetadata(config, `${config.appName}-config-files`, { app: config.appName }),
+      data: pickData(fileKeys),
+    });
+  }
+
+  return configMaps;
+}
@@ -1,4 +1,71 @@
-export type AppType = 'next' | 'nuxt' | 'nest' | 'react' | 'vue' | 'java';
+export type AppType = 'next' | 'nuxt' | 'nest' | 'react' | 'vue' | 'java' | 'fastapi' | 'django' | 'flask' | 'go' | 'rust';
+
+export type PythonAppType = Extract<AppType, 'fastapi' | 'django' | 'flask'>;
+
+export type PythonPackageManager = 'pip' | 'poetry' | 'uv';
+
+export interface PythonProject {
+  packageManager: PythonPackageManager;
+  // WSGI/ASGI target passed to gunicorn or uvicorn, e.g. "main:app" or "mysite.wsgi:application"
+  entrypoint: string;
+}
+
+export type NodePackageManager = 'npm' | 'pnpm' | 'yarn' | 'bun';
+
+export interface NodeProject {
+  packageManager: NodePackageManager;
+  // From the packageManager field in package.json, e.g. "8.15.4"
+  version?: string;
+  // Yarn 2+: installs with --immutable and needs the node-modules linker
+  yarnBerry?: boolean;
+  // Set when the app is a package in a JS monorepo
+  workspace?: NodeWorkspace;
+}
+
+export interface NodeWorkspace {
+  // Repository root with the lockfile; the Docker build context
+  root: string;
+  // App directory relative to root, with forward slashes, e.g. "apps/web"
+  appPath: string;
+  packageName: string;
+  // Task runner that builds the app together with its workspace dependencies
+  orchestrator?: 'turbo' | 'nx';
+  // Nx project name, from project.json
+  nxProject?: string;
+}
+
+export interface JavaProject {
+  buildTool: 'maven' | 'gradle';
+  // Build with ./mvnw or ./gradlew instead of the tool image
+  wrapper: boolean;
+  // JDK feature release, e.g. "21"
+  jdkVersion: string;
+  // Spring Boot jars are extracted into layers
+  springBoot: boolean;
+  springBootVersion?: string;
+}
+
+export interface GoProject {
+  // Go release for the builder image, from the go directive in go.mod
+  goVersion: string;
+  // Package with func main, e.g. "." or "./cmd/api"
+  mainPackage: string;
+}
+
+export interface RustProject {
+  binaryName: string;
+}
+
+/**
+ * Details read from the project that the generated Dockerfile depends on.
+ */
+export interface ProjectBuildInfo {
+  node?: NodeProject;
+  java?: JavaProject;
+  python?: PythonProject;
+  go?: GoProject;
+  rust?: RustProject;
+}
 
 export interface ResourceLimits {
   cpu: string;
@@ -15,12 +82,75 @@ export interface Resources {
   limits: ResourceLimits;
 }
 
+export interface AutoscalingMetric {
+  // Pods: per-pod custom metric (e.g. from Prometheus adapter)
+  // External: metric not tied to a Kubernetes object (e.g. ALB requests from CloudWatch)
+  type: 'Pods' | 'External';
+  name: string;
+  targetType: 'AverageValue' | 'Value';
+  targetValue: string;
+  selector?: Record<string, string>;
+}
+
+export interface ScalingPolicy {
+  type: 'Pods' | 'Percent';
+  value: number;
+  periodSeconds: number;
+}
+
+export interface ScalingRules {
+  stabilizationWindowSeconds?: number;
+  selectPolicy?: 'Max' | 'Min' | 'Disabled';
+  policies?: ScalingPolicy[];
+}
+
+export interface AutoscalingBehavior {
+  scaleUp?: ScalingRules;
+  scaleDown?: ScalingRules;
+}
+
 export interface Autoscaling {
   enabled: boolean;
   minReplicas: number;
   maxReplicas: number;
   targetCPU?: number;
   targetMemory?: number;
+  customMetrics?: AutoscalingMetric[];
+  behavior?: AutoscalingBehavior;
+}
+
+/**
+ * Keeping the replicas of a Deployment apart and partly available while nodes
+ * are drained. On by default for Deployments that can run more than one replica.
+ */
+export interface AvailabilityConfig {
+  enabled?: boolean;
+  // PodDisruptionBudget: a count or a percentage such as "50%". One of them; maxUnavailable 1 by default
+  minAvailable?: number | string;
+  maxUnavailable?: number | string;
+  // topologySpreadConstraints over zones and nodes; true by default
+  topologySpread?: boolean;
+  // 1 by default
+  maxSkew?: number;
+  // DoNotSchedule leaves pods Pending instead of placing them unevenly; ScheduleAnyway by default
+  whenUnsatisfiable?: 'ScheduleAnyway' | 'DoNotSchedule';
+  // Preferred podAntiAffinity between replicas on the same node; true by default
+  podAntiAffinity?: boolean;
+}
+
+export interface ProbeConfig {
+  path?: string;
+  // Run in the container instead of an HTTP GET; healthy when it exits 0
+  command?: string[];
+  initialDelaySeconds?: number;
+  periodSeconds?: number;
+  timeoutSeconds?: number;
+  failureThreshold?: number;
+}
+
+export interface Probes {
+  liveness?: ProbeConfig;
+  readiness?: ProbeConfig;
 }
 
 export interface DomainConfig {
@@ -32,6 +162,41 @@ export interface DomainConfig {
   cloudflareZoneId: string;
 }
 
+export type ImageTagStrategy = 'git-sha' | 'timestamp' | 'template';
+
+export interface ImageTagConfig {
+  strategy: ImageTagStrategy;
+  // Used with the 'template' strategy, e.g. '{appName}-{gitSha}-{date}'
+  template?: string;
+  // Also push a mutable 'latest' alias next to the immutable tag
+  pushLatest?: boolean;
+}
+
+export interface BuiltImage {
+  repository: string;
+  tag: string;
+  digest?: string;
+  // Reference used in the Deployment: repository@digest when known, otherwise repository:tag
+  uri: string;
+}
+
+// Secret value kept in AWS instead of locally:
+// `secretsmanager:<name-or-arn>#<json-key>` or `ssm:/parameter/path`
+export interface SecretReference {
+  provider: 'secretsmanager' | 'ssm';
+  id: string;
+  // JSON key inside a Secrets Manager secret
+  property?: string;
+}
+
+export interface ExternalSecretsConfig {
+  // Emit External Secrets Operator manifests instead of resolving references at deploy time
+  enabled: boolean;
+  refreshInterval?: string;
+  // ServiceAccount (IRSA) the SecretStore authenticates with; defaults to the operator's credentials
+  serviceAccount?: string;
+}
+
 export interface EnvVar {
   name: string;
   value: string;
@@ -39,8 +204,116 @@ export interface EnvVar {
   secretKey?: string;
 }
 
+/**
+ * One deployable part of a multi-service app (e.g. web, api). Components share
+ * the app's namespace, Secrets, ConfigMaps, domain and Ingress.
+ */
+export interface ComponentConfig {
+  // Short name; its resources are named <app>-<name>
+  name: string;
+  appType?: AppType;
+  // Custom Dockerfile, built as-is
+  dockerfile?: string;
+  // Absolute source directory; the app directory when unset
+  path?: string;
+  port: number;
+  replicas: number;
+  resources?: Resources;
+  autoscaling?: Autoscaling;
+  // Merged over the app's
+  availability?: AvailabilityConfig;
+  // Added to the app's environment variables, replacing those with the same name
+  envVars?: EnvVar[];
+  healthCheckPath?: string;
+  probes?: Probes;
+  // Path prefix routed to this component by the shared Ingress, e.g. "/api"
+  ingressPath?: string;
+  // Components that must be rolled out before this one is applied
+  dependsOn?: string[];
+}
+
+export type WorkloadKind = 'worker' | 'cron';
+
+/**
+ * A background process of the app: a long-running worker or a CronJob. It runs
+ * the app's image (or a component's) with its own command and has no Service.
+ */
+export interface WorkloadConfig {
+  // Short name; its resources are named <app>-<name>
+  name: string;
+  kind: WorkloadKind;
+  // Multi-service app: the component whose image and environment it runs with
+  component?: string;
+  // Replaces the image's command
+  command: string[];
+  // worker only
+  replicas?: number;
+  resources?: Resources;
+  // Added to the app's (or component's) environment variables
+  envVars?: EnvVar[];
+  // worker only, and only command probes: nothing listens on a port
+  probes?: Probes;
+  // cron only, e.g. "*/15 * * * *"
+  schedule?: string;
+  concurrencyPolicy?: 'Allow' | 'Forbid' | 'Replace';
+  successfulJobsHistoryLimit?: number;
+  failedJobsHistoryLimit?: number;
+}
+
+/**
+ * A command run to completion as a Kubernetes Job with the new image, e.g. a
+ * database migration, before any Deployment is updated.
+ */
+export interface HookConfig {
+  command: string[];
+  // Multi-service app: the component whose image and environment it runs with
+  component?: string;
+  // The Job fails when it runs longer; 600 by default
+  timeoutSeconds?: number;
+}
+
+export interface DeployHooks {
+  preDeploy?: HookConfig;
+}
+
+// Argo CD Application pointing at the committed manifests
+export interface ArgoCDApplicationConfig {
+  enabled?: boolean;
+  // Application name; <app> or <app>-<profile> by default
+  name?: string;
+  // Namespace Argo CD runs in; argocd by default
+  namespace?: string;
+  project?: string;
+  // Read from the checkout's origin remote when unset
+  repoURL?: string;
+  // The checkout's current branch when unset
+  targetRevision?: string;
+}
+
+/**
+ * GitOps mode: the manifests are committed to a local checkout of the repo
+ * Argo CD or Flux syncs from, instead of applied with kubectl.
+ */
+export interface GitOpsConfig {
+  // The local checkout; GitOps mode is on when set (gitops.repo or --gitops)
+  repoPath?: string;
+  // Directory in the repo the manifests are written to; <app> or <app>/<profile> by default
+  path?: string;
+  // Push the commit to the upstream branch; true by default
+  push?: boolean;
+  argocd?: ArgoCDApplicationConfig;
+  // How long to wait for the cluster to run the committed images; 600 by default
+  syncTimeoutSeconds?: number;
+}
+
+// files: raw manifests in k8s/; kustomize: a base plus one overlay per environment, applied with kubectl apply -k
+export type ManifestFormat = 'files' | 'kustomize';
+
 export interface DeployConfig {
-  appType: AppType;
+  // Unset in custom Dockerfile mode
+  appType?: AppType;
+  // Custom Dockerfile mode: the user's Dockerfile, built as-is instead of a generated one
+  dockerfile?: string;
   appName: string;
   port: number;
   replicas: number;
@@ -54,11 +327,72 @@ export interface DeployConfig {
   domain?: DomainConfig;
   resources?: Resources;
   autoscaling?: Autoscaling;
+  availability?: AvailabilityConfig;
   envVars?: EnvVar[];
+  // Values may be SecretReference strings (secretsmanager:..., ssm:...)
   secrets?: Record<string, string>;
+  externalSecrets?: ExternalSecretsConfig;
   configMaps?: Record<string, string>;
+  // ConfigMap keys to mount as files (key -> absolute path in the container).
+  // Keys not listed here are exposed as environment variables via envFrom.
+  configMapMounts?: Record<string, string>;
   healthCheckPath?: string;
+  // Probe overrides; the path defaults to healthCheckPath
+  probes?: Probes;
+  // Java: set -XX:MaxRAMPercentage from resources.limits.memory
+  jvmMemoryFlags?: boolean;
+  imageTagging?: ImageTagConfig;
+  // Tag resolved for the current deploy (set by deployToEKS)
+  imageTag?: string;
+  // Roll back to the previous release when the rollout or health check fails
+  autoRollback?: boolean;
   // Optional directory to store generated deployment artifacts (Dockerfile, k8s/)
   artifactDir?: string;
+  // Docker build context; the repository root for apps in a JS monorepo
+  buildContext?: string;
+  // Multi-service app: deployed as these components instead of a single container
+  components?: ComponentConfig[];
+  // Workers and cron jobs run next to the app (or its components)
+  workloads?: WorkloadConfig[];
+  hooks?: DeployHooks;
+  // Set on a component's config: the app whose Secrets, ConfigMaps and Ingress it shares
+  partOf?: string;
+  // Name the pods' Secrets and ConfigMaps are prefixed with when not partOf: the pre-deploy hook reads its own copies
+  envSourceName?: string;
+  // Image repository name when it differs from appName: a workload runs the image of its app or component
+  imageName?: string;
+  // Pushed image URIs by repository name (set by deployToEKS), used in place of imageTag
+  images?: Record<string, string>;
+  // Cluster minor version the manifests are validated against; read from EKS when unset
+  kubernetesVersion?: string;
+  // Fail instead of skipping validation when the version or its schema cannot be resolved
+  strictValidation?: boolean;
+  manifestFormat?: ManifestFormat;
+  // Kustomize: every ekspressjs.yaml setting at its top-level value (unset when only profiles set it), to render the base from
+  kustomizeBase?: Partial<DeployConfig>;
+  gitops?: GitOpsConfig;
 }
 
+
+export type ReleaseStatus = 'pending' | 'deployed' | 'failed';
+
+export interface ReleaseRecord {
+  revision: number;
+  appName: string;
+  namespace: string;
+  image?: string;
+  imageTag?: string;
+  imageDigest?: string;
+  // sha256 over the applied manifests, identical hashes mean identical releases
+  configHash: string;
+  manifests: string[];
+  status: ReleaseStatus;
+  deployedAt: string;
+  // Set when this release was created by `ekspressjs rollback`
+  rollbackOf?: number;
+  // The Secret's name, key names and a hash of its data; the values are never stored
+  secret?: { name: string; keys: string[]; hash: string };
+  // Multi-service app: component names in apply order, and the image deployed for each
+  components?: string[];
+  images?: Record<string, string>;
+}
@@ -4,6 +4,7 @@ import * as os from 'os';
 import { execSync } from 'child_process';
 import inquirer from 'inquirer';
 import chalk from 'chalk';
+import { AppType, DeployConfig, GoProject, JavaProject, NodePackageManager, NodeProject, NodeWorkspace, ProjectBuildInfo, PythonAppType, PythonPackageManager, PythonProject, RustProject } from './types';
 
 function checkToolInstalled(command: string): boolean {
   try {
@@ -100,7 +101,7 @@ async function promptInstallBrew(): Promise<boolean> {
   }
 }
 
-export async function checkPrerequisites(): Promise<void> {
+export async function checkPrerequisites(nonInteractive: boolean = false): Promise<void> {
   const checks = [
     { 
       name: 'docker', 
@@ -165,6 +166,10 @@ export async function checkPrerequisites(): Promise<void> {
     console.log(chalk.yellow(`   - ${check.name}`));
   });
 
+  if (nonInteractive) {
+    throw new Error(`Missing prerequisites: ${missing.map((check) => check.name).join(', ')}`);
+  }
+
   if (isMac) {
     const hasBrew = checkBrewInstalled();
     
@@ -389,24 +394,42 @@ export function detectAWSCredentials(): { accessKeyId?: string; secretAccessKey?
   return null;
 }
 
-export function validateProjectStructure(appType: string): void {
+export function validateProjectStructure(appType: string, projectDir: string = process.cwd()): void {
+  const exists = (file: string) => fs.existsSync(path.join(projectDir, file));
+
   // Skip validation for Java - Dockerfile is required and checked separately
   if (appType === 'java') {
     return;
   }
 
+  if (isPythonApp(appType)) {
+    if (!exists('requirements.txt') && !exists('pyproject.toml')) {
+      console.log(
+        chalk.yellow(`⚠️  Warning: requirements.txt or pyproject.toml not found. Make sure you're in the project root.`)
+      );
+    }
+    if (appType === 'django' && !exists('manage.py')) {
+      console.log(
+        chalk.yellow(`⚠️  Warning: manage.py not found. Make sure you're in the project root.`)
+      );
+    }
+    return;
+  }
+
   const requiredFiles: Record<string, string[]> = {
     next: ['package.json', 'next.config.js'],
     nuxt: ['package.json', 'nuxt.config.ts', 'nuxt.config.js'],
     nest: ['package.json', 'nest-cli.json'],
     react: ['package.json'],
     vue: ['package.json'],
+    go: ['go.mod'],
+    rust: ['Cargo.toml'],
   };
 
   const files = requiredFiles[appType] || ['package.json'];
 
   for (const file of files) {
-    if (!fs.existsSync(file)) {
+    if (!exists(file)) {
       console.log(
         chalk.yellow(`⚠️  Warning: ${file} not found. Make sure you're in the project root.`)
       );
@@ -414,9 +437,330 @@ export function validateProjectStructure(appType: string): void {
   }
 }
 
-export async function createNextConfigIfNeeded(): Promise<void> {
-  const nextConfigPath = path.join(process.cwd(), 'next.config.js');
-  const nextConfigTsPath = path.join(process.cwd(), 'next.config.ts');
+const NODE_APP_TYPES: AppType[] = ['next', 'nuxt', 'nest', 'react', 'vue'];
+
+export function isNodeApp(appType: string): boolean {
+  return (NODE_APP_TYPES as string[]).includes(appType);
+}
+
+const NODE_LOCKFILES: [string, NodePackageManager][] = [
+  ['pnpm-lock.yaml', 'pnpm'],
+  ['yarn.lock', 'yarn'],
+  ['bun.lockb', 'bun'],
+  ['bun.lock', 'bun'],
+  ['package-lock.json', 'npm'],
+];
+
+/**
+ * Package manager from the packageManager field in package.json (as corepack
+ * reads it), else from the lockfile. Defaults to npm.
+ */
+export function detectNodeProject(projectDir: string = process.cwd()): NodeProject {
+  let packageManagerField: string | undefined;
+  try {
+    packageManagerField = fs.readJsonSync(path.join(projectDir, 'package.json')).packageManager;
+  } catch (error) {
+  }
+
+  let packageManager: NodePackageManager = 'npm';
+  let version: string | undefined;
+  const fieldMatch = packageManagerField?.match(/^(npm|pnpm|yarn|bun)@(\d[^+]*)/);
+  if (fieldMatch) {
+    packageManager = fieldMatch[1] as NodePackageManager;
+    version = fieldMatch[2];
+  } else {
+    const lockfile = NODE_LOCKFILES.find(([file]) => fs.existsSync(path.join(projectDir, file)));
+    if (lockfile) {
+      packageManager = lockfile[1];
+    }
+  }
+
+  if (packageManager !== 'yarn') {
+    return { packageManager, version };
+  }
+  const yarnBerry = version
+    ? parseInt(version, 10) >= 2
+    : fs.existsSync(path.join(projectDir, '.yarnrc.yml'));
+  return { packageManager, version, yarnBerry };
+}
+
+function isWorkspaceRoot(dir: string): boolean {
+  if (['pnpm-workspace.yaml', 'turbo.json', 'nx.json'].some(file => fs.existsSync(path.join(dir, file)))) {
+    return true;
+  }
+  try {
+    return !!fs.readJsonSync(path.join(dir, 'package.json')).workspaces;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Find the npm/pnpm/yarn/bun workspace, Turborepo or Nx repository the app
+ * belongs to, looking up from the app directory to the git root.
+ */
+export function detectNodeWorkspace(appDir: string): NodeWorkspace | null {
+  let dir = path.dirname(appDir);
+  while (true) {
+    if (isWorkspaceRoot(dir)) {
+      const readJson = (file: string) => {
+        try {
+          return fs.readJsonSync(path.join(appDir, file));
+        } catch (error) {
+          return {};
+        }
+      };
+      const packageName = readJson('package.json').name || path.basename(appDir);
+      const orchestrator = fs.existsSync(path.join(dir, 'turbo.json'))
+        ? 'turbo'
+        : fs.existsSync(path.join(dir, 'nx.json')) ? 'nx' : undefined;
+      return {
+        root: dir,
+        appPath: path.relative(dir, appDir).split(path.sep).join('/'),
+        packageName,
+        orchestrator,
+        nxProject: orchestrator === 'nx' ? readJson('project.json').name || packageName : undefined,
+      };
+    }
+    const parent = path.dirname(dir);
+    if (fs.existsSync(path.join(dir, '.git')) || parent === dir) {
+      return null;
+    }
+    dir = parent;
+  }
+}
+
+const PYTHON_APP_TYPES: PythonAppType[] = ['fastapi', 'django', 'flask'];
+
+export function isPythonApp(appType: string): appType is PythonAppType {
+  return (PYTHON_APP_TYPES as string[]).includes(appType);
+}
+
+// Frameworks not listed here default to port 3000 and "/"
+const FRAMEWORK_DEFAULTS: Partial<Record<AppType, { port: number; healthCheckPath: string }>> = {
+  fastapi: { port: 8000, healthCheckPath: '/health' },
+  django: { port: 8000, healthCheckPath: '/health/' },
+  flask: { port: 5000, healthCheckPath: '/health' },
+  go: { port: 8080, healthCheckPath: '/' },
+  rust: { port: 8080, healthCheckPath: '/' },
+};
+
+export function getFrameworkDefaults(appType?: string): { port: number; healthCheckPath: string } {
+  return FRAMEWORK_DEFAULTS[appType as AppType] || { port: 3000, healthCheckPath: '/' };
+}
+
+function detectPythonPackageManager(projectDir: string): PythonPackageManager {
+  if (fs.existsSync(path.join(projectDir, 'uv.lock'))) {
+    return 'uv';
+  }
+  if (fs.existsSync(path.join(projectDir, 'poetry.lock'))) {
+    return 'poetry';
+  }
+  const pyprojectPath = path.join(projectDir, 'pyproject.toml');
+  if (fs.existsSync(pyprojectPath)) {
+    if (/^\[tool\.poetry\]/m.test(fs.readFileSync(pyprojectPath, 'utf-8'))) {
+      return 'poetry';
+    }
+    // A PEP 621 project without requirements.txt is installed from pyproject.toml
+    if (!fs.existsSync(path.join(projectDir, 'requirements.txt'))) {
+      return 'uv';
+    }
+  }
+  return 'pip';
+}
+
+function detectDjangoEntrypoint(projectDir: string): string {
+  const managePath = path.join(projectDir, 'manage.py');
+  if (fs.existsSync(managePath)) {
+    const match = fs.readFileSync(managePath, 'utf-8')
+      .match(/DJANGO_SETTINGS_MODULE['"]\s*,\s*['"]([\w.]+?)\.settings\b/);
+    if (match) {
+      return `${match[1]}.wsgi:application`;
+    }
+  }
+  const projectPackage = fs.readdirSync(projectDir)
+    .find(entry => fs.existsSync(path.join(projectDir, entry, 'wsgi.py')));
+  return `${projectPackage || 'config'}.wsgi:application`;
+}
+
+function detectAppEntrypoint(projectDir: string, appType: 'fastapi' | 'flask'): string {
+  const candidates = ['main.py', 'app.py', 'wsgi.py', 'application.py', 'app/main.py', 'app/__init__.py'];
+  const appPattern = appType === 'fastapi' ? /^(\w+)\s*=\s*FastAPI\(/m : /^(\w+)\s*=\s*Flask\(/m;
+
+  for (const candidate of candidates) {
+    const filePath = path.join(projectDir, candidate);
+    if (!fs.existsSync(filePath)) continue;
+
+    const module = candidate.replace(/\/__init__\.py$/, '').replace(/\.py$/, '').replace(/\//g, '.');
+    const content = fs.readFileSync(filePath, 'utf-8');
+    const match = content.match(appPattern);
+    if (match) {
+      return `${module}:${match[1]}`;
+    }
+    if (appType === 'flask' && /^def create_app\(/m.test(content)) {
+      return `${module}:create_app()`;
+    }
+  }
+
+  return appType === 'fastapi' ? 'main:app' : 'app:app';
+}
+
+/**
+ * Inspect a Python project for the package manager and the application object
+ * the generated Dockerfile should serve.
+ */
+export function detectPythonProject(appType: PythonAppType, projectDir: string = process.cwd()): PythonProject {
+  return {
+    packageManager: detectPythonPackageManager(projectDir),
+    entrypoint: appType === 'django'
+      ? detectDjangoEntrypoint(projectDir)
+      : detectAppEntrypoint(projectDir, appType),
+  };
+}
+
+const DEFAULT_JDK_VERSION = '17';
+
+function readFirstExisting(projectDir: string, files: string[]): string {
+  const file = files.find(candidate => fs.existsSync(path.join(projectDir, candidate)));
+  return file ? fs.readFileSync(path.join(projectDir, file), 'utf-8') : '';
+}
+
+/**
+ * Maven or Gradle (preferring the wrapper), the JDK release the build targets
+ * and the Spring Boot version, if any.
+ */
+export function detectJavaProject(projectDir: string = process.cwd()): JavaProject {
+  const exists = (file: string) => fs.existsSync(path.join(projectDir, file));
+  const isGradle = !exists('pom.xml') && (exists('build.gradle') || exists('build.gradle.kts'));
+
+  if (isGradle) {
+    const buildScript = readFirstExisting(projectDir, ['build.gradle.kts', 'build.gradle']);
+    const jdkMatch =
+      buildScript.match(/JavaLanguageVersion\.of\(\s*(\d+)\s*\)/) ||
+      buildScript.match(/(?:sourceCompatibility|targetCompatibility)\s*=\s*(?:JavaVersion\.VERSION_(?:1_)?|['"])(\d+)/);
+    const bootMatch = buildScript.match(/(?:id\s*\(?\s*["']org\.springframework\.boot["']\s*\)?\s*version\s*\(?\s*["']|org\.springframework\.boot:spring-boot-gradle-plugin:)([\d.]+)/);
+    return {
+      buildTool: 'gradle',
+      wrapper: exists('gradlew'),
+      jdkVersion: jdkMatch ? jdkMatch[1] : DEFAULT_JDK_VERSION,
+      springBoot: buildScript.includes('org.springframework.boot'),
+      springBootVersion: bootMatch?.[1],
+    };
+  }
+
+  const pom = readFirstExisting(projectDir, ['pom.xml']);
+  const jdkMatch =
+    pom.match(/<maven\.compiler\.release>\s*(\d+)/) ||
+    pom.match(/<java\.version>\s*(?:1\.)?(\d+)/) ||
+    pom.match(/<maven\.compiler\.(?:source|target)>\s*(?:1\.)?(\d+)/) ||
+    pom.match(/<release>\s*(\d+)\s*<\/release>/);
+  const bootMatch = pom.match(/<artifactId>spring-boot-starter-parent<\/artifactId>\s*<version>([\d.]+)/);
+  return {
+    buildTool: 'maven',
+    wrapper: exists('mvnw'),
+    jdkVersion: jdkMatch ? jdkMatch[1] : DEFAULT_JDK_VERSION,
+    springBoot: pom.includes('spring-boot'),
+    springBootVersion: bootMatch?.[1],
+  };
+}
+
+const DEFAULT_GO_VERSION = '1.23';
+
+/**
+ * Find the main package (the project root, or one of ./cmd/*) and the Go
+ * release required by go.mod.
+ */
+export function detectGoProject(appName: string, projectDir: string = process.cwd()): GoProject {
+  const goModPath = path.join(projectDir, 'go.mod');
+  const versionMatch = fs.existsSync(goModPath)
+    ? fs.readFileSync(goModPath, 'utf-8').match(/^go\s+(\d+\.\d+)/m)
+    : null;
+
+  const hasMainPackage = (dir: string) => fs.readdirSync(dir).some(file =>
+    file.endsWith('.go') && !file.endsWith('_test.go') &&
+    /^package main\b/m.test(fs.readFileSync(path.join(dir, file), 'utf-8'))
+  );
+
+  let mainPackage = '.';
+  const cmdDir = path.join(projectDir, 'cmd');
+  if (!hasMainPackage(projectDir) && fs.existsSync(cmdDir)) {
+    const commands = fs.readdirSync(cmdDir)
+      .filter(entry => fs.statSync(path.join(cmdDir, entry)).isDirectory())
+      .sort();
+    const command = commands.includes(appName) ? appName : commands[0];
+    if (command) {
+      mainPackage = `./cmd/${command}`;
+      if (commands.length > 1 && command !== appName) {
+        console.log(chalk.yellow(`⚠️  Several commands in ./cmd, building ${mainPackage} (name one after the app to pick it)`));
+      }
+    }
+  }
+
+  return { goVersion: versionMatch ? versionMatch[1] : DEFAULT_GO_VERSION, mainPackage };
+}
+
+/**
+ * The binary to ship: the first [[bin]] target, else the package name.
+ * Workspaces without a root package fall back to the app name.
+ */
+export function detectRustProject(appName: string, projectDir: string = process.cwd()): RustProject {
+  const cargoPath = path.join(projectDir, 'Cargo.toml');
+  const manifest = fs.existsSync(cargoPath) ? fs.readFileSync(cargoPath, 'utf-8') : '';
+  const section = (header: string) => {
+    const start = manifest.search(new RegExp(`^\\[${header}\\]\\s*$`, 'm'));
+    if (start === -1) return '';
+    const rest = manifest.slice(start).split('\n').slice(1).join('\n');
+    const end = rest.search(/^\[/m);
+    return end === -1 ? rest : rest.slice(0, end);
+  };
+  const nameIn = (body: string) => body.match(/^name\s*=\s*"([^"]+)"/m)?.[1];
+
+  return { binaryName: nameIn(section('\\[bin\\]')) || nameIn(section('package')) || appName };
+}
+
+/**
+ * Inspect the project for whatever the framework's Dockerfile needs.
+ */
+export function detectProjectBuildInfo(
+  config: { appType: AppType; appName: string },
+  projectDir: string = process.cwd()
+): ProjectBuildInfo {
+  if (isNodeApp(config.appType)) {
+    // In a monorepo the lockfile and packageManager field live at the repository root
+    const workspace = detectNodeWorkspace(projectDir);
+    const node: NodeProject = { ...detectNodeProject(workspace ? workspace.root : projectDir), workspace: workspace || undefined };
+    const version = node.version ? ` ${node.version}` : '';
+    const monorepo = workspace ? `, workspace ${workspace.packageName} in ${workspace.appPath}${workspace.orchestrator ? ` (${workspace.orchestrator})` : ''}` : '';
+    console.log(chalk.cyan(`   Node app: dependencies via ${node.packageManager}${version}${monorepo}`));
+    return { node };
+  }
+  if (config.appType === 'java') {
+    const java = detectJavaProject(projectDir);
+    const springBoot = java.springBoot ? `, Spring Boot ${java.springBootVersion || ''}`.trimEnd() : '';
+    console.log(chalk.cyan(`   Java app: ${java.buildTool}${java.wrapper ? ' wrapper' : ''}, JDK ${java.jdkVersion}${springBoot}`));
+    return { java };
+  }
+  if (isPythonApp(config.appType)) {
+    const python = detectPythonProject(config.appType, projectDir);
+    console.log(chalk.cyan(`   Python app: ${python.entrypoint} (dependencies via ${python.packageManager})`));
+    return { python };
+  }
+  if (config.appType === 'go') {
+    const go = detectGoProject(config.appName, projectDir);
+    console.log(chalk.cyan(`   Go app: ${go.mainPackage} (Go ${go.goVersion})`));
+    return { go };
+  }
+  if (config.appType === 'rust') {
+    const rust = detectRustProject(config.appName, projectDir);
+    console.log(chalk.cyan(`   Rust app: binary ${rust.binaryName}`));
+    return { rust };
+  }
+  return {};
+}
+
+export async function createNextConfigIfNeeded(projectDir: string = process.cwd()): Promise<void> {
+  const nextConfigPath = path.join(projectDir, 'next.config.js');
+  const nextConfigTsPath = path.join(projectDir, 'next.config.ts');
 
   if (fs.existsSync(nextConfigPath) || fs.existsSync(nextConfigTsPath)) {
     const configPath = fs.existsSync(nextConfigPath) ? nextConfigPath : nextConfigTsPath;
@@ -431,6 +775,97 @@ export async function createNextConfigIfNeeded(): Promise<void> {
       console.log(chalk.yellow('   Add this to your next.config.js:'));
       console.log(chalk.cyan('   output: "standalone"'));
     }
+    if (detectNodeWorkspace(projectDir) && !configContent.includes('outputFileTracingRoot')) {
+      console.log(chalk.yellow('\n⚠️  Warning: in a monorepo the standalone output must be traced from the repository root.'));
+      console.log(chalk.yellow('   Add this to your Next.js config:'));
+      console.log(chalk.cyan("   outputFileTracingRoot: path.join(__dirname, '../../')"));
+    }
   }
 }
 
+
+function getGitShortSha(): string | null {
+  try {
+    return execSync('git rev-parse --short HEAD', { encoding: 'utf-8', stdio: 'pipe' }).trim() || null;
+  } catch (error) {
+    return null;
+  }
+}
+
+function isGitWorkingTreeDirty(): boolean {
+  try {
+    return execSync('git status --porcelain', { encoding: 'utf-8', stdio: 'pipe' }).trim() !== '';
+  } catch (error) {
+    return false;
+  }
+}
+
+function formatTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:T]/g, '').slice(0, 14);
+}
+
+// Docker tags: [A-Za-z0-9_][A-Za-z0-9_.-]{0,127}
+function sanitizeImageTag(tag: string): string {
+  const sanitized = tag.replace(/[^A-Za-z0-9_.-]/g, '-').replace(/^[.-]+/, '');
+  return sanitized.substring(0, 128) || 'latest';
+}
+
+export function resolveImageTag(config: DeployConfig, now: Date = new Date()): string {
+  const tagging = config.imageTagging || { strategy: 'git-sha' };
+  const timestamp = formatTimestamp(now);
+  const gitSha = getGitShortSha();
+
+  if (tagging.strategy === 'timestamp') {
+    return timestamp;
+  }
+
+  if (tagging.strategy === 'template' && tagging.template) {
+    const tag = tagging.template
+      .replace(/\{appName\}/g, config.appName)
+      .replace(/\{gitSha\}/g, gitSha || 'nogit')
+      .replace(/\{date\}/g, timestamp.substring(0, 8))
+      .replace(/\{timestamp\}/g, timestamp);
+    return sanitizeImageTag(tag);
+  }
+
+  if (!gitSha) {
+    console.log(chalk.yellow('   ⚠️  Not a git repository, using timestamp as image tag'));
+    return timestamp;
+  }
+
+  // Uncommitted changes would otherwise be pushed under the tag of the last commit
+  if (isGitWorkingTreeDirty()) {
+    return `${gitSha}-dirty-${timestamp}`;
+  }
+
+  return gitSha;
+}
+
+export function parseEnvFile(content: string): Record<string, string> {
+  const result: Record<string, string> = {};
+
+  for (const line of content.split('\n')) {
+    const trimmed = line.trim();
+    // Skip comments and empty lines
+    if (!trimmed || trimmed.startsWith('#')) continue;
+
+    // Parse KEY=VALUE format
+    const equalIndex = trimmed.indexOf('=');
+    if (equalIndex > 0) {
+      const key = trimmed.substring(0, equalIndex).trim();
+      let value = trimmed.substring(equalIndex + 1).trim();
+
+      // Remove quotes if present
+      if ((value.startsWith('"') && value.endsWith('"')) ||
+          (value.startsWith("'") && value.endsWith("'"))) {
+        value = value.slice(1, -1);
+      }
+
+      if (key && value) {
+        result[key] = value;
+      }
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { execSync } from 'child_process';
+import { applyManifests, getPushedImageDigest } from '../src/aws-utils';
+import { DeployConfig } from '../src/types';
+
+vi.mock('child_process', async importOriginal => ({
+  ...(await importOriginal<typeof import('child_process')>()),
+  execSync: vi.fn(),
+}));
+
+const repository = '123.dkr.ecr.us-east-1.amazonaws.com/web';
+
+describe('getPushedImageDigest', () => {
+  beforeEach(() => {
+    vi.mocked(execSync).mockReset();
+  });
+
+  it('returns the digest the registry reported for the pushed repository', () => {
+    vi.mocked(execSync).mockReturnValue(JSON.stringify([
+      'docker.io/library/web@sha256:aaa',
+      `${repository}@sha256:bbb`,
+    ]));
+    expect(getPushedImageDigest(`${repository}:abc1234`, repository)).toBe('sha256:bbb');
+  });
+
+  it('returns nothing when the image was not pushed to that repository', () => {
+    vi.mocked(execSync).mockReturnValue('[]');
+    expect(getPushedImageDigest(`${repository}:abc1234`, repository)).toBeUndefined();
+  });
+
+  it('returns nothing when docker inspect fails', () => {
+    vi.mocked(execSync).mockImplementation(() => {
+      throw new Error('No such image');
+    });
+    expect(getPushedImageDigest(`${repository}:abc1234`, repository)).toBeUndefined();
+  });
+});
+
+describe('applyManifests with a pre-deploy hook', () => {
+  const config: DeployConfig = {
+    appType: 'nest',
+    region: 'us-east-1',
+    clusterName: 'main',
+    appName: 'web',
+    port: 3000,
+    replicas: 2,
+    accessKeyId: 'AKIA',
+    secretAccessKey: 'secret',
+    namespace: 'shop',
+    secrets: { DB_PASSWORD: 'hunter2' },
+    configMaps: { LOG_LEVEL: 'debug' },
+    hooks: { preDeploy: { command: ['npm', 'run', 'migrate'] } },
+  };
+  let manifestsDir: string;
+
+  // What each kubectl apply applied: the Secret piped from memory, or the file
+  const applied = () => vi.mocked(execSync).mock.calls
+    .filter(([command]) => String(command).startsWith('kubectl apply'))
+    .map(([command, options]) => String(command) === 'kubectl apply -f -'
+      ? (yaml.load(String((options as { input: string }).input)) as { metadata: { name: string } }).metadata.name
+      : path.basename(String(command)));
+
+  const mockJobCondition = (type: 'Complete' | 'Failed') => {
+    vi.mocked(execSync).mockImplementation(command => (String(command).startsWith('kubectl get job')
+      ? JSON.stringify({ status: { conditions: [{ type, status: 'True' }] } })
+      : '') as any);
+  };
+
+  beforeEach(async () => {
+    vi.mocked(execSync).mockReset();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    manifestsDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ekspressjs-test-'));
+    for (const file of ['pre-deploy-job.yaml', 'configmap.yaml', 'deployment.yaml', 'service.yaml']) {
+      await fs.writeFile(path.join(manifestsDir, file), 'kind: Test\n');
+    }
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.remove(manifestsDir);
+  });
+
+  it('runs the hook with its own Secret and updates the shared ones after it succeeds', async () => {
+    mockJobCondition('Complete');
+    await applyManifests(config, manifestsDir);
+    expect(applied()).toEqual(['web-pre-deploy-secrets', 'pre-deploy-job.yaml', 'web-secrets', 'configmap.yaml', 'deployment.yaml', 'service.yaml']);
+  });
+
+  it('leaves the shared Secret and ConfigMap alone when the hook fails', async () => {
+    mockJobCondition('Failed');
+    await expect(applyManifests(config, manifestsDir)).rejects.toThrow('Pre-deploy hook failed');
+    expect(applied()).toEqual(['web-pre-deploy-secrets', 'pre-deploy-job.yaml']);
+  });
+});
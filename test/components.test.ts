@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import { getComponentConfig, getDeploymentNames, getPreDeployHookConfig, getWorkloadConfig, orderComponents } from '../src/components';
+import { ComponentConfig, DeployConfig, WorkloadConfig } from '../src/types';
+
+function component(name: string, dependsOn?: string[]): ComponentConfig {
+  return { name, port: 3000, replicas: 1, dependsOn };
+}
+
+describe('orderComponents', () => {
+  it('puts dependencies before the components that depend on them', () => {
+    const ordered = orderComponents([component('web', ['api']), component('api', ['db']), component('db')]);
+    expect(ordered.map(c => c.name)).toEqual(['db', 'api', 'web']);
+  });
+
+  it('keeps the declared order of independent components', () => {
+    const ordered = orderComponents([component('web'), component('worker'), component('api')]);
+    expect(ordered.map(c => c.name)).toEqual(['web', 'worker', 'api']);
+  });
+
+  it('reports a dependency cycle with its path', () => {
+    expect(() => orderComponents([component('a', ['b']), component('b', ['c']), component('c', ['a'])]))
+      .toThrow('Component dependency cycle: a -> b -> c -> a');
+  });
+
+  it('reports a component that depends on itself', () => {
+    expect(() => orderComponents([component('a', ['a'])])).toThrow('Component dependency cycle: a -> a');
+  });
+
+  it('rejects an unknown dependency', () => {
+    expect(() => orderComponents([component('web', ['api'])]))
+      .toThrow('Component web depends on unknown component api');
+  });
+});
+
+describe('getComponentConfig', () => {
+  const app: DeployConfig = {
+    appType: 'next',
+    region: 'us-east-1',
+    clusterName: 'main',
+    appName: 'shop',
+    port: 3000,
+    replicas: 2,
+    accessKeyId: 'AKIA',
+    secretAccessKey: 'secret',
+    namespace: 'prod',
+    envVars: [{ name: 'LOG_LEVEL', value: 'info' }, { name: 'REGION', value: 'eu' }],
+    artifactDir: '/repo/ekspressjs',
+    buildContext: '/repo',
+  };
+
+  it('deploys the component under its own name with the shared settings of the app', () => {
+    const config = getComponentConfig(app, {
+      ...component('api'),
+      appType: 'nest',
+      port: 4000,
+      envVars: [{ name: 'LOG_LEVEL', value: 'debug' }],
+    });
+    expect(config).toMatchObject({
+      appName: 'shop-api',
+      appType: 'nest',
+      port: 4000,
+      replicas: 1,
+      namespace: 'prod',
+      partOf: 'shop',
+      artifactDir: '/repo/ekspressjs/components/api',
+      buildContext: undefined,
+      components: undefined,
+    });
+    expect(config.envVars).toEqual([{ name: 'REGION', value: 'eu' }, { name: 'LOG_LEVEL', value: 'debug' }]);
+  });
+
+  it('merges the component availability over that of the app', () => {
+    const config = getComponentConfig(
+      { ...app, availability: { maxUnavailable: 1, podAntiAffinity: false } },
+      { ...component('api'), availability: { maxUnavailable: '25%' } }
+    );
+    expect(config.availability).toEqual({ maxUnavailable: '25%', podAntiAffinity: false });
+  });
+});
+
+describe('getWorkloadConfig', () => {
+  const app: DeployConfig = {
+    appType: 'nest',
+    region: 'us-east-1',
+    clusterName: 'main',
+    appName: 'shop',
+    port: 3000,
+    replicas: 3,
+    accessKeyId: 'AKIA',
+    secretAccessKey: 'secret',
+    autoscaling: { enabled: true, minReplicas: 2, maxReplicas: 5 },
+    envVars: [{ name: 'LOG_LEVEL', value: 'info' }],
+    components: [{ ...component('api'), port: 4000 }],
+  };
+  const worker: WorkloadConfig = { name: 'queue', kind: 'worker', command: ['node', 'worker.js'], envVars: [{ name: 'CONCURRENCY', value: '4' }] };
+
+  it('runs the image of the app under the workload name, without autoscaling', () => {
+    const config = getWorkloadConfig(app, worker);
+    expect(config).toMatchObject({ appName: 'shop-queue', imageName: 'shop', replicas: 1, partOf: 'shop', autoscaling: undefined, workloads: undefined });
+    expect(config.envVars).toEqual([{ name: 'LOG_LEVEL', value: 'info' }, { name: 'CONCURRENCY', value: '4' }]);
+  });
+
+  it('runs the image of the component it names', () => {
+    expect(getWorkloadConfig(app, { ...worker, component: 'api' })).toMatchObject({ appName: 'shop-queue', imageName: 'shop-api', port: 4000 });
+    expect(() => getWorkloadConfig(app, { ...worker, component: 'web' })).toThrow('Workload queue runs unknown component web');
+  });
+});
+
+describe('getPreDeployHookConfig', () => {
+  const app: DeployConfig = {
+    appType: 'nest',
+    region: 'us-east-1',
+    clusterName: 'main',
+    appName: 'shop',
+    port: 3000,
+    replicas: 3,
+    accessKeyId: 'AKIA',
+    secretAccessKey: 'secret',
+    components: [{ ...component('api'), port: 4000 }],
+  };
+
+  it('runs the image of the app or of the named component as <app>-pre-deploy', () => {
+    expect(getPreDeployHookConfig(app, { command: ['npm', 'run', 'migrate'] })).toMatchObject({ appName: 'shop-pre-deploy', imageName: 'shop' });
+    expect(getPreDeployHookConfig(app, { command: ['npm', 'run', 'migrate'], component: 'api' })).toMatchObject({ appName: 'shop-pre-deploy', imageName: 'shop-api' });
+    expect(() => getPreDeployHookConfig(app, { command: ['true'], component: 'web' })).toThrow('The preDeploy hook runs unknown component web');
+  });
+
+  it('reads its own copies of the Secrets and ConfigMaps', () => {
+    expect(getPreDeployHookConfig(app, { command: ['true'] })).toMatchObject({ envSourceName: 'shop-pre-deploy', partOf: 'shop' });
+  });
+});
+
+describe('getDeploymentNames', () => {
+  it('lists the component Deployments in apply order', () => {
+    expect(getDeploymentNames({ appName: 'shop', components: [component('web', ['api']), component('api')] }))
+      .toEqual(['shop-api', 'shop-web']);
+    expect(getDeploymentNames({ appName: 'shop' })).toEqual(['shop']);
+  });
+
+  it('adds workers after the app, but not cron jobs', () => {
+    const workloads: WorkloadConfig[] = [
+      { name: 'queue', kind: 'worker', command: ['node', 'worker.js'] },
+      { name: 'report', kind: 'cron', command: ['node', 'report.js'], schedule: '0 3 * * *' },
+    ];
+    expect(getDeploymentNames({ appName: 'shop', workloads })).toEqual(['shop', 'shop-queue']);
+  });
+});
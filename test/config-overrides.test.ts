@@ -0,0 +1,113 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { buildNonInteractiveConfig, mergeConfig, resolveConfigOverrides } from '../src/config-overrides';
+
+describe('mergeConfig', () => {
+  it('lets overrides replace plain values and keeps the rest', () => {
+    expect(mergeConfig({ region: 'us-east-1', appName: 'web', port: 3000 }, { port: 8080 })).toEqual({
+      region: 'us-east-1',
+      appName: 'web',
+      port: 8080,
+    });
+  });
+
+  it('ignores undefined overrides', () => {
+    expect(mergeConfig({ appName: 'web' }, { appName: undefined })).toEqual({ appName: 'web' });
+  });
+
+  it('merges nested settings field by field', () => {
+    const merged = mergeConfig(
+      { autoscaling: { enabled: true, minReplicas: 2, maxReplicas: 10 } },
+      { autoscaling: { maxReplicas: 20 } as never }
+    );
+    expect(merged.autoscaling).toEqual({ enabled: true, minReplicas: 2, maxReplicas: 20 });
+  });
+
+  it('merges resource requests and limits separately', () => {
+    const merged = mergeConfig(
+      { resources: { requests: { cpu: '250m', memory: '256Mi' }, limits: { cpu: '500m', memory: '512Mi' } } },
+      { resources: { requests: { cpu: '1' }, limits: {} } as never }
+    );
+    expect(merged.resources).toEqual({ requests: { cpu: '1', memory: '256Mi' }, limits: { cpu: '500m', memory: '512Mi' } });
+  });
+
+  it('replaces env vars by name and appends new ones', () => {
+    const merged = mergeConfig(
+      { envVars: [{ name: 'A', value: '1' }, { name: 'B', value: '2' }] },
+      { envVars: [{ name: 'B', value: 'two' }, { name: 'C', value: '3' }] }
+    );
+    expect(merged.envVars).toEqual([{ name: 'A', value: '1' }, { name: 'B', value: 'two' }, { name: 'C', value: '3' }]);
+  });
+
+  it('replaces lists other than env vars', () => {
+    const merged = mergeConfig(
+      { autoscaling: { enabled: true, minReplicas: 2, maxReplicas: 10, customMetrics: [{ type: 'Pods', name: 'rps', targetType: 'AverageValue', targetValue: '10' }] } },
+      { autoscaling: { customMetrics: [{ type: 'Pods', name: 'queue', targetType: 'AverageValue', targetValue: '5' }] } as never }
+    );
+    expect(merged.autoscaling?.customMetrics).toEqual([{ type: 'Pods', name: 'queue', targetType: 'AverageValue', targetValue: '5' }]);
+  });
+
+  it('applies layers in order, so the last one wins', () => {
+    const saved = { port: 3000, namespace: 'default' };
+    const projectFile = { port: 4000 };
+    const flags = { namespace: 'shop' };
+    expect(mergeConfig(mergeConfig(saved, projectFile), flags)).toEqual({ port: 4000, namespace: 'shop' });
+  });
+});
+
+describe('resolveConfigOverrides', () => {
+  const saved = { ...process.env };
+  afterEach(() => {
+    process.env = { ...saved };
+  });
+
+  it('reads EKSPRESSJS_* variables and lets flags win over them', () => {
+    process.env.EKSPRESSJS_REGION = 'eu-west-1';
+    process.env.EKSPRESSJS_CPU_LIMIT = '2';
+    const overrides = resolveConfigOverrides({ region: 'us-west-2' });
+    expect(overrides.region).toBe('us-west-2');
+    expect(overrides.resources?.limits.cpu).toBe('2');
+  });
+
+  it('ignores empty variables', () => {
+    process.env.EKSPRESSJS_REGION = '';
+    expect(resolveConfigOverrides({}).region).toBeUndefined();
+  });
+
+  it('collects repeatable flags', () => {
+    expect(resolveConfigOverrides({ envVar: ['A=1', 'B=x=y'] }).envVars).toEqual([
+      { name: 'A', value: '1' },
+      { name: 'B', value: 'x=y' },
+    ]);
+  });
+});
+
+describe('buildNonInteractiveConfig', () => {
+  const complete = { region: 'us-east-1', clusterName: 'main', appName: 'web' };
+
+  it('fills in defaults without asking', () => {
+    expect(buildNonInteractiveConfig(complete, {}, undefined, false)).toMatchObject({
+      ...complete,
+      port: 3000,
+      replicas: 2,
+      namespace: 'default',
+      enableIngress: true,
+      healthCheckPath: '/',
+    });
+  });
+
+  it('takes the port and health check path from the framework defaults', () => {
+    expect(buildNonInteractiveConfig(complete, {}, { port: 8000, healthCheckPath: '/health' }, false)).toMatchObject({
+      port: 8000,
+      healthCheckPath: '/health',
+    });
+  });
+
+  it('lists everything that is missing or invalid at once', () => {
+    expect(() => buildNonInteractiveConfig({ region: 'us-east-1', appName: 'Web' }, { port: 70000 }, undefined, false)).toThrow(
+      'Missing or invalid configuration for non-interactive mode:\n' +
+      '  - cluster name (--cluster or EKSPRESSJS_CLUSTER)\n' +
+      '  - app name must contain only lowercase letters, numbers, and hyphens\n' +
+      '  - port must be between 1 and 65535'
+    );
+  });
+});
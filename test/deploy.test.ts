@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { execSync } from 'child_process';
+import { deployToEKS } from '../src/deploy';
+import { checkAndEnsureNodes, checkAndFixImagePullError, applyManifests } from '../src/aws-utils';
+import { commitToGitOpsRepo } from '../src/gitops';
+import { diagnoseDeploymentFailure } from '../src/diagnose';
+import { updateReleaseStatus } from '../src/releases';
+import { DeployConfig } from '../src/types';
+
+vi.mock('child_process', async importOriginal => ({
+  ...(await importOriginal<typeof import('child_process')>()),
+  execSync: vi.fn(),
+}));
+
+vi.mock('../src/aws-utils', () => ({
+  configureAWS: vi.fn(),
+  buildAndPushImage: vi.fn(async () => null),
+  setupKubectl: vi.fn(),
+  applyManifests: vi.fn(),
+  setupDomain: vi.fn(),
+  waitForIngressAndSetupDNS: vi.fn(),
+  checkAndInstallALBController: vi.fn(),
+  checkAndEnsureNodes: vi.fn(),
+  setupECRImagePullSecret: vi.fn(),
+  checkAndFixImagePullError: vi.fn(),
+  checkAndFixALBIAMPermissions: vi.fn(),
+}));
+
+vi.mock('../src/gitops', () => ({
+  checkGitOpsConfig: vi.fn(),
+  commitToGitOpsRepo: vi.fn(async () => ({ changed: true, sha: 'abc1234def', sourcePath: 'apps/web' })),
+  waitForGitOpsSync: vi.fn(),
+}));
+
+vi.mock('../src/diagnose', () => ({ diagnoseDeploymentFailure: vi.fn() }));
+
+vi.mock('../src/releases', async importOriginal => ({
+  ...(await importOriginal<typeof import('../src/releases')>()),
+  recordRelease: vi.fn(async () => ({ revision: 1 })),
+  updateReleaseStatus: vi.fn(),
+}));
+
+describe('deployToEKS', () => {
+  let projectDir: string;
+  let config: DeployConfig;
+
+  beforeEach(async () => {
+    projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ekspressjs-test-'));
+    vi.spyOn(process, 'cwd').mockReturnValue(projectDir);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    // Skips the wait between the two rollout checks
+    vi.spyOn(global, 'setTimeout').mockImplementation(((callback: () => void) => {
+      callback();
+      return 0;
+    }) as unknown as typeof setTimeout);
+    await fs.writeFile(path.join(projectDir, 'Dockerfile'), 'FROM node:20\n');
+    config = {
+      region: 'us-east-1',
+      clusterName: 'main',
+      appName: 'web',
+      port: 3000,
+      replicas: 2,
+      accessKeyId: 'AKIA',
+      secretAccessKey: 'secret',
+      namespace: 'shop',
+      dockerfile: path.join(projectDir, 'Dockerfile'),
+      imageTag: 'abc123',
+    };
+    // Every rollout check times out
+    vi.mocked(execSync).mockImplementation(() => {
+      throw new Error('timed out waiting for the condition');
+    });
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    vi.clearAllMocks();
+    await fs.remove(projectDir);
+  });
+
+  it('only diagnoses a failed rollout in GitOps mode', async () => {
+    config.gitops = { repoPath: path.join(projectDir, 'gitops') };
+
+    await expect(deployToEKS(config)).rejects.toThrow('timed out');
+
+    expect(commitToGitOpsRepo).toHaveBeenCalled();
+    expect(applyManifests).not.toHaveBeenCalled();
+    expect(checkAndEnsureNodes).not.toHaveBeenCalled();
+    expect(checkAndFixImagePullError).not.toHaveBeenCalled();
+    expect(diagnoseDeploymentFailure).toHaveBeenCalledWith(config);
+    expect(updateReleaseStatus).toHaveBeenCalledWith(1, 'failed');
+    // Rollout status only: nothing is applied, patched or annotated
+    for (const [command] of vi.mocked(execSync).mock.calls) {
+      expect(command).toMatch(/^kubectl rollout status /);
+    }
+  });
+
+  it('tries to fix image pull errors when it applies the manifests itself', async () => {
+    await expect(deployToEKS(config)).rejects.toThrow('timed out');
+
+    expect(applyManifests).toHaveBeenCalled();
+    expect(checkAndEnsureNodes).toHaveBeenCalledWith(config);
+    expect(checkAndFixImagePullError).toHaveBeenCalledWith(config);
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import { generateDockerfile } from '../src/templates/dockerfile';
+
+describe('generateDockerfile for Python apps', () => {
+  it('serves FastAPI on uvicorn with pip requirements', () => {
+    const dockerfile = generateDockerfile('fastapi', 8000, { python: { packageManager: 'pip', entrypoint: 'main:app' } });
+    expect(dockerfile).toContain('RUN pip install --no-cache-dir -r requirements.txt uvicorn');
+    expect(dockerfile).toContain('EXPOSE 8000');
+    expect(dockerfile).toContain('CMD ["uvicorn", "main:app", "--host", "0.0.0.0", "--port", "8000", "--proxy-headers"]');
+  });
+
+  it('serves Django on gunicorn with Poetry kept out of the runtime image', () => {
+    const dockerfile = generateDockerfile('django', 8000, { python: { packageManager: 'poetry', entrypoint: 'mysite.wsgi:application' } });
+    expect(dockerfile).toContain('RUN /usr/local/bin/pip install --no-cache-dir poetry');
+    expect(dockerfile).toContain('poetry install --only main --no-root --no-interaction');
+    expect(dockerfile).toContain('CMD ["gunicorn", "mysite.wsgi:application", "--bind", "0.0.0.0:8000", "--workers", "2"]');
+    expect(dockerfile.split('FROM python:3.12-slim AS runner')[1]).not.toContain('poetry');
+  });
+
+  it('installs uv projects into the shared virtualenv', () => {
+    const dockerfile = generateDockerfile('flask', 5000, { python: { packageManager: 'uv', entrypoint: 'app:create_app()' } });
+    expect(dockerfile).toContain('ENV UV_PROJECT_ENVIRONMENT=/opt/venv');
+    expect(dockerfile).toContain('uv sync --no-dev --no-install-project');
+    expect(dockerfile).toContain('"app:create_app()"');
+  });
+
+  it('requires the Python project details', () => {
+    expect(() => generateDockerfile('flask', 5000)).toThrow('Project details are required to generate a flask Dockerfile');
+  });
+});
+
+describe('generateDockerfile for Go and Rust', () => {
+  it('builds a static Go binary and ships it on distroless', () => {
+    const dockerfile = generateDockerfile('go', 8080, { go: { goVersion: '1.22', mainPackage: './cmd/api' } });
+    expect(dockerfile).toMatch(/^# syntax=docker\/dockerfile:1\nFROM golang:1\.22-alpine AS builder/);
+    expect(dockerfile).toContain('CGO_ENABLED=0 GOOS=linux go build -trimpath -ldflags="-s -w" -o /out/app ./cmd/api');
+    expect(dockerfile).toContain('FROM gcr.io/distroless/static-debian12:nonroot');
+    expect(dockerfile).toContain('USER nonroot:nonroot');
+    expect(dockerfile).toContain('ENTRYPOINT ["/app"]');
+  });
+
+  it('builds the Rust binary against musl and copies it out of the cache mount', () => {
+    const dockerfile = generateDockerfile('rust', 8080, { rust: { binaryName: 'server' } });
+    expect(dockerfile).toContain('FROM rust:1-alpine AS builder');
+    expect(dockerfile).toContain('cargo build --release --bin server && \\\n    mkdir -p /out && cp target/release/server /out/app');
+    expect(dockerfile).toContain('FROM gcr.io/distroless/static-debian12:nonroot');
+  });
+
+  it('requires the project details', () => {
+    expect(() => generateDockerfile('go', 8080)).toThrow('Project details are required to generate a go Dockerfile');
+  });
+});
+
+describe('generateDockerfile for Node apps', () => {
+  it('installs with npm ci by default', () => {
+    const dockerfile = generateDockerfile('next', 3000);
+    expect(dockerfile).toContain('COPY package.json package-lock.json* ./\nRUN --mount=type=cache,target=/root/.npm npm ci');
+    expect(dockerfile).toContain('RUN npm run build');
+    expect(dockerfile).not.toContain('corepack');
+  });
+
+  it('enables corepack for pnpm in every stage that runs it', () => {
+    const dockerfile = generateDockerfile('nest', 3000, { node: { packageManager: 'pnpm', version: '8.15.4' } });
+    expect(dockerfile).toContain('COPY package.json pnpm-lock.yaml* ./');
+    expect(dockerfile).toContain('pnpm install --frozen-lockfile --store-dir /pnpm/store');
+    expect(dockerfile).toContain('RUN pnpm run build');
+    expect(dockerfile.match(/RUN corepack enable/g)).toHaveLength(2);
+  });
+
+  it('uses the node-modules linker for Yarn Berry', () => {
+    const dockerfile = generateDockerfile('nuxt', 3000, { node: { packageManager: 'yarn', version: '4.1.0', yarnBerry: true } });
+    expect(dockerfile).toContain('ENV YARN_NODE_LINKER=node-modules');
+    expect(dockerfile).toContain('COPY package.json yarn.lock* .yarnrc.yml* ./');
+    expect(dockerfile).toContain('yarn install --immutable');
+  });
+
+  it('copies the pinned bun binary', () => {
+    const dockerfile = generateDockerfile('react', 80, { node: { packageManager: 'bun', version: '1.1.8' } });
+    expect(dockerfile).toContain('COPY --from=oven/bun:1.1.8-alpine /usr/local/bin/bun /usr/local/bin/bun');
+    expect(dockerfile).toContain('bun install --frozen-lockfile');
+  });
+});
+
+describe('generateDockerfile for Java apps', () => {
+  it('builds a plain jar with Maven and JDK 17 by default', () => {
+    const dockerfile = generateDockerfile('java', 8080);
+    expect(dockerfile).toContain('FROM maven:3.9-eclipse-temurin-17 AS builder');
+    expect(dockerfile).toContain('mvn -B clean package -DskipTests');
+    expect(dockerfile).toContain('FROM eclipse-temurin:17-jre-alpine');
+    expect(dockerfile).toContain('ENTRYPOINT ["java", "-jar", "app.jar"]');
+  });
+
+  it('extracts Spring Boot layers from a Gradle wrapper build', () => {
+    const dockerfile = generateDockerfile('java', 8080, {
+      java: { buildTool: 'gradle', wrapper: true, jdkVersion: '21', springBoot: true, springBootVersion: '3.2.4' },
+    });
+    expect(dockerfile).toContain('FROM eclipse-temurin:21-jdk AS builder');
+    expect(dockerfile).toContain('ENV GRADLE_USER_HOME=/root/.gradle');
+    expect(dockerfile).toContain('chmod +x gradlew && ./gradlew bootJar -x test --no-daemon');
+    expect(dockerfile).toContain('java -Djarmode=layertools -jar /out/app.jar extract --destination /out/layers');
+    expect(dockerfile).toContain('COPY --from=builder /out/layers/application/ ./');
+    expect(dockerfile).toContain('ENV SERVER_PORT=8080');
+    expect(dockerfile).toContain('ENTRYPOINT ["java", "org.springframework.boot.loader.launch.JarLauncher"]');
+  });
+
+  it('uses the old launcher before Spring Boot 3.2', () => {
+    const dockerfile = generateDockerfile('java', 8080, {
+      java: { buildTool: 'maven', wrapper: false, jdkVersion: '17', springBoot: true, springBootVersion: '3.1.9' },
+    });
+    expect(dockerfile).toContain('ENTRYPOINT ["java", "org.springframework.boot.loader.JarLauncher"]');
+  });
+});
+
+describe('generateDockerfile for Node apps in a monorepo', () => {
+  const workspace = { root: '/repo', appPath: 'apps/web', packageName: '@acme/web' };
+
+  it('prunes a Turborepo to the app before installing', () => {
+    const dockerfile = generateDockerfile('next', 3000, {
+      node: { packageManager: 'pnpm', workspace: { ...workspace, orchestrator: 'turbo' } },
+    });
+    expect(dockerfile).toContain('RUN npx --yes turbo@^2 prune @acme/web --docker');
+    expect(dockerfile).toContain('COPY --from=pruner /app/out/json/ .\nCOPY --from=pruner /app/out/pnpm-lock.yaml* ./');
+    expect(dockerfile).toContain('RUN pnpm exec turbo run build --filter=@acme/web');
+    expect(dockerfile).toContain('COPY --from=builder --chown=nextjs:nodejs /app/apps/web/.next/standalone ./');
+    expect(dockerfile).toContain('CMD ["node", "apps/web/server.js"]');
+  });
+
+  it('builds the workspace with the package manager when there is no task runner', () => {
+    const build = (packageManager: 'npm' | 'yarn') =>
+      generateDockerfile('vue', 80, { node: { packageManager, workspace } });
+    expect(build('npm')).toContain('RUN npm run build --workspace apps/web');
+    expect(build('yarn')).toContain('RUN yarn workspace @acme/web run build');
+    expect(build('npm')).toContain('COPY --from=builder /app/apps/web/dist /usr/share/nginx/html');
+  });
+
+  it('ships the pnpm deploy output for a Nest server', () => {
+    const dockerfile = generateDockerfile('nest', 3000, { node: { packageManager: 'pnpm', workspace } });
+    expect(dockerfile).toContain('pnpm fetch --store-dir /pnpm/store');
+    expect(dockerfile).toContain('RUN pnpm --filter "@acme/web..." run build');
+    expect(dockerfile).toContain('COPY --from=builder /prod/dist ./dist');
+  });
+});
@@ -0,0 +1,44 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { detectFramework } from '../src/framework-detector';
+
+let projectDir: string;
+
+beforeEach(async () => {
+  projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ekspressjs-test-'));
+});
+
+afterEach(async () => {
+  await fs.remove(projectDir);
+});
+
+describe('detectFramework', () => {
+  it('prefers the meta-framework over the library it builds on', async () => {
+    await fs.writeJson(path.join(projectDir, 'package.json'), { dependencies: { next: '14.0.0', react: '18.0.0' } });
+    await fs.writeFile(path.join(projectDir, 'next.config.js'), '');
+
+    const { best, candidates } = detectFramework(projectDir);
+    expect(best?.appType).toBe('next');
+    expect(best?.confidence).toBeCloseTo(0.95);
+    expect(candidates.map(candidate => candidate.appType)).not.toContain('react');
+  });
+
+  it('reads Python dependencies and project files', async () => {
+    await fs.writeFile(path.join(projectDir, 'requirements.txt'), 'Django>=5.0\ngunicorn\n');
+    await fs.writeFile(path.join(projectDir, 'manage.py'), '');
+
+    const { best } = detectFramework(projectDir);
+    expect(best).toMatchObject({ appType: 'django', evidence: ['requirements.txt lists django', 'manage.py found'] });
+  });
+
+  it('does not mistake a package with a similar name for the framework', async () => {
+    await fs.writeFile(path.join(projectDir, 'requirements.txt'), 'flask-cors\n');
+    expect(detectFramework(projectDir).best).toBeNull();
+  });
+
+  it('finds nothing in an empty directory', () => {
+    expect(detectFramework(projectDir)).toEqual({ best: null, candidates: [] });
+  });
+});
@@ -0,0 +1,82 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { execSync } from 'child_process';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { checkGitOpsConfig, commitToGitOpsRepo } from '../src/gitops';
+import { DeployConfig } from '../src/types';
+
+function git(repoPath: string, args: string): string {
+  return execSync(`git -C "${repoPath}" ${args}`, { encoding: 'utf-8', stdio: 'pipe' }).trim();
+}
+
+describe('gitops', () => {
+  let tempDir: string;
+  let repoPath: string;
+  let manifestsDir: string;
+  let config: DeployConfig;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ekspressjs-test-'));
+    repoPath = path.join(tempDir, 'platform');
+    manifestsDir = path.join(tempDir, 'k8s');
+    await fs.ensureDir(repoPath);
+    git(repoPath, 'init --quiet');
+    git(repoPath, 'config user.email test@example.com');
+    git(repoPath, 'config user.name test');
+    await fs.outputFile(path.join(manifestsDir, 'deployment.yaml'), 'kind: Deployment\n');
+    config = {
+      region: 'us-east-1',
+      clusterName: 'main',
+      appName: 'web',
+      port: 3000,
+      replicas: 2,
+      accessKeyId: 'AKIA',
+      secretAccessKey: 'secret',
+      namespace: 'shop',
+      imageTag: 'abc1234',
+      gitops: { repoPath, push: false },
+    };
+    vi.spyOn(process, 'cwd').mockReturnValue(tempDir);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.remove(tempDir);
+  });
+
+  it('rejects secret values and a pre-deploy hook without Argo CD', () => {
+    expect(() => checkGitOpsConfig({ ...config, secrets: { DB_PASSWORD: 'hunter2' }, hooks: { preDeploy: { command: ['true'] } } }))
+      .toThrow(/secret values \(DB_PASSWORD\) would be committed in plaintext[\s\S]*hooks\.preDeploy needs gitops\.argocd/);
+    expect(() => checkGitOpsConfig({ ...config, gitops: { repoPath: tempDir } })).toThrow('is not a git checkout');
+    expect(() => checkGitOpsConfig(config)).not.toThrow();
+  });
+
+  it('commits the manifests under the app path, and nothing when they are unchanged', async () => {
+    const commit = await commitToGitOpsRepo(config, manifestsDir, null);
+
+    expect(commit).toMatchObject({ sourcePath: 'web', changed: true });
+    expect(await fs.readFile(path.join(repoPath, 'web', 'deployment.yaml'), 'utf-8')).toBe('kind: Deployment\n');
+    const message = git(repoPath, 'log -1 --format=%B');
+    expect(message).toContain('Deploy web abc1234');
+    expect(message).toContain('Namespace: shop');
+
+    const again = await commitToGitOpsRepo(config, manifestsDir, null);
+    expect(again).toEqual({ sha: commit.sha, sourcePath: 'web', changed: false });
+  });
+
+  it('commits the pre-deploy Job and its ConfigMap as PreSync hooks, the ConfigMap first', async () => {
+    await fs.outputFile(path.join(manifestsDir, 'pre-deploy-job.yaml'), [
+      'kind: ConfigMap\nmetadata:\n  name: web-pre-deploy-config\n',
+      'kind: Job\nmetadata:\n  name: web-pre-deploy\n',
+    ].join('---\n'));
+
+    await commitToGitOpsRepo({ ...config, hooks: { preDeploy: { command: ['true'] } } }, manifestsDir, null);
+
+    const [configMap, job] = yaml.loadAll(await fs.readFile(path.join(repoPath, 'web', 'pre-deploy-job.yaml'), 'utf-8')) as any[];
+    expect(configMap.metadata.annotations).toMatchObject({ 'argocd.argoproj.io/hook': 'PreSync', 'argocd.argoproj.io/sync-wave': '-1' });
+    expect(job.metadata.annotations['argocd.argoproj.io/hook']).toBe('PreSync');
+    expect(job.metadata.annotations['argocd.argoproj.io/sync-wave']).toBeUndefined();
+  });
+});
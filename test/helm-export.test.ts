@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { execSync } from 'child_process';
+import { exportHelmChart, lintHelmChart } from '../src/helm-export';
+import { DeployConfig } from '../src/types';
+
+const config = {
+  region: 'us-east-1',
+  clusterName: 'main',
+  appName: 'web',
+  appType: 'express',
+  port: 3000,
+  replicas: 2,
+  namespace: 'shop',
+  imageRegistry: '123456789012.dkr.ecr.us-east-1.amazonaws.com',
+  imageTag: 'abc123',
+  enableIngress: true,
+  envVars: [{ name: 'LOG_LEVEL', value: 'info' }],
+  secrets: { API_KEY: 'hunter2' },
+} as DeployConfig;
+
+function helmInstalled(): boolean {
+  try {
+    execSync('helm version', { stdio: 'pipe' });
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+describe('exportHelmChart', () => {
+  let projectDir: string;
+  let chartDir: string;
+
+  beforeEach(async () => {
+    projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ekspressjs-test-'));
+    vi.spyOn(process, 'cwd').mockReturnValue(projectDir);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    chartDir = await exportHelmChart(config);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.remove(projectDir);
+  });
+
+  async function readTemplate(file: string): Promise<string> {
+    return fs.readFile(path.join(chartDir, 'templates', file), 'utf-8');
+  }
+
+  it('writes the chart to ekspressjs/helm/<app>', async () => {
+    expect(chartDir).toBe(path.join(projectDir, 'ekspressjs', 'helm', 'web'));
+    expect(yaml.load(await fs.readFile(path.join(chartDir, 'Chart.yaml'), 'utf-8'))).toMatchObject({
+      apiVersion: 'v2',
+      name: 'web',
+      appVersion: 'abc123',
+    });
+    expect(await fs.readdir(path.join(chartDir, 'templates'))).toEqual(
+      expect.arrayContaining(['deployment.yaml', 'service.yaml', 'ingress.yaml', 'hpa.yaml', 'secrets.yaml'])
+    );
+  });
+
+  it('exports the values without secret values', async () => {
+    const values = yaml.load(await fs.readFile(path.join(chartDir, 'values.yaml'), 'utf-8'));
+    expect(values).toMatchObject({
+      replicas: 2,
+      image: { repository: '123456789012.dkr.ecr.us-east-1.amazonaws.com/web', tag: 'abc123' },
+      imagePullSecrets: [{ name: 'ecr-registry-secret' }],
+      port: 3000,
+      env: { LOG_LEVEL: 'info' },
+      secrets: { API_KEY: '' },
+    });
+  });
+
+  it('substitutes every placeholder with template syntax', async () => {
+    for (const file of await fs.readdir(path.join(chartDir, 'templates'))) {
+      expect(await readTemplate(file)).not.toContain('__helm_');
+    }
+
+    const deployment = await readTemplate('deployment.yaml');
+    expect(deployment).toContain('namespace: {{ .Release.Namespace }}');
+    expect(deployment).toMatch(/^ {2}\{\{- if not \.Values\.autoscaling\.enabled \}\}\n {2}replicas: \{\{ \.Values\.replicas \}\}\n {2}\{\{- end \}\}$/m);
+    expect(deployment).toContain('image: "{{ .Values.image.repository }}:{{ .Values.image.tag }}"');
+    expect(deployment).toContain('containerPort: {{ .Values.port }}');
+    expect(deployment).toContain('{{- range $name, $value := .Values.env }}');
+    expect(deployment).not.toContain('LOG_LEVEL');
+
+    const secrets = await readTemplate('secrets.yaml');
+    expect(secrets).toContain('{{ $key }}: {{ $value | b64enc | quote }}');
+    expect(secrets).not.toContain('hunter2');
+
+    expect(await readTemplate('ingress.yaml')).toMatch(/^\{\{- if \.Values\.ingress\.enabled \}\}\n[\s\S]*\{\{- end \}\}\n$/);
+  });
+
+  it('indents toYaml blocks to the field they replace', async () => {
+    const deployment = await readTemplate('deployment.yaml');
+    const [, indent, nindent] = deployment.match(/^( +)resources:\n +\{\{- toYaml \.Values\.resources \| nindent (\d+) \}\}$/m)!;
+    expect(Number(nindent)).toBe(indent.length + 2);
+  });
+
+  it.skipIf(!helmInstalled())('passes helm lint and renders with helm template', () => {
+    expect(lintHelmChart(chartDir)).toBe(true);
+
+    const rendered = yaml.loadAll(execSync(`helm template web "${chartDir}" --namespace shop`, { encoding: 'utf-8' })) as any[];
+    const deployment = rendered.find(object => object?.kind === 'Deployment');
+    expect(deployment.metadata.namespace).toBe('shop');
+    expect(deployment.spec.replicas).toBe(2);
+    expect(deployment.spec.template.spec.containers[0]).toMatchObject({
+      image: '123456789012.dkr.ecr.us-east-1.amazonaws.com/web:abc123',
+      ports: [{ containerPort: 3000 }],
+    });
+    expect(deployment.spec.template.spec.containers[0].env).toContainEqual({ name: 'LOG_LEVEL', value: 'info' });
+    expect(rendered.some(object => object?.kind === 'HorizontalPodAutoscaler')).toBe(false);
+  });
+});
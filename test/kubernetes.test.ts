@@ -0,0 +1,323 @@
+import { describe, expect, it } from 'vitest';
+import * as yaml from 'js-yaml';
+import {
+  generateAutoscalingManifest,
+  generateConfigMapManifest,
+  generateCronJobManifest,
+  generateDeploymentManifest,
+  generateDisruptionBudgetManifest,
+  generateExternalSecretManifest,
+  generatePreDeployJobManifest,
+  serializeManifest,
+  DEFAULT_HOOK_TIMEOUT_SECONDS,
+} from '../src/templates/kubernetes';
+import { AWSConfig } from '../src/prompts';
+import { WorkloadConfig } from '../src/types';
+
+const baseConfig: AWSConfig = {
+  region: 'us-east-1',
+  clusterName: 'main',
+  appName: 'web',
+  port: 3000,
+  replicas: 2,
+  accessKeyId: 'AKIA',
+  secretAccessKey: 'secret',
+  namespace: 'shop',
+};
+
+describe('serializeManifest', () => {
+  it('keeps env values with quotes, newlines and # intact', () => {
+    const value = 'say "hi" # not a comment\nsecond line: yes';
+    const deployment = generateDeploymentManifest({ ...baseConfig, envVars: [{ name: 'GREETING', value }] }, 'next');
+    const [parsed] = yaml.loadAll(serializeManifest(deployment)) as any[];
+    expect(parsed.spec.template.spec.containers[0].env).toContainEqual({ name: 'GREETING', value });
+  });
+
+  it('writes several objects as separate documents, without unset fields', () => {
+    const [env, files] = generateConfigMapManifest({ ...baseConfig, configMaps: { A: '1', 'b.txt': 'x' }, configMapMounts: { 'b.txt': '/b.txt' } });
+    const documents = yaml.loadAll(serializeManifest([env, files])) as any[];
+    expect(documents.map(document => document.metadata.name)).toEqual(['web-config', 'web-config-files']);
+    expect(serializeManifest(generateDeploymentManifest(baseConfig, 'next'))).not.toContain('undefined');
+  });
+});
+
+describe('generateConfigMapManifest', () => {
+  it('renders nothing without configMaps', () => {
+    expect(generateConfigMapManifest(baseConfig)).toEqual([]);
+  });
+
+  it('splits env keys and mounted files into two ConfigMaps', () => {
+    const [env, files] = generateConfigMapManifest({
+      ...baseConfig,
+      configMaps: { LOG_LEVEL: 'debug', 'app.json': '{"a": 1}' },
+      configMapMounts: { 'app.json': '/etc/app/app.json' },
+    });
+    expect(env.metadata).toMatchObject({ name: 'web-config', namespace: 'shop' });
+    expect(env.data).toEqual({ LOG_LEVEL: 'debug' });
+    expect(files.metadata.name).toBe('web-config-files');
+    expect(files.data).toEqual({ 'app.json': '{"a": 1}' });
+  });
+});
+
+describe('generateDeploymentManifest with configMaps', () => {
+  const config: AWSConfig = {
+    ...baseConfig,
+    configMaps: { LOG_LEVEL: 'debug', 'app.json': '{}' },
+    configMapMounts: { 'app.json': '/etc/app/app.json' },
+  };
+
+  it('injects env keys with envFrom and mounts file keys', () => {
+    const deployment = generateDeploymentManifest(config, 'next');
+    const pod = deployment.spec.template.spec;
+    expect(pod.containers[0].envFrom).toEqual([{ configMapRef: { name: 'web-config' } }]);
+    expect(pod.containers[0].volumeMounts).toEqual([
+      { name: 'config-files', mountPath: '/etc/app/app.json', subPath: 'app.json', readOnly: true },
+    ]);
+    expect(pod.volumes).toEqual([{ name: 'config-files', configMap: { name: 'web-config-files' } }]);
+  });
+
+  it('changes the pod template checksum when a value changes', () => {
+    const checksum = (c: AWSConfig) => generateDeploymentManifest(c, 'next').spec.template.metadata?.annotations?.['checksum/config'];
+    expect(checksum(config)).toMatch(/^[0-9a-f]{64}$/);
+    expect(checksum({ ...config, configMaps: { ...config.configMaps, LOG_LEVEL: 'info' } })).not.toBe(checksum(config));
+  });
+
+  it('leaves the Deployment unchanged without configMaps', () => {
+    const deployment = generateDeploymentManifest(baseConfig, 'next');
+    expect(deployment.spec.template.metadata?.annotations).toBeUndefined();
+    expect(deployment.spec.template.spec.volumes).toBeUndefined();
+    expect(deployment.spec.template.spec.containers[0].envFrom).toBeUndefined();
+  });
+});
+
+describe('generateAutoscalingManifest', () => {
+  const autoscaled = (autoscaling: Partial<NonNullable<AWSConfig['autoscaling']>>) =>
+    generateAutoscalingManifest({ ...baseConfig, autoscaling: { enabled: true, minReplicas: 2, maxReplicas: 10, ...autoscaling } })!;
+
+  it('renders nothing when autoscaling is off', () => {
+    expect(generateAutoscalingManifest(baseConfig)).toBeNull();
+    expect(generateAutoscalingManifest({ ...baseConfig, autoscaling: { enabled: false, minReplicas: 1, maxReplicas: 2 } })).toBeNull();
+  });
+
+  it('scales on 70% CPU when no metric is configured', () => {
+    const hpa = autoscaled({});
+    expect(hpa.spec).toMatchObject({ minReplicas: 2, maxReplicas: 10, scaleTargetRef: { kind: 'Deployment', name: 'web' } });
+    expect(hpa.spec.metrics).toEqual([
+      { type: 'Resource', resource: { name: 'cpu', target: { type: 'Utilization', averageUtilization: 70 } } },
+    ]);
+    expect(hpa.spec.behavior).toBeUndefined();
+  });
+
+  it('combines CPU, memory and custom metrics', () => {
+    const hpa = autoscaled({
+      targetCPU: 60,
+      targetMemory: 80,
+      customMetrics: [
+        { type: 'Pods', name: 'http_requests_per_second', targetType: 'AverageValue', targetValue: '100' },
+        { type: 'External', name: 'sqs_messages', targetType: 'Value', targetValue: '30', selector: { queue: 'jobs' } },
+      ],
+    });
+    expect(hpa.spec.metrics).toEqual([
+      { type: 'Resource', resource: { name: 'cpu', target: { type: 'Utilization', averageUtilization: 60 } } },
+      { type: 'Resource', resource: { name: 'memory', target: { type: 'Utilization', averageUtilization: 80 } } },
+      {
+        type: 'Pods',
+        pods: { metric: { name: 'http_requests_per_second' }, target: { type: 'AverageValue', averageValue: '100' } },
+      },
+      {
+        type: 'External',
+        external: {
+          metric: { name: 'sqs_messages', selector: { matchLabels: { queue: 'jobs' } } },
+          target: { type: 'Value', value: '30' },
+        },
+      },
+    ]);
+  });
+
+  it('renders scale-up and scale-down behavior', () => {
+    const hpa = autoscaled({
+      behavior: {
+        scaleUp: { stabilizationWindowSeconds: 0, policies: [{ type: 'Percent', value: 100, periodSeconds: 15 }] },
+        scaleDown: { stabilizationWindowSeconds: 300, selectPolicy: 'Min', policies: [{ type: 'Pods', value: 1, periodSeconds: 60 }] },
+      },
+    });
+    expect(hpa.spec.behavior).toEqual({
+      scaleUp: { stabilizationWindowSeconds: 0, policies: [{ type: 'Percent', value: 100, periodSeconds: 15 }] },
+      scaleDown: { stabilizationWindowSeconds: 300, selectPolicy: 'Min', policies: [{ type: 'Pods', value: 1, periodSeconds: 60 }] },
+    });
+  });
+});
+
+describe('generateDeploymentManifest image', () => {
+  const image = (config: AWSConfig) => generateDeploymentManifest(config, 'next').spec.template.spec.containers[0].image;
+
+  it('uses the resolved immutable tag', () => {
+    expect(image({ ...baseConfig, imageRegistry: '123.dkr.ecr.us-east-1.amazonaws.com', imageTag: 'abc1234' }))
+      .toBe('123.dkr.ecr.us-east-1.amazonaws.com/web:abc1234');
+  });
+
+  it('falls back to latest when no tag was resolved', () => {
+    expect(image(baseConfig)).toBe('web:latest');
+  });
+});
+
+describe('generateDeploymentManifest JVM memory flags', () => {
+  const env = (config: AWSConfig, appType: 'java' | 'next' = 'java') =>
+    generateDeploymentManifest(config, appType).spec.template.spec.containers[0].env || [];
+  const limits = (memory: string) => ({ requests: { cpu: '250m', memory: '256Mi' }, limits: { cpu: '500m', memory } });
+
+  it('sizes the heap from the memory limit', () => {
+    expect(env({ ...baseConfig, jvmMemoryFlags: true, resources: limits('2Gi') })).toContainEqual({
+      name: 'JAVA_TOOL_OPTIONS',
+      value: '-XX:MaxRAMPercentage=80.0 -XX:+ExitOnOutOfMemoryError',
+    });
+    expect(env({ ...baseConfig, jvmMemoryFlags: true, resources: limits('512Mi') })).toContainEqual({
+      name: 'JAVA_TOOL_OPTIONS',
+      value: '-XX:MaxRAMPercentage=50.0 -XX:+ExitOnOutOfMemoryError',
+    });
+  });
+
+  it('leaves other frameworks and a user-set JAVA_TOOL_OPTIONS alone', () => {
+    expect(env({ ...baseConfig, jvmMemoryFlags: true }, 'next')).not.toContainEqual(expect.objectContaining({ name: 'JAVA_TOOL_OPTIONS' }));
+    const userSet = env({ ...baseConfig, jvmMemoryFlags: true, envVars: [{ name: 'JAVA_TOOL_OPTIONS', value: '-Xmx1g' }] });
+    expect(userSet.filter(envVar => envVar.name === 'JAVA_TOOL_OPTIONS')).toEqual([{ name: 'JAVA_TOOL_OPTIONS', value: '-Xmx1g' }]);
+  });
+});
+
+describe('workload manifests', () => {
+  const config: AWSConfig = { ...baseConfig, appName: 'web-queue', imageName: 'web', imageRegistry: 'repo', imageTag: 'v1', replicas: 1 };
+
+  it('runs a worker with its command, without a port or HTTP probes', () => {
+    const worker: WorkloadConfig = {
+      name: 'queue',
+      kind: 'worker',
+      command: ['node', 'worker.js'],
+    };
+    const probes = { liveness: { command: ['cat', '/tmp/healthy'] } };
+    const deployment = generateDeploymentManifest({ ...config, probes }, 'nest', worker);
+    const container = deployment.spec.template.spec.containers[0];
+    expect(container.image).toBe('repo/web:v1');
+    expect(container.command).toEqual(['node', 'worker.js']);
+    expect(container.ports).toBeUndefined();
+    expect(container.env).toEqual([{ name: 'NODE_ENV', value: 'production' }]);
+    expect(container.livenessProbe?.exec?.command).toEqual(['cat', '/tmp/healthy']);
+    expect(container.readinessProbe).toBeUndefined();
+  });
+
+  it('schedules a cron job that does not overlap by default', () => {
+    const cron: WorkloadConfig = { name: 'report', kind: 'cron', command: ['node', 'report.js'], schedule: '0 3 * * *' };
+    const cronJob = generateCronJobManifest({ ...config, appName: 'web-report' }, 'nest', cron);
+    expect(cronJob.kind).toBe('CronJob');
+    expect(cronJob.spec).toMatchObject({ schedule: '0 3 * * *', concurrencyPolicy: 'Forbid', successfulJobsHistoryLimit: 3, failedJobsHistoryLimit: 1 });
+    const pod = cronJob.spec.jobTemplate.spec.template.spec;
+    expect(pod.restartPolicy).toBe('OnFailure');
+    expect(pod.containers[0].command).toEqual(['node', 'report.js']);
+    expect(pod.containers[0].livenessProbe).toBeUndefined();
+  });
+});
+
+describe('generatePreDeployJobManifest', () => {
+  it('runs the hook command once, without retries, within its deadline', () => {
+    const config: AWSConfig = { ...baseConfig, appName: 'web-pre-deploy', imageName: 'web', imageTag: 'v1' };
+    const job = generatePreDeployJobManifest(config, 'nest', { command: ['npm', 'run', 'migrate'], timeoutSeconds: 120 });
+    expect(job.kind).toBe('Job');
+    expect(job.spec).toMatchObject({ backoffLimit: 0, activeDeadlineSeconds: 120 });
+    const pod = job.spec.template.spec;
+    expect(pod.restartPolicy).toBe('Never');
+    expect(pod.containers[0]).toMatchObject({ image: 'web:v1', command: ['npm', 'run', 'migrate'] });
+    expect(pod.containers[0].ports).toBeUndefined();
+  });
+
+  it('defaults the deadline', () => {
+    const job = generatePreDeployJobManifest(baseConfig, 'nest', { command: ['true'] });
+    expect(job.spec.activeDeadlineSeconds).toBe(DEFAULT_HOOK_TIMEOUT_SECONDS);
+  });
+
+  it('reads the Secrets and ConfigMaps named after envSourceName', () => {
+    const config: AWSConfig = {
+      ...baseConfig,
+      appName: 'web-pre-deploy',
+      partOf: 'web',
+      envSourceName: 'web-pre-deploy',
+      secrets: { DB_PASSWORD: 'x', API_TOKEN: 'ssm:/web/token' },
+      configMaps: { LOG_LEVEL: 'debug' },
+    };
+    const job = generatePreDeployJobManifest(config, 'nest', { command: ['true'] });
+    expect(job.spec.template.spec.containers[0].envFrom).toEqual([
+      { configMapRef: { name: 'web-pre-deploy-config' } },
+      { secretRef: { name: 'web-pre-deploy-secrets' } },
+      { secretRef: { name: 'web-pre-deploy-ref-secrets' } },
+    ]);
+  });
+});
+
+describe('availability', () => {
+  const single: AWSConfig = { ...baseConfig, replicas: 1 };
+
+  it('leaves a single replica without scheduling rules or PodDisruptionBudget', () => {
+    const pod = generateDeploymentManifest(single, 'next').spec.template.spec;
+    expect(pod.topologySpreadConstraints).toBeUndefined();
+    expect(pod.affinity).toBeUndefined();
+    expect(generateDisruptionBudgetManifest(single)).toBeNull();
+  });
+
+  it('spreads replicas over zones and nodes and prefers separate nodes', () => {
+    const pod = generateDeploymentManifest(baseConfig, 'next').spec.template.spec;
+    expect(pod.topologySpreadConstraints).toEqual([
+      { maxSkew: 1, topologyKey: 'topology.kubernetes.io/zone', whenUnsatisfiable: 'ScheduleAnyway', labelSelector: { matchLabels: { app: 'web' } } },
+      { maxSkew: 1, topologyKey: 'kubernetes.io/hostname', whenUnsatisfiable: 'ScheduleAnyway', labelSelector: { matchLabels: { app: 'web' } } },
+    ]);
+    expect(pod.affinity?.podAntiAffinity?.preferredDuringSchedulingIgnoredDuringExecution).toEqual([
+      { weight: 100, podAffinityTerm: { labelSelector: { matchLabels: { app: 'web' } }, topologyKey: 'kubernetes.io/hostname' } },
+    ]);
+  });
+
+  it('counts the autoscaling maximum as replicas', () => {
+    const autoscaled = { ...single, autoscaling: { enabled: true, minReplicas: 1, maxReplicas: 4 } };
+    expect(generateDisruptionBudgetManifest(autoscaled)?.spec).toEqual({ maxUnavailable: 1, selector: { matchLabels: { app: 'web' } } });
+  });
+
+  it('applies the configured budget and rules', () => {
+    const config: AWSConfig = {
+      ...baseConfig,
+      availability: { minAvailable: '50%', topologySpread: false, podAntiAffinity: false },
+    };
+    const pod = generateDeploymentManifest(config, 'next').spec.template.spec;
+    expect(pod.topologySpreadConstraints).toBeUndefined();
+    expect(pod.affinity).toBeUndefined();
+    const budget = generateDisruptionBudgetManifest(config);
+    expect(budget?.metadata).toMatchObject({ name: 'web-pdb', namespace: 'shop' });
+    expect(budget?.spec).toEqual({ minAvailable: '50%', selector: { matchLabels: { app: 'web' } } });
+    expect(generateDisruptionBudgetManifest({ ...config, availability: { enabled: false } })).toBeNull();
+  });
+});
+
+describe('generateExternalSecretManifest', () => {
+  const stripeArn = 'arn:aws:secretsmanager:eu-west-1:123456789012:secret:stripe';
+
+  it('renders a v1 SecretStore per provider and one ExternalSecret', () => {
+    const [secretsManager, parameterStore, externalSecret] = generateExternalSecretManifest({
+      ...baseConfig,
+      secrets: { STRIPE_KEY: `secretsmanager:${stripeArn}`, DB_URL: `secretsmanager:${stripeArn}#db`, API_TOKEN: 'ssm:/web/token', LOCAL: 'x' },
+    }) as any[];
+
+    expect([secretsManager, parameterStore, externalSecret].map(object => object.apiVersion)).toEqual(Array(3).fill('external-secrets.io/v1'));
+    expect(secretsManager.metadata.name).toBe('web-secretsmanager');
+    expect(secretsManager.spec.provider.aws).toMatchObject({ service: 'SecretsManager', region: 'eu-west-1' });
+    expect(parameterStore.spec.provider.aws).toMatchObject({ service: 'ParameterStore', region: 'us-east-1' });
+    expect(externalSecret.spec.target.name).toBe('web-ref-secrets');
+    expect(externalSecret.spec.data.map((entry: any) => entry.secretKey)).toEqual(['STRIPE_KEY', 'DB_URL', 'API_TOKEN']);
+    expect(externalSecret.spec.data[2].sourceRef).toEqual({ storeRef: { name: 'web-parameterstore', kind: 'SecretStore' } });
+  });
+
+  it('rejects references of one provider in several regions', () => {
+    expect(() => generateExternalSecretManifest({
+      ...baseConfig,
+      secrets: { STRIPE_KEY: `secretsmanager:${stripeArn}`, DB_URL: 'secretsmanager:prod/db' },
+    })).toThrow('references span several regions (eu-west-1, us-east-1)');
+  });
+
+  it('renders nothing without references', () => {
+    expect(generateExternalSecretManifest({ ...baseConfig, secrets: { LOCAL: 'x' } })).toEqual([]);
+  });
+});
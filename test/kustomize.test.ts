@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { diffValues, parseImage, writeKustomization, JsonPatchOperation } from '../src/kustomize';
+import { activateProfile } from '../src/profiles';
+import { KubernetesObject } from '../src/templates/kubernetes-types';
+
+describe('parseImage', () => {
+  it('splits name and tag', () => {
+    expect(parseImage('nginx:1.25')).toEqual({ name: 'nginx', tag: '1.25', digest: undefined });
+  });
+
+  it('keeps a registry port in the name', () => {
+    expect(parseImage('registry.local:5000/team/web')).toEqual({ name: 'registry.local:5000/team/web', digest: undefined });
+    expect(parseImage('registry.local:5000/team/web:v2')).toEqual({ name: 'registry.local:5000/team/web', tag: 'v2', digest: undefined });
+  });
+
+  it('reads the digest after @', () => {
+    expect(parseImage('123456789012.dkr.ecr.us-east-1.amazonaws.com/web:abc123@sha256:deadbeef')).toEqual({
+      name: '123456789012.dkr.ecr.us-east-1.amazonaws.com/web',
+      tag: 'abc123',
+      digest: 'sha256:deadbeef',
+    });
+  });
+});
+
+describe('diffValues', () => {
+  function diff(from: unknown, to: unknown): JsonPatchOperation[] {
+    const operations: JsonPatchOperation[] = [];
+    diffValues(from, to, '', operations);
+    return operations;
+  }
+
+  it('returns nothing for equal values', () => {
+    expect(diff({ a: 1, b: [1, 2] }, { a: 1, b: [1, 2] })).toEqual([]);
+  });
+
+  it('adds, removes and replaces fields', () => {
+    expect(diff({ a: 1, b: 2 }, { a: 3, c: 4 })).toEqual([
+      { op: 'remove', path: '/b' },
+      { op: 'replace', path: '/a', value: 3 },
+      { op: 'add', path: '/c', value: 4 },
+    ]);
+  });
+
+  it('patches list items in place when the length is unchanged', () => {
+    expect(diff({ containers: [{ image: 'a' }] }, { containers: [{ image: 'b' }] })).toEqual([
+      { op: 'replace', path: '/containers/0/image', value: 'b' },
+    ]);
+  });
+
+  it('replaces a list whose length changed', () => {
+    expect(diff({ args: ['a'] }, { args: ['a', 'b'] })).toEqual([{ op: 'replace', path: '/args', value: ['a', 'b'] }]);
+  });
+
+  it('escapes / and ~ in keys', () => {
+    expect(diff({}, { 'kubernetes.io/ingress~class': 'alb' })).toEqual([
+      { op: 'add', path: '/kubernetes.io~1ingress~0class', value: 'alb' },
+    ]);
+  });
+});
+
+describe('writeKustomization', () => {
+  let projectDir: string;
+
+  function deployment(namespace: string, image: string, replicas: number, logLevel: string): KubernetesObject {
+    return {
+      apiVersion: 'apps/v1',
+      kind: 'Deployment',
+      metadata: { name: 'web', namespace },
+      spec: {
+        replicas,
+        template: { spec: { containers: [{ name: 'web', image, env: [{ name: 'LOG_LEVEL', value: logLevel }] }] } },
+      },
+    } as KubernetesObject;
+  }
+
+  const service = { apiVersion: 'v1', kind: 'Service', metadata: { name: 'web-service', namespace: 'default' } } as KubernetesObject;
+
+  beforeEach(async () => {
+    projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ekspressjs-test-'));
+    vi.spyOn(process, 'cwd').mockReturnValue(projectDir);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    activateProfile({ env: 'prod' });
+  });
+
+  afterEach(async () => {
+    activateProfile({});
+    vi.restoreAllMocks();
+    await fs.remove(projectDir);
+  });
+
+  it('writes the base and an overlay with namespace, image, replicas and a patch for the rest', async () => {
+    const base = [
+      { file: 'deployment.yaml', objects: [deployment('default', 'repo/web:latest', 2, 'info')] },
+      { file: 'service.yaml', objects: [service] },
+    ];
+    const target = [{ file: 'deployment.yaml', objects: [deployment('prod', 'repo/web:abc123', 5, 'warn')] }];
+
+    const overlayDir = await writeKustomization(base, target);
+
+    const kustomizeDir = path.join(projectDir, 'ekspressjs', 'kustomize');
+    expect(overlayDir).toBe(path.join(kustomizeDir, 'overlays', 'prod'));
+    const baseKustomization = yaml.load(await fs.readFile(path.join(kustomizeDir, 'base', 'kustomization.yaml'), 'utf-8'));
+    expect(baseKustomization).toMatchObject({ resources: ['deployment.yaml', 'service.yaml'] });
+
+    const overlay = yaml.load(await fs.readFile(path.join(overlayDir, 'kustomization.yaml'), 'utf-8')) as any;
+    expect(overlay).toMatchObject({
+      resources: ['../../base'],
+      namespace: 'prod',
+      images: [{ name: 'repo/web', newTag: 'abc123' }],
+      replicas: [{ name: 'web', count: 5 }],
+    });
+    expect(overlay.patches).toEqual([
+      { path: 'deployment-web.yaml', target: { kind: 'Deployment', name: 'web' } },
+      { path: 'service-web-service.delete.yaml' },
+    ]);
+    expect(yaml.load(await fs.readFile(path.join(overlayDir, 'deployment-web.yaml'), 'utf-8'))).toEqual([
+      { op: 'replace', path: '/spec/template/spec/containers/0/env/0/value', value: 'warn' },
+    ]);
+  });
+
+  it('reports the overlays of other profiles when the base changes', async () => {
+    const log = vi.mocked(console.log);
+    const base = [{ file: 'deployment.yaml', objects: [deployment('default', 'repo/web:latest', 2, 'info')] }];
+    await writeKustomization(base, [{ file: 'deployment.yaml', objects: [deployment('prod', 'repo/web:abc123', 5, 'warn')] }]);
+
+    activateProfile({ env: 'staging' });
+    log.mockClear();
+    await writeKustomization(base, [{ file: 'deployment.yaml', objects: [deployment('staging', 'repo/web:abc123', 1, 'debug')] }]);
+    expect(log).not.toHaveBeenCalled();
+
+    const changedBase = [{ file: 'deployment.yaml', objects: [deployment('default', 'repo/web:latest', 2, 'error')] }];
+    await writeKustomization(changedBase, [{ file: 'deployment.yaml', objects: [deployment('staging', 'repo/web:abc123', 1, 'debug')] }]);
+    expect(log).toHaveBeenCalledTimes(1);
+    expect(log.mock.calls[0][0]).toContain('the overlays prod were written against the previous one');
+  });
+});
+
@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import axios from 'axios';
+import { DeployConfig } from '../src/types';
+
+vi.mock('axios', () => ({ default: { get: vi.fn() } }));
+
+const definitions = {
+  'io.k8s.api.core.v1.ConfigMap': {
+    type: 'object',
+    required: ['metadata'],
+    properties: {
+      apiVersion: { type: 'string' },
+      kind: { type: 'string' },
+      metadata: { $ref: '#/definitions/io.k8s.apimachinery.pkg.apis.meta.v1.ObjectMeta' },
+      data: { type: 'object', additionalProperties: { type: 'string' } },
+    },
+    'x-kubernetes-group-version-kind': [{ group: '', version: 'v1', kind: 'ConfigMap' }],
+  },
+  'io.k8s.apimachinery.pkg.apis.meta.v1.ObjectMeta': {
+    type: 'object',
+    properties: { name: { type: 'string' }, namespace: { type: 'string' } },
+  },
+};
+
+const config = { region: 'us-east-1', clusterName: 'main', appName: 'web', kubernetesVersion: '1.30' } as DeployConfig;
+
+function configMap(data: Record<string, unknown>) {
+  return { apiVersion: 'v1', kind: 'ConfigMap', metadata: { name: 'web-config' }, data } as any;
+}
+
+describe('validateManifests', () => {
+  let homeDir: string;
+  let cachePath: string;
+
+  beforeEach(async () => {
+    homeDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ekspressjs-test-'));
+    cachePath = path.join(homeDir, '.ekspressjs', 'openapi', '1.30.json');
+    vi.stubEnv('HOME', homeDir);
+    vi.resetModules();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    vi.mocked(axios.get).mockReset();
+    await fs.remove(homeDir);
+  });
+
+  async function load() {
+    return (await import('../src/manifest-validation')).validateManifests;
+  }
+
+  it('reports fields that do not match the schema, with their file and path', async () => {
+    await fs.outputJson(cachePath, { definitions });
+    const validateManifests = await load();
+
+    await expect(validateManifests(config, [{ file: 'configmap.yaml', objects: [configMap({ PORT: 3000 })] }]))
+      .rejects.toThrow('configmap.yaml: ConfigMap web-config: data.PORT must be string, got number');
+    await expect(validateManifests(config, [{ file: 'configmap.yaml', objects: [configMap({ PORT: '3000' })] }]))
+      .resolves.toBeUndefined();
+  });
+
+  it('downloads the schema again when the cached copy is unreadable', async () => {
+    await fs.outputFile(cachePath, '{"defin');
+    vi.mocked(axios.get).mockResolvedValue({ data: { definitions } });
+    const validateManifests = await load();
+
+    await validateManifests(config, [{ file: 'configmap.yaml', objects: [configMap({ PORT: '3000' })] }]);
+
+    expect(axios.get).toHaveBeenCalledWith(expect.stringContaining('release-1.30'), expect.anything());
+    expect((await fs.readJson(cachePath)).definitions).toEqual(definitions);
+  });
+
+  it('skips validation without a schema, unless strictValidation is set', async () => {
+    vi.mocked(axios.get).mockRejectedValue(new Error('offline'));
+    const validateManifests = await load();
+    const files = [{ file: 'configmap.yaml', objects: [configMap({ PORT: 3000 })] }];
+
+    await expect(validateManifests(config, files)).resolves.toBeUndefined();
+    await expect(validateManifests({ ...config, strictValidation: true }, files))
+      .rejects.toThrow('Manifests cannot be validated: the Kubernetes 1.30 OpenAPI schema is unavailable');
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { diffLines, keepComparedImages } from '../src/plan';
+
+describe('diffLines', () => {
+  it('returns nothing for identical input', () => {
+    expect(diffLines(['a', 'b'], ['a', 'b'])).toEqual([]);
+  });
+
+  it('marks removed and added lines', () => {
+    expect(diffLines(['a', 'b', 'c'], ['a', 'x', 'c'])).toEqual(['  a', '- b', '+ x', '  c']);
+  });
+
+  it('shows two lines of context and elides the rest', () => {
+    const before = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10'];
+    const after = ['1', '2', '3', '4', '5', '6', '7', '8', '9', 'ten'];
+    expect(diffLines(before, after)).toEqual(['  8', '  9', '- 10', '+ ten']);
+
+    const twoChanges = ['one', ...before.slice(1, 9), 'ten'];
+    expect(diffLines(before, twoChanges)).toEqual(['- 1', '+ one', '  2', '  3', '  ...', '  8', '  9', '- 10', '+ ten']);
+  });
+
+  it('handles empty input on either side', () => {
+    expect(diffLines([], ['a'])).toEqual(['+ a']);
+    expect(diffLines(['a'], [])).toEqual(['- a']);
+  });
+});
+
+describe('keepComparedImages', () => {
+  const deployment = (image: string) => ({
+    kind: 'Deployment',
+    metadata: { name: 'web' },
+    spec: { template: { spec: { containers: [{ name: 'web', image }] } } },
+  });
+  const image = (document: any) => document.spec.template.spec.containers[0].image;
+
+  it('keeps the deployed image when only the tag or digest differs', () => {
+    const planned = deployment('registry:5000/team/web:abc1234');
+    const kept = keepComparedImages(planned, deployment('registry:5000/team/web@sha256:0123'));
+    expect(image(kept)).toBe('registry:5000/team/web@sha256:0123');
+    expect(image(planned)).toBe('registry:5000/team/web:abc1234');
+  });
+
+  it('shows a change to another repository', () => {
+    const kept = keepComparedImages(deployment('registry/web:abc1234'), deployment('registry/api:abc1234'));
+    expect(image(kept)).toBe('registry/web:abc1234');
+  });
+
+  it('leaves documents without containers alone', () => {
+    const service = { kind: 'Service', metadata: { name: 'web' }, spec: { ports: [] } };
+    expect(keepComparedImages(service, deployment('registry/web:1'))).toBe(service);
+  });
+});
@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { loadProjectConfig, validateProjectConfig } from '../src/project-config';
+import { activateProfile } from '../src/profiles';
+
+describe('validateProjectConfig', () => {
+  it('accepts a minimal config', () => {
+    expect(validateProjectConfig({ version: 1, app: { name: 'web', framework: 'next', port: 3000 } })).toEqual([]);
+  });
+
+  it('rejects unknown fields', () => {
+    expect(validateProjectConfig({ app: { name: 'web', prot: 3000 } })).toEqual(['app.prot is not a known setting']);
+  });
+
+  it('checks types, patterns, enums and ranges', () => {
+    const errors = validateProjectConfig({
+      app: { name: 'Web', framework: 'rails', port: 70000, replicas: '2' },
+    });
+    expect(errors).toHaveLength(4);
+    expect(errors.join('\n')).toMatch(/app\.name/);
+    expect(errors.join('\n')).toMatch(/app\.framework/);
+    expect(errors.join('\n')).toMatch(/app\.port/);
+    expect(errors.join('\n')).toMatch(/app\.replicas/);
+  });
+
+  it('checks relations between fields after the schema', () => {
+    expect(validateProjectConfig({ autoscaling: { minReplicas: 5, maxReplicas: 2 } }))
+      .toContain('autoscaling.maxReplicas must be >= minReplicas');
+  });
+
+  it('reports component dependency cycles', () => {
+    const errors = validateProjectConfig({
+      components: {
+        web: { framework: 'next', dependsOn: ['api'] },
+        api: { framework: 'nest', dependsOn: ['web'] },
+      },
+    });
+    expect(errors.some(error => error.startsWith('Component dependency cycle'))).toBe(true);
+  });
+
+  it('rejects dependsOn with the kustomize format', () => {
+    const errors = validateProjectConfig({
+      manifests: { format: 'kustomize' },
+      components: {
+        web: { framework: 'next', dependsOn: ['api'] },
+        api: { framework: 'nest' },
+      },
+    });
+    expect(errors).toContain('components.web.dependsOn cannot be used with manifests.format kustomize');
+  });
+
+  it('checks cron and worker settings of workloads', () => {
+    const errors = validateProjectConfig({
+      workloads: {
+        report: { kind: 'cron', command: ['node', 'report.js'], replicas: 2 },
+        queue: { kind: 'worker', command: ['node', 'worker.js'], schedule: '* * * * *', probes: { liveness: { path: '/healthz' } } },
+      },
+    });
+    expect(errors).toEqual([
+      'workloads.report.schedule is required for cron workloads',
+      'workloads.report.replicas does not apply to cron workloads',
+      'workloads.queue.schedule only applies to cron workloads',
+      'workloads.queue.probes.liveness.command is required: workers do not serve HTTP',
+    ]);
+  });
+
+  it('checks the PodDisruptionBudget against the replicas', () => {
+    expect(validateProjectConfig({ app: { replicas: 2 }, availability: { minAvailable: 2, maxUnavailable: 1 } })).toEqual([
+      'availability.minAvailable and maxUnavailable cannot be combined',
+      'availability.minAvailable must be lower than the 2 replicas, or no node running them could be drained',
+    ]);
+    expect(validateProjectConfig({
+      app: { replicas: 2 },
+      availability: { minAvailable: 2 },
+      autoscaling: { enabled: true, minReplicas: 2, maxReplicas: 6 },
+    })).toEqual([]);
+  });
+
+  it('validates a profile merged over the base settings', () => {
+    const document = { app: { name: 'web' }, profiles: { staging: { autoscaling: { minReplicas: 3, maxReplicas: 1 } } } };
+    expect(validateProjectConfig(document)).toEqual([]);
+    expect(validateProjectConfig(document, 'staging')).toContain('[staging] autoscaling.maxReplicas must be >= minReplicas');
+    expect(validateProjectConfig(document, 'prod')).toEqual(['profiles.prod is not defined (available: staging)']);
+  });
+
+  it('rejects a profile when the file defines none', () => {
+    expect(validateProjectConfig({ app: { name: 'web' } }, 'prod')).toEqual(['profiles.prod is not defined (available: none)']);
+  });
+});
+
+describe('loadProjectConfig', () => {
+  let projectDir: string;
+
+  beforeEach(async () => {
+    projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ekspressjs-test-'));
+    vi.spyOn(process, 'cwd').mockReturnValue(projectDir);
+    await fs.writeFile(path.join(projectDir, 'ekspressjs.yaml'), [
+      'version: 1',
+      'manifests:',
+      '  format: kustomize',
+      'app:',
+      '  name: web',
+      '  port: 3000',
+      'cluster:',
+      '  namespace: shop',
+      'profiles:',
+      '  prod:',
+      '    app:',
+      '      replicas: 5',
+      '    autoscaling:',
+      '      maxReplicas: 10',
+      '',
+    ].join('\n'));
+  });
+
+  afterEach(async () => {
+    activateProfile({});
+    vi.restoreAllMocks();
+    await fs.remove(projectDir);
+  });
+
+  it('renders the kustomize base from the top-level settings only', () => {
+    activateProfile({ env: 'prod' });
+    const loaded = loadProjectConfig()!;
+
+    expect(loaded.config).toMatchObject({ appName: 'web', replicas: 5, namespace: 'shop', autoscaling: { maxReplicas: 10 } });
+    expect(loaded.config.kustomizeBase).toMatchObject({ appName: 'web', port: 3000, namespace: 'shop' });
+    // Unset rather than missing, so the profile's values are not inherited
+    expect(loaded.config.kustomizeBase).toHaveProperty('replicas', undefined);
+    expect(loaded.config.kustomizeBase).toHaveProperty('autoscaling', undefined);
+  });
+
+  it('sets the kustomize base without a profile too', () => {
+    expect(loadProjectConfig()!.config.kustomizeBase).toHaveProperty('replicas', undefined);
+  });
+});
@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { execSync } from 'child_process';
+import { findPreviousRelease, hashSecretData, loadReleaseHistory, recordRelease, updateReleaseStatus } from '../src/releases';
+import { DeployConfig, ReleaseRecord } from '../src/types';
+
+vi.mock('child_process', async importOriginal => ({
+  ...(await importOriginal<typeof import('child_process')>()),
+  execSync: vi.fn(),
+}));
+
+const config: DeployConfig = {
+  appType: 'next',
+  region: 'us-east-1',
+  clusterName: 'main',
+  appName: 'web',
+  port: 3000,
+  replicas: 2,
+  accessKeyId: 'AKIA',
+  secretAccessKey: 'secret',
+  namespace: 'shop',
+  secrets: { DB_PASSWORD: 'hunter2' },
+};
+
+let projectDir: string;
+let manifestsDir: string;
+
+beforeEach(async () => {
+  projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ekspressjs-test-'));
+  vi.spyOn(process, 'cwd').mockReturnValue(projectDir);
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  manifestsDir = path.join(projectDir, 'ekspressjs', 'k8s');
+  await fs.ensureDir(manifestsDir);
+  await fs.writeFile(path.join(manifestsDir, 'deployment.yaml'), 'kind: Deployment\n');
+  await fs.writeFile(path.join(manifestsDir, 'secrets.yaml'), 'kind: Secret\ndata:\n  DB_PASSWORD: aHVudGVyMg==\n');
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  vi.mocked(execSync).mockReset();
+  await fs.remove(projectDir);
+});
+
+describe('recordRelease', () => {
+  it('snapshots the manifests without the Secret and records only its key names and hash', async () => {
+    const record = await recordRelease(config, manifestsDir, { uri: 'web@sha256:abc', tag: 'abc1234', digest: 'sha256:abc' });
+
+    expect(record).toMatchObject({ revision: 1, appName: 'web', namespace: 'shop', imageTag: 'abc1234', status: 'pending' });
+    expect(record.manifests).toEqual(['deployment.yaml']);
+    expect(record.secret).toEqual({
+      name: 'web-secrets',
+      keys: ['DB_PASSWORD'],
+      hash: hashSecretData({ DB_PASSWORD: Buffer.from('hunter2').toString('base64') }),
+    });
+    const releaseDir = path.join(projectDir, 'ekspressjs', 'releases', '1');
+    expect(await fs.readdir(releaseDir)).toEqual(['deployment.yaml']);
+    expect(await fs.readFile(path.join(projectDir, 'ekspressjs', 'releases', 'history.json'), 'utf-8')).not.toContain('aHVudGVyMg');
+  });
+
+  it('annotates the Deployment with the revision, except in GitOps mode', async () => {
+    await recordRelease(config, manifestsDir);
+    expect(vi.mocked(execSync).mock.calls[0][0]).toContain('kubectl annotate deployment/web -n shop ekspressjs.io/revision=1');
+
+    vi.mocked(execSync).mockClear();
+    await recordRelease({ ...config, gitops: { repoPath: projectDir } }, manifestsDir);
+    expect(execSync).not.toHaveBeenCalled();
+  });
+
+  it('records components in apply order with the image each one deployed', async () => {
+    await fs.remove(path.join(manifestsDir, 'deployment.yaml'));
+    for (const component of ['web', 'api']) {
+      await fs.outputFile(path.join(manifestsDir, component, 'deployment.yaml'), `kind: Deployment\nspec:\n  template:\n    spec:\n      containers:\n        - image: repo/${component}:v1\n`);
+      await fs.outputFile(path.join(manifestsDir, component, 'service.yaml'), 'kind: Service\n');
+    }
+    const components = [
+      { name: 'web', port: 3000, replicas: 1, dependsOn: ['api'] },
+      { name: 'api', port: 4000, replicas: 1 },
+    ];
+
+    const record = await recordRelease({ ...config, components }, manifestsDir);
+
+    expect(record.manifests).toEqual(['api/deployment.yaml', 'api/service.yaml', 'web/deployment.yaml', 'web/service.yaml']);
+    expect(record.components).toEqual(['api', 'web']);
+    expect(record.images).toEqual({ api: 'repo/api:v1', web: 'repo/web:v1' });
+  });
+
+  it('keeps the last 20 releases and always the latest deployed one', async () => {
+    const first = await recordRelease(config, manifestsDir);
+    updateReleaseStatus(first.revision, 'deployed');
+    for (let i = 0; i < 21; i++) {
+      await recordRelease(config, manifestsDir);
+    }
+
+    const revisions = loadReleaseHistory().map(record => record.revision);
+    expect(revisions).toHaveLength(20);
+    expect(revisions[0]).toBe(1);
+    expect(revisions.slice(1)).toEqual(Array.from({ length: 19 }, (_, i) => i + 4));
+    expect(await fs.pathExists(path.join(projectDir, 'ekspressjs', 'releases', '2'))).toBe(false);
+  });
+});
+
+describe('hashSecretData', () => {
+  it('does not depend on key order but on every value', () => {
+    expect(hashSecretData({ A: '1', B: '2' })).toBe(hashSecretData({ B: '2', A: '1' }));
+    expect(hashSecretData({ A: '1', B: '2' })).not.toBe(hashSecretData({ A: '1', B: '3' }));
+    expect(hashSecretData({ AB: '' })).not.toBe(hashSecretData({ A: 'B' }));
+  });
+});
+
+describe('findPreviousRelease', () => {
+  const release = (revision: number, status: ReleaseRecord['status']): ReleaseRecord => ({
+    revision, status, appName: 'web', namespace: 'shop', configHash: '', manifests: [], deployedAt: '',
+  });
+
+  it('skips the current and failed releases', () => {
+    expect(findPreviousRelease([release(1, 'deployed'), release(2, 'failed'), release(3, 'deployed')])?.revision).toBe(1);
+  });
+
+  it('returns null when nothing was deployed before', () => {
+    expect(findPreviousRelease([release(1, 'failed'), release(2, 'deployed')])).toBeNull();
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { isExternalSecretRef, parseSecretReference } from '../src/secret-refs';
+
+describe('parseSecretReference', () => {
+  it('parses a Secrets Manager name with a JSON key', () => {
+    expect(parseSecretReference('secretsmanager:prod/db#url')).toEqual({ provider: 'secretsmanager', id: 'prod/db', property: 'url' });
+  });
+
+  it('parses a Secrets Manager ARN, whose colons belong to the id', () => {
+    expect(parseSecretReference('secretsmanager:arn:aws:secretsmanager:us-east-1:123456789012:secret:stripe')).toEqual({
+      provider: 'secretsmanager',
+      id: 'arn:aws:secretsmanager:us-east-1:123456789012:secret:stripe',
+      property: undefined,
+    });
+  });
+
+  it('parses an SSM parameter, where # is part of the name', () => {
+    expect(parseSecretReference('ssm:/prod/api#key')).toEqual({ provider: 'ssm', id: '/prod/api#key' });
+  });
+
+  it('rejects values that are not references', () => {
+    expect(() => parseSecretReference('plain-value')).toThrow('Invalid secret reference: plain-value');
+    expect(() => parseSecretReference('secretsmanager:#url')).toThrow('Invalid secret reference');
+  });
+});
+
+describe('isExternalSecretRef', () => {
+  it('detects secretsmanager: and ssm: values only', () => {
+    expect(isExternalSecretRef('ssm:/prod/api')).toBe(true);
+    expect(isExternalSecretRef('secretsmanager:prod/db')).toBe(true);
+    expect(isExternalSecretRef('vault:prod/db')).toBe(false);
+    expect(isExternalSecretRef(undefined)).toBe(false);
+  });
+});
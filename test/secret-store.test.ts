@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+
+let projectDir: string;
+
+beforeEach(async () => {
+  projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ekspressjs-test-'));
+  vi.spyOn(process, 'cwd').mockReturnValue(projectDir);
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.stubEnv('EKSPRESSJS_SECRET_STORE', 'vault');
+  vi.stubEnv('EKSPRESSJS_VAULT_PASSPHRASE', 'correct horse');
+  vi.resetModules();
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+  await fs.remove(projectDir);
+});
+
+// A fresh module has no cached vault key, like a new run of the CLI
+const loadSecretStore = () => import('../src/secret-store');
+
+describe('encrypted vault', () => {
+  it('stores references and resolves them with the same passphrase', async () => {
+    const ref = await (await loadSecretStore()).storeSecret('web/default/secrets/DB_PASSWORD', 'hunter2');
+    expect(ref).toBe('ekspressjs-secret:vault:web/default/secrets/DB_PASSWORD');
+
+    vi.resetModules();
+    expect(await (await loadSecretStore()).resolveSecret(ref)).toBe('hunter2');
+  });
+
+  it('rejects a wrong passphrase even while the vault is empty', async () => {
+    await (await loadSecretStore()).storeSecret('web/default/secrets/DB_PASSWORD', 'hunter2');
+    const vaultPath = path.join(projectDir, 'ekspressjs', '.ekspressjs-vault.json');
+    const vault = await fs.readJson(vaultPath);
+    await fs.writeJson(vaultPath, { ...vault, entries: {} });
+
+    vi.resetModules();
+    vi.stubEnv('EKSPRESSJS_VAULT_PASSPHRASE', 'wrong');
+    await expect((await loadSecretStore()).storeSecret('web/default/secrets/API_KEY', 'x'))
+      .rejects.toThrow('Wrong secret vault passphrase');
+  });
+
+  it('requires the passphrase verifier', async () => {
+    await (await loadSecretStore()).storeSecret('web/default/secrets/DB_PASSWORD', 'hunter2');
+    const vaultPath = path.join(projectDir, 'ekspressjs', '.ekspressjs-vault.json');
+    const { verifier, ...vault } = await fs.readJson(vaultPath);
+    await fs.writeJson(vaultPath, vault);
+
+    vi.resetModules();
+    await expect((await loadSecretStore()).resolveSecret('ekspressjs-secret:vault:web/default/secrets/DB_PASSWORD'))
+      .rejects.toThrow('has no passphrase verifier');
+  });
+});
+
+describe('saved config', () => {
+  it('keeps stored secrets as references until a command needs the values', async () => {
+    const ref = await (await loadSecretStore()).storeSecret('web/default/secrets/DB_PASSWORD', 'hunter2');
+    await fs.writeJson(path.join(projectDir, 'ekspressjs', '.ekspressjs-config.json'), {
+      region: 'us-east-1', clusterName: 'main', appName: 'web', port: 3000, replicas: 2, accessKeyId: 'AKIA',
+      secrets: { DB_PASSWORD: ref },
+    });
+
+    vi.resetModules();
+    vi.stubEnv('EKSPRESSJS_VAULT_PASSPHRASE', '');
+    const config = await (await import('../src/prompts')).loadPlanConfig({}, 'next');
+    expect(config.secrets).toEqual({ DB_PASSWORD: ref });
+    await expect((await loadSecretStore()).resolveConfigSecrets(config)).rejects.toThrow('Secret vault is locked');
+  });
+});
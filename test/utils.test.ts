@@ -0,0 +1,237 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import * as fs from 'fs-extra';
+import * as os from 'os';
+import * as path from 'path';
+import { detectGoProject, detectJavaProject, detectNodeProject, detectNodeWorkspace, detectPythonProject, detectRustProject, getFrameworkDefaults, parseEnvFile, resolveImageTag } from '../src/utils';
+import { DeployConfig } from '../src/types';
+
+const config: DeployConfig = {
+  appType: 'next',
+  region: 'us-east-1',
+  clusterName: 'main',
+  appName: 'web',
+  port: 3000,
+  replicas: 2,
+  accessKeyId: 'AKIA',
+  secretAccessKey: 'secret',
+};
+const now = new Date('2026-03-04T05:06:07Z');
+
+describe('resolveImageTag', () => {
+  it('uses a sortable UTC timestamp', () => {
+    expect(resolveImageTag({ ...config, imageTagging: { strategy: 'timestamp' } }, now)).toBe('20260304050607');
+  });
+
+  it('fills in a template', () => {
+    const tagging = { strategy: 'template' as const, template: '{appName}-{date}-{timestamp}' };
+    expect(resolveImageTag({ ...config, imageTagging: tagging }, now)).toBe('web-20260304-20260304050607');
+  });
+
+  it('replaces characters Docker does not allow in a tag', () => {
+    const tagging = { strategy: 'template' as const, template: '.release/{appName}:v1' };
+    expect(resolveImageTag({ ...config, imageTagging: tagging }, now)).toBe('release-web-v1');
+  });
+});
+
+describe('parseEnvFile', () => {
+  it('reads KEY=VALUE lines, strips quotes and skips comments and empty values', () => {
+    const content = ['# database', 'DB_HOST=localhost', 'DB_URL="postgres://a:b@c/d?x=1"', "NAME='web app'", 'EMPTY=', '', 'BROKEN'].join('\n');
+    expect(parseEnvFile(content)).toEqual({
+      DB_HOST: 'localhost',
+      DB_URL: 'postgres://a:b@c/d?x=1',
+      NAME: 'web app',
+    });
+  });
+});
+
+describe('detectNodeProject', () => {
+  let projectDir: string;
+
+  beforeEach(async () => {
+    projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ekspressjs-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(projectDir);
+  });
+
+  it('defaults to npm', async () => {
+    await fs.writeJson(path.join(projectDir, 'package.json'), { name: 'web' });
+    expect(detectNodeProject(projectDir)).toEqual({ packageManager: 'npm', version: undefined });
+  });
+
+  it('prefers the packageManager field over the lockfile', async () => {
+    await fs.writeJson(path.join(projectDir, 'package.json'), { packageManager: 'pnpm@8.15.4+sha256.abc' });
+    await fs.writeFile(path.join(projectDir, 'package-lock.json'), '{}');
+    expect(detectNodeProject(projectDir)).toEqual({ packageManager: 'pnpm', version: '8.15.4' });
+  });
+
+  it('detects Yarn Berry from .yarnrc.yml when no version is pinned', async () => {
+    await fs.writeJson(path.join(projectDir, 'package.json'), { name: 'web' });
+    await fs.writeFile(path.join(projectDir, 'yarn.lock'), '');
+    await fs.writeFile(path.join(projectDir, '.yarnrc.yml'), 'nodeLinker: pnp\n');
+    expect(detectNodeProject(projectDir)).toEqual({ packageManager: 'yarn', version: undefined, yarnBerry: true });
+  });
+});
+
+describe('detectNodeWorkspace', () => {
+  let repoDir: string;
+
+  beforeEach(async () => {
+    repoDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ekspressjs-test-'));
+    await fs.ensureDir(path.join(repoDir, '.git'));
+    await fs.outputJson(path.join(repoDir, 'apps/web/package.json'), { name: '@acme/web' });
+  });
+
+  afterEach(async () => {
+    await fs.remove(repoDir);
+  });
+
+  it('finds the workspace root and the task runner above the app', async () => {
+    await fs.writeFile(path.join(repoDir, 'pnpm-workspace.yaml'), 'packages:\n  - apps/*\n');
+    await fs.writeJson(path.join(repoDir, 'turbo.json'), {});
+    expect(detectNodeWorkspace(path.join(repoDir, 'apps/web'))).toEqual({
+      root: repoDir,
+      appPath: 'apps/web',
+      packageName: '@acme/web',
+      orchestrator: 'turbo',
+      nxProject: undefined,
+    });
+  });
+
+  it('stops at the git root', () => {
+    expect(detectNodeWorkspace(path.join(repoDir, 'apps/web'))).toBeNull();
+  });
+});
+
+describe('detectPythonProject', () => {
+  let projectDir: string;
+
+  beforeEach(async () => {
+    projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ekspressjs-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(projectDir);
+  });
+
+  it('finds the FastAPI app object and defaults to pip', async () => {
+    await fs.outputFile(path.join(projectDir, 'app/main.py'), 'from fastapi import FastAPI\n\napi = FastAPI()\n');
+    expect(detectPythonProject('fastapi', projectDir)).toEqual({ packageManager: 'pip', entrypoint: 'app.main:api' });
+  });
+
+  it('uses a Flask app factory and the Poetry lock file', async () => {
+    await fs.writeFile(path.join(projectDir, 'poetry.lock'), '');
+    await fs.writeFile(path.join(projectDir, 'app.py'), 'def create_app():\n    return Flask(__name__)\n');
+    expect(detectPythonProject('flask', projectDir)).toEqual({ packageManager: 'poetry', entrypoint: 'app:create_app()' });
+  });
+
+  it('reads the Django settings module from manage.py', async () => {
+    await fs.writeFile(path.join(projectDir, 'uv.lock'), '');
+    await fs.writeFile(
+      path.join(projectDir, 'manage.py'),
+      "os.environ.setdefault('DJANGO_SETTINGS_MODULE', 'mysite.settings')\n"
+    );
+    expect(detectPythonProject('django', projectDir)).toEqual({ packageManager: 'uv', entrypoint: 'mysite.wsgi:application' });
+  });
+});
+
+describe('detectJavaProject', () => {
+  let projectDir: string;
+
+  beforeEach(async () => {
+    projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ekspressjs-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(projectDir);
+  });
+
+  it('reads the JDK and Spring Boot versions from pom.xml', async () => {
+    await fs.writeFile(path.join(projectDir, 'mvnw'), '');
+    await fs.writeFile(
+      path.join(projectDir, 'pom.xml'),
+      '<parent><artifactId>spring-boot-starter-parent</artifactId><version>3.2.4</version></parent>\n' +
+      '<properties><java.version>21</java.version></properties>\n'
+    );
+    expect(detectJavaProject(projectDir)).toEqual({
+      buildTool: 'maven',
+      wrapper: true,
+      jdkVersion: '21',
+      springBoot: true,
+      springBootVersion: '3.2.4',
+    });
+  });
+
+  it('reads the toolchain and plugin version from a Kotlin Gradle script', async () => {
+    await fs.writeFile(
+      path.join(projectDir, 'build.gradle.kts'),
+      'plugins {\n  id("org.springframework.boot") version "3.3.0"\n}\n' +
+      'java { toolchain { languageVersion = JavaLanguageVersion.of(21) } }\n'
+    );
+    expect(detectJavaProject(projectDir)).toEqual({
+      buildTool: 'gradle',
+      wrapper: false,
+      jdkVersion: '21',
+      springBoot: true,
+      springBootVersion: '3.3.0',
+    });
+  });
+});
+
+describe('detectGoProject', () => {
+  let projectDir: string;
+
+  beforeEach(async () => {
+    projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ekspressjs-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(projectDir);
+  });
+
+  it('reads the Go version from go.mod and builds the root main package', async () => {
+    await fs.writeFile(path.join(projectDir, 'go.mod'), 'module example.com/web\n\ngo 1.22.3\n');
+    await fs.writeFile(path.join(projectDir, 'main.go'), 'package main\n');
+    expect(detectGoProject('web', projectDir)).toEqual({ goVersion: '1.22', mainPackage: '.' });
+  });
+
+  it('prefers the ./cmd command named after the app', async () => {
+    await fs.writeFile(path.join(projectDir, 'go.mod'), 'module example.com/web\n');
+    await fs.outputFile(path.join(projectDir, 'cmd/api/main.go'), 'package main\n');
+    await fs.outputFile(path.join(projectDir, 'cmd/web/main.go'), 'package main\n');
+    expect(detectGoProject('web', projectDir)).toEqual({ goVersion: '1.23', mainPackage: './cmd/web' });
+  });
+});
+
+describe('detectRustProject', () => {
+  let projectDir: string;
+
+  beforeEach(async () => {
+    projectDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ekspressjs-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(projectDir);
+  });
+
+  it('uses the first [[bin]] target over the package name', async () => {
+    await fs.writeFile(
+      path.join(projectDir, 'Cargo.toml'),
+      '[package]\nname = "web"\n\n[[bin]]\nname = "server"\npath = "src/main.rs"\n'
+    );
+    expect(detectRustProject('web', projectDir)).toEqual({ binaryName: 'server' });
+  });
+
+  it('falls back to the app name for a workspace without a root package', async () => {
+    await fs.writeFile(path.join(projectDir, 'Cargo.toml'), '[workspace]\nmembers = ["api"]\n');
+    expect(detectRustProject('web', projectDir)).toEqual({ binaryName: 'web' });
+  });
+});
+
+describe('getFrameworkDefaults', () => {
+  it('uses the framework port and health path', () => {
+    expect(getFrameworkDefaults('flask')).toEqual({ port: 5000, healthCheckPath: '/health' });
+    expect(getFrameworkDefaults('next')).toEqual({ port: 3000, healthCheckPath: '/' });
+  });
+});